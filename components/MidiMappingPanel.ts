@@ -0,0 +1,283 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+import type { Instrument } from '../types';
+import { CC_ENCODINGS, type CcEncoding, type ControlScaling, type LearnableControl } from '../utils/LearnableControls';
+import { describeControl, parsePadTarget, stepTarget, type MidiBinding } from '../utils/MidiMapper';
+import { ALL_INSTRUMENTS } from '../utils/music';
+
+/** Modal listing the active device's MIDI mappings, with learn, import and export actions. */
+@customElement('midi-mapping-panel')
+export class MidiMappingPanel extends LitElement {
+  // FIX: Removed 'override' keyword.
+  static styles = css`
+    .overlay {
+      position: fixed;
+      inset: 0;
+      background: rgba(0, 0, 0, 0.6);
+      backdrop-filter: blur(5px);
+      -webkit-backdrop-filter: blur(5px);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      z-index: 1000;
+    }
+    .panel {
+      background: rgba(28, 18, 41, 0.85);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 18px;
+      padding: 25px 30px;
+      max-width: 560px;
+      width: 90%;
+      max-height: 85vh;
+      overflow-y: auto;
+      box-shadow: 0 8px 32px rgba(0, 0, 0, 0.4);
+      color: white;
+      font-family: 'Inter', sans-serif;
+    }
+    h3 {
+      margin: 0 0 4px;
+      font-size: 1.8em;
+      background: linear-gradient(45deg, #ff25f6, #2af6de);
+      -webkit-background-clip: text;
+      -webkit-text-fill-color: transparent;
+    }
+    .device {
+      margin: 0 0 15px;
+      color: rgba(255, 255, 255, 0.7);
+      font-size: 0.9em;
+    }
+    h4 {
+      margin: 15px 0 8px;
+      font-size: 0.9em;
+      text-transform: uppercase;
+      letter-spacing: 0.05em;
+      color: rgba(255, 255, 255, 0.7);
+    }
+    ul {
+      list-style: none;
+      padding: 0;
+      margin: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+    .main, .row, .scaling {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    li {
+      padding: 6px 10px;
+      border-radius: 8px;
+      background: rgba(0, 0, 0, 0.2);
+    }
+    .scaling {
+      margin-top: 6px;
+      justify-content: flex-end;
+      font-size: 0.85em;
+    }
+    input[type="number"] {
+      width: 64px;
+      background: rgba(0, 0, 0, 0.3);
+      color: white;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 5px 6px;
+      font-family: inherit;
+    }
+    .name {
+      flex-grow: 1;
+      font-weight: 600;
+    }
+    .control {
+      font-family: monospace;
+      font-size: 0.9em;
+      color: #2af6de;
+      min-width: 90px;
+      text-align: right;
+    }
+    .control.unmapped {
+      color: rgba(255, 255, 255, 0.4);
+    }
+    .row {
+      margin-top: 15px;
+      flex-wrap: wrap;
+    }
+    select {
+      background: rgba(0, 0, 0, 0.3);
+      color: white;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 6px 8px;
+      font-family: inherit;
+    }
+    button {
+      background: rgba(255, 255, 255, 0.1);
+      color: white;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+      padding: 6px 12px;
+      font-size: 0.85em;
+      font-weight: 500;
+      cursor: pointer;
+      transition: background-color 0.2s, border-color 0.2s;
+    }
+    button:hover {
+      background: rgba(255, 255, 255, 0.2);
+      border-color: rgba(255, 255, 255, 0.4);
+    }
+    button.learning {
+      background: #ffdd28;
+      color: #0D0B12;
+      border-color: #ffdd28;
+    }
+    .close {
+      width: 100%;
+      padding: 12px;
+      margin-top: 15px;
+      font-weight: 600;
+    }
+  `;
+
+  @property({ type: String }) deviceName = '';
+  @property({ type: Array }) bindings: MidiBinding[] = [];
+  /** Every learnable control, for labels and learning. */
+  @property({ type: Array }) controls: LearnableControl[] = [];
+  @property({ type: String }) learning: string | null = null;
+  @property({ type: Number }) stepCount = 16;
+
+  @state() private stepInstrument: Instrument = 'kick';
+  @state() private stepIndex = 0;
+
+  private emit(type: string, detail?: unknown) {
+    // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+    (this as any).dispatchEvent(new CustomEvent(type, { detail }));
+  }
+
+  private handleImport(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (file) this.emit('mapping-import', file);
+    input.value = '';
+  }
+
+  private label(target: string) {
+    const pad = parsePadTarget(target);
+    if (pad !== null) return `Pad ${pad + 1}`;
+    return this.controls.find((c) => c.id === target)?.label ?? target;
+  }
+
+  private updateScaling(binding: MidiBinding, changes: Partial<ControlScaling>) {
+    const scaling: ControlScaling = { encoding: 'absolute', ...binding.scaling, ...changes };
+    this.emit('mapping-scaling', { target: binding.target, scaling });
+  }
+
+  private renderScaling(binding: MidiBinding) {
+    const control = this.controls.find((c) => c.id === binding.target);
+    if (binding.control.type !== 'cc' || control?.type !== 'range') return '';
+    const encoding = binding.scaling?.encoding ?? 'absolute';
+    const rangeInput = (bound: 'min' | 'max') => html`
+      <input
+        type="number"
+        aria-label=${`Range ${bound}`}
+        min=${control.min}
+        max=${control.max}
+        step=${control.step}
+        .value=${String(binding.scaling?.[bound] ?? control[bound])}
+        @change=${(e: Event) => {
+          const value = Number((e.target as HTMLInputElement).value);
+          this.updateScaling(binding, { [bound]: Math.max(control.min, Math.min(control.max, value)) });
+        }}>`;
+    return html`
+      <div class="scaling">
+        <select aria-label="CC encoding" @change=${(e: Event) => this.updateScaling(binding, { encoding: (e.target as HTMLSelectElement).value as CcEncoding })}>
+          ${Object.entries(CC_ENCODINGS).map(([value, label]) => html`<option .value=${value} ?selected=${value === encoding}>${label}</option>`)}
+        </select>
+        ${encoding === 'absolute' && !control.options ? html`${rangeInput('min')}–${rangeInput('max')}` : ''}
+      </div>
+    `;
+  }
+
+  private renderTarget(target: string, learnable = true) {
+    const binding = this.bindings.find((b) => b.target === target);
+    const isLearning = this.learning === target;
+    return html`
+      <li>
+        <div class="main">
+          <span class="name">${this.label(target)}</span>
+          <span class="control ${binding ? '' : 'unmapped'}">${binding ? describeControl(binding.control) : 'Unmapped'}</span>
+          ${learnable ? html`
+            <button
+              class=${isLearning ? 'learning' : ''}
+              @click=${() => this.emit('mapping-learn', isLearning ? null : target)}>
+              ${isLearning ? 'Listening…' : 'Learn'}
+            </button>
+          ` : ''}
+          ${binding && parsePadTarget(target) === null
+            ? html`<button aria-label="Remove mapping" @click=${() => this.emit('mapping-unbind', target)}>✕</button>`
+            : ''}
+        </div>
+        ${binding ? this.renderScaling(binding) : ''}
+      </li>
+    `;
+  }
+
+  // FIX: Removed 'override' keyword.
+  render() {
+    const pads = this.bindings.filter((b) => parsePadTarget(b.target) !== null);
+    const steps = this.bindings.filter((b) => b.target.startsWith('step:'));
+    const controls = this.controls.filter((c) => !c.id.startsWith('step:'));
+    const isLearningStep = this.learning?.startsWith('step:') ?? false;
+    return html`
+      <div class="overlay" @click=${() => this.emit('close')}>
+        <div class="panel" @click=${(e: Event) => e.stopPropagation()}>
+          <h3>MIDI Mappings</h3>
+          <p class="device">Saved for ${this.deviceName}</p>
+
+          <h4>Controls</h4>
+          <ul>${controls.map((control) => this.renderTarget(control.id))}</ul>
+
+          <h4>Beatmaker Steps</h4>
+          <ul>${steps.map(({ target }) => this.renderTarget(target, false))}</ul>
+          <div class="row">
+            <select aria-label="Instrument" @change=${(e: Event) => this.stepInstrument = (e.target as HTMLSelectElement).value as Instrument}>
+              ${ALL_INSTRUMENTS.map((i) => html`<option .value=${i} ?selected=${i === this.stepInstrument}>${i}</option>`)}
+            </select>
+            <select aria-label="Step" @change=${(e: Event) => this.stepIndex = Number((e.target as HTMLSelectElement).value)}>
+              ${Array.from({ length: this.stepCount }, (_, i) => html`<option .value=${String(i)} ?selected=${i === this.stepIndex}>Step ${i + 1}</option>`)}
+            </select>
+            <button
+              class=${isLearningStep ? 'learning' : ''}
+              @click=${() => this.emit('mapping-learn', isLearningStep ? null : stepTarget(this.stepInstrument, this.stepIndex))}>
+              ${isLearningStep ? 'Listening…' : 'Learn step'}
+            </button>
+          </div>
+
+          <h4>Pads</h4>
+          <ul>${pads.map(({ target }) => this.renderTarget(target, false))}</ul>
+
+          <div class="row">
+            <button @click=${() => this.emit('mapping-export')}>Export file</button>
+            <label>
+              <button @click=${(e: Event) => ((e.currentTarget as HTMLElement).nextElementSibling as HTMLInputElement).click()}>Import file</button>
+              <input type="file" accept=".json,application/json" hidden @change=${this.handleImport}>
+            </label>
+            <button @click=${() => this.emit('mapping-reset')}>Reset to defaults</button>
+          </div>
+          <button class="close" @click=${() => this.emit('close')}>Close</button>
+        </div>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'midi-mapping-panel': MidiMappingPanel;
+  }
+}
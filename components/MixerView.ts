@@ -0,0 +1,458 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { styleMap } from 'lit/directives/style-map.js';
+
+import type { ChannelSettings, EffectSettings, EffectType, MixerChannel, MixerSettings } from '../types';
+import { createEffect, EFFECT_DEFINITIONS, EFFECT_TYPES, type EffectParam, matchingPreset } from '../utils/Effects';
+import {
+  AUX_BUSES, createMixerSettings, describeEffectTarget, type EffectTarget, formatGain, getEffects, MAX_CHANNEL_GAIN,
+  type Mixer, MIXER_CHANNELS,
+} from '../utils/Mixer';
+
+/** How much of the previous meter reading is kept each frame, so peaks fall smoothly. */
+const METER_FALLOFF = 0.85;
+/** Resolution of log-scale parameter sliders. */
+const SLIDER_STEPS = 1000;
+
+function toSlider(param: EffectParam, value: number) {
+  if (!param.log) return value;
+  return Math.round(Math.log(value / param.min) / Math.log(param.max / param.min) * SLIDER_STEPS);
+}
+
+function fromSlider(param: EffectParam, position: number) {
+  if (!param.log) return position;
+  return Math.round(param.min * (param.max / param.min) ** (position / SLIDER_STEPS));
+}
+
+function formatParam(param: EffectParam, value: number) {
+  if (param.options) return param.options[Math.round(value)] ?? '';
+  switch (param.unit) {
+    case 's': return `${value.toFixed(1)} s`;
+    case 'ms': return `${Math.round(value * 1000)} ms`;
+    case 'Hz': return value >= 1000 ? `${(value / 1000).toFixed(1)} kHz` : `${Math.round(value)} Hz`;
+    case 'dB': return `${value} dB`;
+    case '%': return `${Math.round(value * 100)}%`;
+    case ':1': return `${value}:1`;
+    default: return String(value);
+  }
+}
+
+/** Channel strips for the mixer view, with live level meters and an effects rack. */
+@customElement('mixer-view')
+export class MixerView extends LitElement {
+  // FIX: Removed 'override' keyword.
+  static styles = css`
+    :host {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 20px;
+      width: 100%;
+      max-width: 1000px;
+      color: white;
+    }
+    .strips {
+      display: flex;
+      gap: 10px;
+      justify-content: center;
+      flex-wrap: wrap;
+    }
+    .strip {
+      display: flex;
+      flex-direction: column;
+      align-items: center;
+      gap: 8px;
+      width: 84px;
+      padding: 12px 8px;
+      border-radius: 12px;
+      background: rgba(0, 0, 0, 0.25);
+      border: 1px solid rgba(255, 255, 255, 0.1);
+      font-size: 0.8em;
+      color: white;
+    }
+    .strip.aux {
+      background: rgba(82, 0, 255, 0.15);
+    }
+    .name {
+      font-weight: 600;
+      text-transform: capitalize;
+    }
+    .fader-row {
+      display: flex;
+      gap: 8px;
+      height: 140px;
+    }
+    .fader {
+      writing-mode: vertical-lr;
+      direction: rtl;
+      height: 100%;
+      width: 20px;
+      margin: 0;
+      accent-color: #9900ff;
+    }
+    .meter {
+      position: relative;
+      width: 8px;
+      height: 100%;
+      border-radius: 4px;
+      background: rgba(255, 255, 255, 0.1);
+      overflow: hidden;
+    }
+    .meter-fill {
+      position: absolute;
+      bottom: 0;
+      left: 0;
+      right: 0;
+      background: linear-gradient(to top, #3dffab, #d8ff3e 70%, #ff25f6);
+      background-size: 100% 140px;
+      background-position: bottom;
+    }
+    .meter.clipping {
+      box-shadow: 0 0 6px #ff25f6;
+    }
+    .value {
+      font-family: monospace;
+      font-size: 0.95em;
+      color: rgba(255, 255, 255, 0.8);
+    }
+    .knob-row {
+      display: flex;
+      flex-direction: column;
+      align-items: stretch;
+      width: 100%;
+      gap: 2px;
+    }
+    .knob-row label {
+      display: flex;
+      justify-content: space-between;
+      color: rgba(255, 255, 255, 0.7);
+    }
+    .knob-row input {
+      width: 100%;
+      margin: 0;
+      accent-color: #2af6de;
+    }
+    .buttons {
+      display: flex;
+      gap: 4px;
+    }
+    button {
+      width: 30px;
+      height: 26px;
+      background: rgba(255, 255, 255, 0.1);
+      color: white;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      font-weight: 700;
+      cursor: pointer;
+    }
+    button.mute.on {
+      background: #ff25f6;
+      border-color: #ff25f6;
+    }
+    button.solo.on {
+      background: #d8ff3e;
+      border-color: #d8ff3e;
+      color: #0D0B12;
+    }
+    button.fx {
+      width: 100%;
+    }
+    button.fx.selected {
+      background: #5200ff;
+      border-color: #5200ff;
+    }
+    .rack {
+      width: 100%;
+      box-sizing: border-box;
+      padding: 15px;
+      border-radius: 12px;
+      background: rgba(0, 0, 0, 0.25);
+      border: 1px solid rgba(255, 255, 255, 0.1);
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+    }
+    .rack-header {
+      display: flex;
+      align-items: center;
+      gap: 10px;
+      flex-wrap: wrap;
+    }
+    .rack-header h3 {
+      margin: 0;
+      font-size: 1.1em;
+      flex-grow: 1;
+    }
+    .rack .empty {
+      margin: 0;
+      color: rgba(255, 255, 255, 0.6);
+      font-size: 0.85em;
+    }
+    .effects {
+      display: grid;
+      grid-template-columns: repeat(auto-fill, minmax(220px, 1fr));
+      gap: 10px;
+    }
+    .effect {
+      padding: 10px;
+      border-radius: 8px;
+      background: rgba(255, 255, 255, 0.05);
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+      font-size: 0.8em;
+    }
+    .effect.bypassed {
+      opacity: 0.5;
+    }
+    .effect-header {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+    }
+    .effect-header strong {
+      flex-grow: 1;
+    }
+    .effect-header button {
+      width: 24px;
+      height: 22px;
+      padding: 0;
+      font-size: 0.9em;
+    }
+    .param {
+      display: grid;
+      grid-template-columns: 70px 1fr 64px;
+      align-items: center;
+      gap: 6px;
+    }
+    .param input {
+      margin: 0;
+      accent-color: #2af6de;
+    }
+    .param .value {
+      text-align: right;
+    }
+    select {
+      background: rgba(0, 0, 0, 0.3);
+      color: white;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 3px 6px;
+      font-family: inherit;
+    }
+  `;
+
+  @property({ type: Object }) mixer: Mixer | null = null;
+  @property({ type: Object }) settings: MixerSettings = createMixerSettings();
+
+  @state() private levels = new Map<MixerChannel, number>();
+  /** Channel or aux bus whose effects are shown in the rack. */
+  @state() private effectTarget: EffectTarget | null = null;
+  private rafId: number | null = null;
+
+  // FIX: Removed 'override' keyword.
+  connectedCallback() {
+    super.connectedCallback();
+    this.rafId = requestAnimationFrame(() => this.tick());
+  }
+
+  // FIX: Removed 'override' keyword.
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    if (this.rafId) cancelAnimationFrame(this.rafId);
+    this.rafId = null;
+  }
+
+  private tick() {
+    if (this.mixer) {
+      const levels = new Map<MixerChannel, number>();
+      for (const channel of MIXER_CHANNELS) {
+        levels.set(channel, Math.max(this.mixer.getLevel(channel), (this.levels.get(channel) ?? 0) * METER_FALLOFF));
+      }
+      this.levels = levels;
+    }
+    this.rafId = requestAnimationFrame(() => this.tick());
+  }
+
+  private emit(type: string, detail?: unknown) {
+    // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+    (this as any).dispatchEvent(new CustomEvent(type, { detail }));
+  }
+
+  private changeChannel(channel: MixerChannel, changes: Partial<ChannelSettings>) {
+    this.emit('channel-change', { channel, changes });
+  }
+
+  private changeEffects(target: EffectTarget, effects: EffectSettings[]) {
+    this.emit('effects-change', { target, effects });
+  }
+
+  private renderFxButton(target: EffectTarget) {
+    const count = getEffects(this.settings, target).length;
+    return html`
+      <button class="fx ${classMap({ selected: this.effectTarget === target })}" title="Show effects"
+        @click=${() => this.effectTarget = this.effectTarget === target ? null : target}>
+        FX${count ? ` ${count}` : ''}
+      </button>`;
+  }
+
+  private renderChannel(channel: MixerChannel) {
+    const { gain, pan, mute, solo, sends } = this.settings.channels[channel];
+    const level = this.levels.get(channel) ?? 0;
+    return html`
+      <div class="strip">
+        <span class="name">${channel}</span>
+        <div class="fader-row">
+          <input class="fader" type="range" min="0" max=${MAX_CHANNEL_GAIN} step="0.01" .value=${String(gain)}
+            aria-label=${`${channel} volume`}
+            @input=${(e: Event) => this.changeChannel(channel, { gain: Number((e.target as HTMLInputElement).value) })}
+            @dblclick=${() => this.changeChannel(channel, { gain: 1 })}>
+          <div class="meter ${classMap({ clipping: level >= 1 })}">
+            <div class="meter-fill" style=${styleMap({ height: `${Math.min(level, 1) * 100}%` })}></div>
+          </div>
+        </div>
+        <span class="value">${formatGain(gain)}</span>
+        <div class="knob-row">
+          <label>Pan <span>${pan === 0 ? 'C' : `${pan < 0 ? 'L' : 'R'}${Math.round(Math.abs(pan) * 100)}`}</span></label>
+          <input type="range" min="-1" max="1" step="0.01" .value=${String(pan)} aria-label=${`${channel} pan`}
+            @input=${(e: Event) => this.changeChannel(channel, { pan: Number((e.target as HTMLInputElement).value) })}
+            @dblclick=${() => this.changeChannel(channel, { pan: 0 })}>
+        </div>
+        ${AUX_BUSES.map((bus, i) => html`
+          <div class="knob-row">
+            <label>Send ${bus} <span>${Math.round(sends[i] * 100)}%</span></label>
+            <input type="range" min="0" max="1" step="0.01" .value=${String(sends[i])} aria-label=${`${channel} send ${bus}`}
+              @input=${(e: Event) => this.changeChannel(channel, {
+                sends: sends.map((send, j) => j === i ? Number((e.target as HTMLInputElement).value) : send),
+              })}>
+          </div>
+        `)}
+        <div class="buttons">
+          <button class="mute ${classMap({ on: mute })}" title="Mute" aria-pressed=${mute}
+            @click=${() => this.changeChannel(channel, { mute: !mute })}>M</button>
+          <button class="solo ${classMap({ on: solo })}" title="Solo" aria-pressed=${solo}
+            @click=${() => this.changeChannel(channel, { solo: !solo })}>S</button>
+        </div>
+        ${this.renderFxButton(channel)}
+      </div>
+    `;
+  }
+
+  private renderReturn(bus: string, index: number) {
+    const { level } = this.settings.aux[index];
+    return html`
+      <div class="strip aux">
+        <span class="name">Aux ${bus}</span>
+        <div class="fader-row">
+          <input class="fader" type="range" min="0" max=${MAX_CHANNEL_GAIN} step="0.01" .value=${String(level)}
+            aria-label=${`Aux ${bus} return`}
+            @input=${(e: Event) => this.emit('aux-change', { bus: index, level: Number((e.target as HTMLInputElement).value) })}
+            @dblclick=${() => this.emit('aux-change', { bus: index, level: 1 })}>
+        </div>
+        <span class="value">${formatGain(level)}</span>
+        ${this.renderFxButton(index)}
+      </div>
+    `;
+  }
+
+  private renderParam(target: EffectTarget, effects: EffectSettings[], effect: EffectSettings, param: EffectParam) {
+    const value = effect.params[param.key];
+    const update = (next: number) => this.changeEffects(target, effects.map((e) =>
+      e === effect ? { ...e, params: { ...e.params, [param.key]: next } } : e));
+    return html`
+      <label class="param">
+        ${param.label}
+        ${param.options ? html`
+          <select @change=${(e: Event) => update(Number((e.target as HTMLSelectElement).value))}>
+            ${param.options.map((option, i) => html`<option .value=${String(i)} ?selected=${i === value}>${option}</option>`)}
+          </select>
+        ` : html`
+          <input type="range"
+            min=${param.log ? 0 : param.min} max=${param.log ? SLIDER_STEPS : param.max} step=${param.log ? 1 : param.step}
+            .value=${String(toSlider(param, value))}
+            @input=${(e: Event) => update(fromSlider(param, Number((e.target as HTMLInputElement).value)))}>
+        `}
+        <span class="value">${param.options ? '' : formatParam(param, value)}</span>
+      </label>`;
+  }
+
+  private renderEffect(target: EffectTarget, effects: EffectSettings[], effect: EffectSettings, index: number) {
+    const definition = EFFECT_DEFINITIONS[effect.type];
+    const preset = matchingPreset(effect);
+    const move = (offset: number) => {
+      const next = [...effects];
+      next.splice(index, 1);
+      next.splice(index + offset, 0, effect);
+      this.changeEffects(target, next);
+    };
+    return html`
+      <div class="effect ${classMap({ bypassed: !effect.enabled })}">
+        <div class="effect-header">
+          <input type="checkbox" .checked=${effect.enabled} title="On / bypass"
+            @change=${(e: Event) => this.changeEffects(target, effects.map((fx) =>
+              fx === effect ? { ...fx, enabled: (e.target as HTMLInputElement).checked } : fx))}>
+          <strong>${definition.label}</strong>
+          <button title="Move earlier" ?disabled=${index === 0} @click=${() => move(-1)}>‹</button>
+          <button title="Move later" ?disabled=${index === effects.length - 1} @click=${() => move(1)}>›</button>
+          <button title="Remove" @click=${() => this.changeEffects(target, effects.filter((fx) => fx !== effect))}>✕</button>
+        </div>
+        <select aria-label="Preset"
+          @change=${(e: Event) => this.changeEffects(target, effects.map((fx) => fx === effect
+            ? { ...fx, params: { ...definition.presets[(e.target as HTMLSelectElement).value] } }
+            : fx))}>
+          ${preset ? '' : html`<option selected disabled>Custom</option>`}
+          ${Object.keys(definition.presets).map((name) => html`<option .value=${name} ?selected=${name === preset}>${name}</option>`)}
+        </select>
+        ${definition.params.map((param) => this.renderParam(target, effects, effect, param))}
+      </div>`;
+  }
+
+  private renderRack() {
+    const target = this.effectTarget;
+    if (target === null) return '';
+    const effects = getEffects(this.settings, target);
+    return html`
+      <section class="rack">
+        <div class="rack-header">
+          <h3>${describeEffectTarget(target)} effects</h3>
+          <select aria-label="Add effect"
+            @change=${(e: Event) => {
+              const select = e.target as HTMLSelectElement;
+              this.changeEffects(target, [...effects, createEffect(select.value as EffectType)]);
+              select.value = '';
+            }}>
+            <option value="" selected disabled>+ Add effect</option>
+            ${EFFECT_TYPES.map((type) => html`<option .value=${type}>${EFFECT_DEFINITIONS[type].label}</option>`)}
+          </select>
+        </div>
+        ${effects.length === 0
+          ? html`<p class="empty">No effects yet. ${typeof target === 'number'
+            ? 'Channels reach this bus through their sends.'
+            : 'Inserts process the channel before its fader, in order.'}</p>`
+          : html`<div class="effects">${effects.map((effect, i) => this.renderEffect(target, effects, effect, i))}</div>`}
+      </section>`;
+  }
+
+  // FIX: Removed 'override' keyword.
+  render() {
+    return html`
+      <div class="strips">
+        ${MIXER_CHANNELS.map((channel) => this.renderChannel(channel))}
+        ${AUX_BUSES.map((bus, i) => this.renderReturn(bus, i))}
+      </div>
+      ${this.renderRack()}
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'mixer-view': MixerView;
+  }
+}
@@ -0,0 +1,242 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+import { styleMap } from 'lit/directives/style-map.js';
+
+export const PAD_COLORS = ['#9900ff', '#5200ff', '#ff25f6', '#2af6de', '#ffdd28', '#3dffab', '#d8ff3e', '#d9b2ff'];
+
+const MAX_TEXT_LENGTH = 80;
+
+export interface PadEdit {
+  text: string;
+  color: string;
+}
+
+/** Modal for creating or editing a single launchpad pad. */
+@customElement('pad-editor')
+export class PadEditor extends LitElement {
+  // FIX: Removed 'override' keyword.
+  static styles = css`
+    .overlay {
+      position: fixed;
+      inset: 0;
+      background: rgba(0, 0, 0, 0.6);
+      backdrop-filter: blur(5px);
+      -webkit-backdrop-filter: blur(5px);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      z-index: 1000;
+    }
+    .panel {
+      background: rgba(28, 18, 41, 0.85);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 18px;
+      padding: 25px 30px;
+      max-width: 420px;
+      width: 90%;
+      box-shadow: 0 8px 32px rgba(0, 0, 0, 0.4);
+      color: white;
+      font-family: 'Inter', sans-serif;
+      display: flex;
+      flex-direction: column;
+      gap: 15px;
+    }
+    h3 {
+      margin: 0;
+      font-size: 1.8em;
+      background: linear-gradient(45deg, #ff25f6, #2af6de);
+      -webkit-background-clip: text;
+      -webkit-text-fill-color: transparent;
+    }
+    label {
+      font-size: 0.9em;
+      font-weight: 500;
+    }
+    input[type="text"] {
+      width: 100%;
+      box-sizing: border-box;
+      background: rgba(0, 0, 0, 0.3);
+      color: white;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 8px 10px;
+      font-family: inherit;
+      font-size: 1em;
+      margin-top: 6px;
+    }
+    .swatches {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 8px;
+      align-items: center;
+      margin-top: 6px;
+    }
+    .swatch {
+      width: 28px;
+      height: 28px;
+      border-radius: 50%;
+      border: 2px solid transparent;
+      cursor: pointer;
+      padding: 0;
+    }
+    .swatch.selected {
+      border-color: white;
+      box-shadow: 0 0 8px var(--swatch-color);
+    }
+    input[type="color"] {
+      width: 32px;
+      height: 32px;
+      border: none;
+      background: none;
+      cursor: pointer;
+    }
+    .message {
+      font-size: 0.85em;
+      line-height: 1.4;
+      padding: 8px 10px;
+      border-radius: 6px;
+    }
+    .message.error {
+      background: rgba(218, 32, 0, 0.3);
+    }
+    .message.warning {
+      background: rgba(255, 221, 40, 0.2);
+    }
+    .actions {
+      display: flex;
+      gap: 8px;
+      flex-wrap: wrap;
+    }
+    button {
+      background: rgba(255, 255, 255, 0.1);
+      color: white;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+      padding: 8px 15px;
+      font-size: 0.9em;
+      font-weight: 500;
+      cursor: pointer;
+    }
+    button:hover:not(:disabled) {
+      background: rgba(255, 255, 255, 0.2);
+    }
+    button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+    button.primary {
+      background: white;
+      color: #0D0B12;
+      font-weight: 600;
+      margin-left: auto;
+    }
+    button.danger {
+      background: rgba(218, 32, 0, 0.3);
+      border-color: rgba(218, 32, 0, 0.5);
+    }
+  `;
+
+  @property({ type: Boolean }) isNew = false;
+  @property({ type: String }) text = '';
+  @property({ type: String }) color = PAD_COLORS[0];
+  @property({ type: Boolean }) canMoveBack = false;
+  @property({ type: Boolean }) canMoveForward = false;
+  /** Texts of the other pads, for duplicate detection. */
+  @property({ type: Array }) otherTexts: string[] = [];
+  /** Tells whether Lyria has previously filtered a prompt text. */
+  @property({ attribute: false }) isFiltered: (text: string) => boolean = () => false;
+
+  @state() private draftText = '';
+  @state() private draftColor = '';
+
+  // FIX: Removed 'override' keyword.
+  willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('text')) this.draftText = this.text;
+    if (changedProperties.has('color')) this.draftColor = this.color;
+  }
+
+  private get error(): string | null {
+    const text = this.draftText.trim();
+    if (!text) return 'A pad needs a prompt.';
+    if (text.length > MAX_TEXT_LENGTH) return `Keep prompts under ${MAX_TEXT_LENGTH} characters.`;
+    if (this.otherTexts.some((t) => t.toLowerCase() === text.toLowerCase())) {
+      return 'Another pad already uses this prompt.';
+    }
+    return null;
+  }
+
+  private emit(type: string, detail?: unknown) {
+    // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+    (this as any).dispatchEvent(new CustomEvent(type, { detail }));
+  }
+
+  private save() {
+    if (this.error) return;
+    this.emit('pad-save', { text: this.draftText.trim(), color: this.draftColor } as PadEdit);
+  }
+
+  // FIX: Removed 'override' keyword.
+  render() {
+    const error = this.error;
+    const filtered = !error && this.isFiltered(this.draftText.trim());
+    return html`
+      <div class="overlay" @click=${() => this.emit('close')}>
+        <div class="panel" @click=${(e: Event) => e.stopPropagation()}>
+          <h3>${this.isNew ? 'New Pad' : 'Edit Pad'}</h3>
+          <label>
+            Prompt
+            <input
+              type="text"
+              .value=${this.draftText}
+              maxlength=${MAX_TEXT_LENGTH + 1}
+              placeholder="e.g. Dreamy Rhodes Chords"
+              @input=${(e: Event) => this.draftText = (e.target as HTMLInputElement).value}
+              @keydown=${(e: KeyboardEvent) => e.key === 'Enter' && this.save()}>
+          </label>
+          <label>
+            Color
+            <div class="swatches">
+              ${PAD_COLORS.map((c) => html`
+                <button
+                  class=${classMap({ swatch: true, selected: c === this.draftColor })}
+                  style=${styleMap({ background: c, '--swatch-color': c })}
+                  aria-label=${`Color ${c}`}
+                  @click=${() => this.draftColor = c}></button>
+              `)}
+              <input
+                type="color"
+                aria-label="Custom color"
+                .value=${this.draftColor}
+                @input=${(e: Event) => this.draftColor = (e.target as HTMLInputElement).value}>
+            </div>
+          </label>
+          ${error ? html`<div class="message error">${error}</div>` : ''}
+          ${filtered ? html`<div class="message warning">
+            Lyria filtered this prompt earlier in the session. It will likely be rejected again.
+          </div>` : ''}
+          <div class="actions">
+            ${this.isNew ? '' : html`
+              <button ?disabled=${!this.canMoveBack} @click=${() => this.emit('pad-move', -1)} aria-label="Move pad earlier">◀</button>
+              <button ?disabled=${!this.canMoveForward} @click=${() => this.emit('pad-move', 1)} aria-label="Move pad later">▶</button>
+              <button class="danger" @click=${() => this.emit('pad-delete')}>Delete</button>
+            `}
+            <button class="primary" ?disabled=${!!error} @click=${this.save}>
+              ${filtered ? 'Save anyway' : 'Save'}
+            </button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'pad-editor': PadEditor;
+  }
+}
@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+import { classMap } from 'lit/directives/class-map.js';
+
+import type { ProjectSummary } from '../utils/Project';
+
+/** Modal listing saved projects, with save, open, import and export actions. */
+@customElement('project-browser')
+export class ProjectBrowser extends LitElement {
+  // FIX: Removed 'override' keyword.
+  static styles = css`
+    .overlay {
+      position: fixed;
+      inset: 0;
+      background: rgba(0, 0, 0, 0.6);
+      backdrop-filter: blur(5px);
+      -webkit-backdrop-filter: blur(5px);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      z-index: 1000;
+    }
+    .panel {
+      background: rgba(28, 18, 41, 0.85);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 18px;
+      padding: 25px 30px;
+      max-width: 520px;
+      width: 90%;
+      box-shadow: 0 8px 32px rgba(0, 0, 0, 0.4);
+      color: white;
+      font-family: 'Inter', sans-serif;
+    }
+    h3 {
+      margin-top: 0;
+      font-size: 1.8em;
+      background: linear-gradient(45deg, #ff25f6, #2af6de);
+      -webkit-background-clip: text;
+      -webkit-text-fill-color: transparent;
+    }
+    .row {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 15px;
+    }
+    input[type="text"] {
+      flex-grow: 1;
+      background: rgba(0, 0, 0, 0.3);
+      color: white;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 8px 10px;
+      font-family: inherit;
+    }
+    button {
+      background: rgba(255, 255, 255, 0.1);
+      color: white;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+      padding: 8px 15px;
+      font-size: 0.9em;
+      font-weight: 500;
+      cursor: pointer;
+      transition: background-color 0.2s, border-color 0.2s;
+    }
+    button:hover {
+      background: rgba(255, 255, 255, 0.2);
+      border-color: rgba(255, 255, 255, 0.4);
+    }
+    button.danger {
+      background: rgba(218, 32, 0, 0.3);
+      border-color: rgba(218, 32, 0, 0.5);
+    }
+    ul {
+      list-style: none;
+      padding: 0;
+      margin: 0 0 15px;
+      max-height: 40vh;
+      overflow-y: auto;
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+    li {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      padding: 8px 10px;
+      border-radius: 8px;
+      background: rgba(0, 0, 0, 0.2);
+    }
+    li.current {
+      border: 1px solid rgba(42, 246, 222, 0.6);
+    }
+    .name {
+      flex-grow: 1;
+      font-weight: 600;
+    }
+    .date {
+      font-size: 0.8em;
+      color: rgba(255, 255, 255, 0.6);
+    }
+    .empty {
+      color: rgba(255, 255, 255, 0.7);
+    }
+    .close {
+      width: 100%;
+      padding: 12px;
+      font-weight: 600;
+    }
+  `;
+
+  @property({ type: Array }) projects: ProjectSummary[] = [];
+  @property({ type: String }) currentProjectId = '';
+  @property({ type: String }) currentProjectName = '';
+
+  @state() private nameDraft = '';
+
+  // FIX: Removed 'override' keyword.
+  willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('currentProjectName')) {
+      this.nameDraft = this.currentProjectName;
+    }
+  }
+
+  private emit(type: string, detail?: unknown) {
+    // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+    (this as any).dispatchEvent(new CustomEvent(type, { detail }));
+  }
+
+  private handleImport(e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    if (file) this.emit('project-import', file);
+    input.value = '';
+  }
+
+  private handleDelete(project: ProjectSummary) {
+    if (confirm(`Delete "${project.name}"? This cannot be undone.`)) {
+      this.emit('project-delete', project.id);
+    }
+  }
+
+  // FIX: Removed 'override' keyword.
+  render() {
+    return html`
+      <div class="overlay" @click=${() => this.emit('close')}>
+        <div class="panel" @click=${(e: Event) => e.stopPropagation()}>
+          <h3>Projects</h3>
+          <div class="row">
+            <input
+              type="text"
+              aria-label="Project name"
+              .value=${this.nameDraft}
+              @input=${(e: Event) => this.nameDraft = (e.target as HTMLInputElement).value}>
+            <button @click=${() => this.emit('project-save', this.nameDraft)}>Save</button>
+            <button @click=${() => this.emit('project-save-as', this.nameDraft)}>Save as copy</button>
+          </div>
+          ${this.projects.length === 0
+            ? html`<p class="empty">No saved projects yet.</p>`
+            : html`<ul>
+                ${this.projects.map((project) => html`
+                  <li class=${classMap({ current: project.id === this.currentProjectId })}>
+                    <span class="name">${project.name}</span>
+                    <span class="date">${new Date(project.updatedAt).toLocaleString()}</span>
+                    <button @click=${() => this.emit('project-open', project.id)}>Open</button>
+                    <button class="danger" aria-label="Delete project" @click=${() => this.handleDelete(project)}>✕</button>
+                  </li>
+                `)}
+              </ul>`}
+          <div class="row">
+            <button @click=${() => this.emit('project-new')}>New</button>
+            <button @click=${() => this.emit('project-export')}>Export file</button>
+            <label>
+              <button @click=${(e: Event) => ((e.currentTarget as HTMLElement).nextElementSibling as HTMLInputElement).click()}>Import file</button>
+              <input type="file" accept=".json,application/json" hidden @change=${this.handleImport}>
+            </label>
+          </div>
+          <button class="close" @click=${() => this.emit('close')}>Close</button>
+        </div>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'project-browser': ProjectBrowser;
+  }
+}
@@ -0,0 +1,66 @@
+// @vitest-environment jsdom
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { Prompt } from '../types';
+import { MidiDispatcher } from '../utils/MidiDispatcher';
+import { LaunchpadButton } from './PromptController';
+
+describe('LaunchpadButton', () => {
+  let pad: LaunchpadButton;
+  let dispatcher: MidiDispatcher;
+  let changes: Prompt[];
+
+  beforeEach(async () => {
+    dispatcher = new MidiDispatcher();
+    pad = new LaunchpadButton();
+    pad.promptId = 'prompt-0';
+    pad.text = 'Minimal techno';
+    pad.cc = 20;
+    pad.note = 36;
+    pad.midiDispatcher = dispatcher;
+    changes = [];
+    pad.addEventListener('prompt-changed', (e) => changes.push((e as CustomEvent<Prompt>).detail));
+    document.body.appendChild(pad);
+    await pad.updateComplete;
+  });
+
+  afterEach(() => {
+    pad.remove();
+  });
+
+  function sendNote(to: MidiDispatcher, note: number) {
+    to.dispatchEvent(new CustomEvent('note-on', { detail: { channel: 0, note, velocity: 127 } }));
+  }
+
+  it('plays from its learned note', () => {
+    sendNote(dispatcher, 36);
+    expect(changes.map((p) => p.weight)).toEqual([2]);
+  });
+
+  it('stops answering MIDI once it leaves the page', () => {
+    pad.remove();
+    sendNote(dispatcher, 36);
+    expect(changes).toEqual([]);
+  });
+
+  it('answers MIDI again when it comes back', () => {
+    pad.remove();
+    document.body.appendChild(pad);
+    sendNote(dispatcher, 36);
+    expect(changes).toHaveLength(1);
+  });
+
+  it('moves its listeners to a new dispatcher', async () => {
+    const other = new MidiDispatcher();
+    pad.midiDispatcher = other;
+    await pad.updateComplete;
+
+    sendNote(dispatcher, 36);
+    expect(changes).toEqual([]);
+    sendNote(other, 36);
+    expect(changes).toHaveLength(1);
+  });
+});
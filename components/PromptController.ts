@@ -7,10 +7,25 @@ import { customElement, property } from 'lit/decorators.js';
 import { classMap } from 'lit/directives/class-map.js';
 import { styleMap } from 'lit/directives/style-map.js';
 
+import './WeightKnob';
+
 import type { MidiDispatcher } from '../utils/MidiDispatcher';
-import type { Prompt, ControlChange } from '../types';
+import type { Prompt, ControlChange, NoteOff, NoteOn } from '../types';
+
+const MAX_WEIGHT = 2;
+/** Pixels of vertical drag per unit of weight. */
+const DRAG_PIXELS_PER_WEIGHT = 100;
+/** Movement below this many pixels is treated as a click, not a drag. */
+const DRAG_THRESHOLD = 4;
+/** A note held longer than this plays the pad momentarily instead of latching it. */
+const MOMENTARY_HOLD_MS = 400;
+
+/** Maps a 7-bit MIDI value (CC value or velocity) onto the weight range. */
+function midiValueToWeight(value: number) {
+  return (value / 127) * MAX_WEIGHT;
+}
 
-/** A single launchpad button associated with a MIDI CC. */
+/** A single launchpad button associated with a MIDI CC or note. */
 @customElement('launchpad-button')
 export class LaunchpadButton extends LitElement {
   // FIX: Removed 'override' keyword.
@@ -36,11 +51,33 @@ export class LaunchpadButton extends LitElement {
     .pad:active {
       transform: scale(0.95);
     }
-    .pad.active {
+    .pad::before {
+      content: '';
+      position: absolute;
+      inset: 0;
+      border-radius: inherit;
       background-color: var(--pad-color);
-      box-shadow: 0 0 25px -3px var(--pad-color), inset 0px 1px 2px rgba(255, 255, 255, 0.1);
+      opacity: var(--pad-intensity);
+      transition: opacity 0.1s;
+      pointer-events: none;
+    }
+    .pad.active {
+      box-shadow: 0 0 var(--pad-glow) -3px var(--pad-color), inset 0px 1px 2px rgba(255, 255, 255, 0.1);
       border-color: rgba(255, 255, 255, 0.4);
     }
+    weight-knob {
+      position: absolute;
+      top: 6px;
+      right: 6px;
+      width: 30%;
+      max-width: 40px;
+      z-index: 1;
+    }
+    .pad.edit-mode {
+      cursor: grab;
+      border-style: dashed;
+      border-color: rgba(255, 255, 255, 0.5);
+    }
     .pad.filtered {
       background-color: #da2000;
       opacity: 0.8;
@@ -69,6 +106,7 @@ export class LaunchpadButton extends LitElement {
       }
     }
     #text {
+      position: relative;
       font-weight: 500;
       font-size: clamp(12px, 1.6vmin, 16px);
       padding: 0.1em 0.3em;
@@ -96,30 +134,103 @@ export class LaunchpadButton extends LitElement {
   @property({ type: String }) color = '';
   @property({ type: Boolean, reflect: true }) filtered = false;
 
+  @property({ type: Number }) audioLevel = 0;
+
   @property({ type: Number }) cc = 0;
-  @property({ type: Number }) channel = 0;
+  /** Channel the mapping was learned on, or null to answer on any channel. */
+  @property({ type: Number }) channel: number | null = null;
+  @property({ type: Number }) note: number | null = null;
 
   @property({ type: Boolean }) learnMode = false;
   @property({ type: Boolean }) showCC = false;
+  /** In edit mode a click asks the studio to edit the pad instead of playing it. */
+  @property({ type: Boolean }) editMode = false;
 
   @property({ type: Object })
   midiDispatcher: MidiDispatcher | null = null;
 
+  private dragStartY = 0;
+  private dragStartWeight = 0;
+  private isDragging = false;
+  private suppressClick = false;
+  /** When the learned note switched the pad on, for momentary playing. */
+  private noteOnTime: number | null = null;
+
+  /** Dispatcher the MIDI listeners are on, so they come off the same one. */
+  private listeningTo: MidiDispatcher | null = null;
+
+  constructor() {
+    super();
+    this.handlePointerMove = this.handlePointerMove.bind(this);
+    this.handlePointerUp = this.handlePointerUp.bind(this);
+    this.handleControlChange = this.handleControlChange.bind(this);
+    this.handleNoteOn = this.handleNoteOn.bind(this);
+    this.handleNoteOff = this.handleNoteOff.bind(this);
+  }
+
   // FIX: Removed 'override' keyword.
   connectedCallback() {
     super.connectedCallback();
-    this.midiDispatcher?.addEventListener('cc-message', (e: Event) => {
-      const customEvent = e as CustomEvent<ControlChange>;
-      const { channel, cc, value } = customEvent.detail;
-      if (this.learnMode) {
-        this.cc = cc;
-        this.channel = channel;
-        this.learnMode = false;
-        this.dispatchPromptChange();
-      } else if (cc === this.cc && value > 0) {
-        this.toggleWeight();
-      }
-    });
+    this.listenToMidi(this.midiDispatcher);
+  }
+
+  // FIX: Removed 'override' keyword.
+  disconnectedCallback() {
+    super.disconnectedCallback();
+    // Pads are rebuilt on every view switch and project load; a detached one must not answer MIDI.
+    this.listenToMidi(null);
+    this.noteOnTime = null;
+  }
+
+  private listenToMidi(dispatcher: MidiDispatcher | null) {
+    if (dispatcher === this.listeningTo) return;
+    this.listeningTo?.removeEventListener('cc-message', this.handleControlChange);
+    this.listeningTo?.removeEventListener('note-on', this.handleNoteOn);
+    this.listeningTo?.removeEventListener('note-off', this.handleNoteOff);
+    this.listeningTo = dispatcher;
+    dispatcher?.addEventListener('cc-message', this.handleControlChange);
+    dispatcher?.addEventListener('note-on', this.handleNoteOn);
+    dispatcher?.addEventListener('note-off', this.handleNoteOff);
+  }
+
+  private handleControlChange(e: Event) {
+    const { channel, cc, value } = (e as CustomEvent<ControlChange>).detail;
+    if (this.learnMode) {
+      this.cc = cc;
+      this.channel = channel;
+      this.note = null;
+      this.learnMode = false;
+      this.dispatchPromptChange();
+    } else if (cc === this.cc && this.note === null && this.matchesChannel(channel)) {
+      this.setWeight(midiValueToWeight(value));
+    }
+  }
+
+  private handleNoteOn(e: Event) {
+    const { channel, note, velocity } = (e as CustomEvent<NoteOn>).detail;
+    if (this.learnMode) {
+      this.note = note;
+      this.channel = channel;
+      this.learnMode = false;
+      this.dispatchPromptChange();
+    } else if (note === this.note && this.matchesChannel(channel)) {
+      // A hit switches the pad on at a weight following how hard it was struck.
+      const switchingOn = this.weight === 0;
+      this.noteOnTime = switchingOn ? performance.now() : null;
+      this.setWeight(switchingOn ? midiValueToWeight(velocity) : 0);
+    }
+  }
+
+  private handleNoteOff(e: Event) {
+    const { channel, note } = (e as CustomEvent<NoteOff>).detail;
+    if (note !== this.note || !this.matchesChannel(channel) || this.noteOnTime === null) return;
+    const heldFor = performance.now() - this.noteOnTime;
+    this.noteOnTime = null;
+    if (heldFor >= MOMENTARY_HOLD_MS) this.setWeight(0);
+  }
+
+  private matchesChannel(channel: number) {
+    return this.channel === null || this.channel === channel;
   }
 
   // FIX: Removed 'override' keyword.
@@ -127,6 +238,9 @@ export class LaunchpadButton extends LitElement {
     if (changedProperties.has('showCC') && !this.showCC) {
       this.learnMode = false;
     }
+    if (changedProperties.has('midiDispatcher') && this.isConnected) {
+      this.listenToMidi(this.midiDispatcher);
+    }
     super.update(changedProperties);
   }
 
@@ -139,17 +253,73 @@ export class LaunchpadButton extends LitElement {
           text: this.text,
           weight: this.weight,
           cc: this.cc,
+          ...(this.note !== null ? { note: this.note } : {}),
+          ...(this.channel !== null ? { channel: this.channel } : {}),
           color: this.color,
         },
       }),
     );
   }
 
-  private toggleWeight() {
-    this.weight = this.weight > 0 ? 0 : 1;
+  private setWeight(weight: number) {
+    this.weight = Math.max(0, Math.min(MAX_WEIGHT, weight));
     this.dispatchPromptChange();
   }
 
+  private toggleWeight() {
+    this.setWeight(this.weight > 0 ? 0 : 1);
+  }
+
+  private handleClick() {
+    if (this.editMode) {
+      // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+      (this as any).dispatchEvent(new CustomEvent<string>('edit-pad', { detail: this.promptId }));
+      return;
+    }
+    if (this.suppressClick) {
+      this.suppressClick = false;
+      return;
+    }
+    this.toggleWeight();
+  }
+
+  private handlePointerDown(e: PointerEvent) {
+    if (e.button !== 0 || this.editMode) return;
+    this.dragStartY = e.clientY;
+    this.dragStartWeight = this.weight;
+    this.isDragging = false;
+    // A drag that ended off the pad never got its click, so it left nothing to suppress.
+    this.suppressClick = false;
+    window.addEventListener('pointermove', this.handlePointerMove);
+    window.addEventListener('pointerup', this.handlePointerUp);
+    window.addEventListener('pointercancel', this.handlePointerUp);
+  }
+
+  private handlePointerMove(e: PointerEvent) {
+    const delta = this.dragStartY - e.clientY;
+    if (!this.isDragging && Math.abs(delta) < DRAG_THRESHOLD) return;
+    if (!this.isDragging) {
+      this.isDragging = true;
+      document.body.classList.add('dragging');
+    }
+    this.setWeight(this.dragStartWeight + delta / DRAG_PIXELS_PER_WEIGHT);
+  }
+
+  private handlePointerUp() {
+    window.removeEventListener('pointermove', this.handlePointerMove);
+    window.removeEventListener('pointerup', this.handlePointerUp);
+    window.removeEventListener('pointercancel', this.handlePointerUp);
+    if (this.isDragging) {
+      document.body.classList.remove('dragging');
+      this.suppressClick = true;
+    }
+    this.isDragging = false;
+  }
+
+  private handleKnobInput(e: CustomEvent<number>) {
+    this.setWeight(e.detail);
+  }
+
   private toggleLearnMode(e: Event) {
     e.stopPropagation();
     this.learnMode = !this.learnMode;
@@ -163,15 +333,29 @@ export class LaunchpadButton extends LitElement {
       'learn-mode': this.learnMode,
       'show-cc': this.showCC,
       'filtered': this.filtered,
+      'edit-mode': this.editMode,
     });
+    // Fill strength follows the first unit of weight, glow keeps growing to the max.
     const styles = styleMap({
         '--pad-color': this.color,
+        '--pad-intensity': String(this.weight > 0 ? 0.35 + 0.65 * Math.min(1, this.weight) : 0),
+        '--pad-glow': `${10 + 15 * this.weight}px`,
     });
+    const mapping = this.note !== null ? `N:${this.note}` : `CC:${this.cc}`;
     return html`
-      <div class=${classes} style=${styles} @click=${this.toggleWeight}>
+      <div class=${classes} style=${styles}
+        @click=${this.handleClick}
+        @pointerdown=${this.handlePointerDown}>
+        <weight-knob
+          .value=${this.weight}
+          .color=${this.color}
+          .audioLevel=${this.weight > 0 ? this.audioLevel : 0}
+          @input=${this.handleKnobInput}
+          @pointerdown=${(e: Event) => e.stopPropagation()}
+          @click=${(e: Event) => e.stopPropagation()}></weight-knob>
         <div id="text">${this.text}</div>
         <div id="midi" @click=${this.toggleLearnMode}>
-          ${this.learnMode ? 'Learn' : `CC:${this.cc}`}
+          ${this.learnMode ? 'Learn' : mapping}
         </div>
       </div>`;
   }
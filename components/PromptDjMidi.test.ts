@@ -0,0 +1,107 @@
+// @vitest-environment jsdom
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Prompt } from '../types';
+// Evaluated ahead of MidiMapper, which it imports back, as the browser's hoisting allows but the test runner's does not.
+import '../utils/MidiMappingDefaults';
+import type { Mixer } from '../utils/Mixer';
+import type { PerformanceFx } from '../utils/PerformanceFx';
+import { createProject } from '../utils/Project';
+import { ProjectStore } from '../utils/ProjectStore';
+import { SampleKitStore } from '../utils/SampleKitStore';
+import type { SessionRecorder } from '../utils/SessionRecorder';
+import { SynthKitStore } from '../utils/SynthKitStore';
+import { FakeAudioContext } from '../utils/testing/FakeAudioContext';
+import { Transport } from '../utils/Transport';
+import type { PadEditor } from './PadEditor';
+import type { LaunchpadButton } from './PromptController';
+import { MusicStudio } from './PromptDjMidi';
+
+const PROMPTS: Prompt[] = [
+  { promptId: 'prompt-0', text: 'Minimal techno', weight: 0, cc: 20, color: '#9900ff' },
+  { promptId: 'prompt-1', text: 'Bossa nova', weight: 0, cc: 21, color: '#5200ff' },
+];
+
+describe('MusicStudio', () => {
+  let studio: MusicStudio;
+  let sent: Map<string, Prompt>[];
+
+  beforeEach(async () => {
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    const transport = new Transport();
+    // Only the launchpad is under test, so the audio graph around it is left out.
+    const recorder = Object.assign(new EventTarget(), { takes: [], isRecording: false, recordStems: false, addSource() {} });
+    const mixer = { addChannel: (_: string, source: AudioNode) => source, setSettings() {}, output: () => null, getLevel: () => 0 };
+    const performanceFx = Object.assign(new EventTarget(), { filter: 0, stutterDivision: '1/8', isActive: () => false });
+    studio = new MusicStudio(
+      createProject(PROMPTS), transport, recorder as unknown as SessionRecorder, mixer as unknown as Mixer,
+      performanceFx as unknown as PerformanceFx, new ProjectStore(), new SampleKitStore(), new SynthKitStore());
+    sent = [];
+    studio.addEventListener('prompts-changed', (e) => sent.push((e as CustomEvent<Map<string, Prompt>>).detail));
+    document.body.appendChild(studio);
+    await studio.updateComplete;
+  });
+
+  afterEach(() => {
+    studio.remove();
+    localStorage.clear();
+    vi.unstubAllGlobals();
+  });
+
+  function query<T extends Element>(root: Element | ShadowRoot, selector: string) {
+    return [...root.querySelectorAll<T>(selector)];
+  }
+
+  function button(text: string) {
+    return query<HTMLButtonElement>(studio.shadowRoot!, 'button').find((b) => b.textContent?.trim() === text)!;
+  }
+
+  function pads() {
+    return query<LaunchpadButton>(studio.shadowRoot!, 'launchpad-button');
+  }
+
+  async function click(element: HTMLElement) {
+    element.click();
+    await studio.updateComplete;
+  }
+
+  async function deletePad(promptId: string) {
+    await click(button('Edit pads'));
+    const pad = pads().find((p) => p.promptId === promptId)!;
+    await click(pad.shadowRoot!.querySelector<HTMLElement>('.pad')!);
+    const editor = studio.shadowRoot!.querySelector<PadEditor>('pad-editor')!;
+    await editor.updateComplete;
+    await click(editor.shadowRoot!.querySelector<HTMLButtonElement>('button.danger')!);
+    await click(button('Done'));
+    return pad;
+  }
+
+  it('keeps a deleted pad deleted when its CC arrives after a view switch', async () => {
+    const dispatcher = pads()[0].midiDispatcher!;
+    await click(button('Beatmaker'));
+    await click(button('Launchpad'));
+    await deletePad('prompt-0');
+    expect(pads().map((p) => p.promptId)).toEqual(['prompt-1']);
+
+    sent = [];
+    dispatcher.dispatchEvent(new CustomEvent('cc-message', { detail: { channel: 0, cc: 20, value: 127 } }));
+    await studio.updateComplete;
+
+    expect(pads().map((p) => p.promptId)).toEqual(['prompt-1']);
+    expect(sent).toEqual([]);
+  });
+
+  it('ignores changes from a pad that has been deleted', async () => {
+    const pad = await deletePad('prompt-0');
+
+    sent = [];
+    pad.dispatchEvent(new CustomEvent<Prompt>('prompt-changed', { detail: { ...PROMPTS[0], weight: 1 } }));
+    await studio.updateComplete;
+
+    expect(pads().map((p) => p.promptId)).toEqual(['prompt-1']);
+    expect(sent).toEqual([]);
+  });
+});
@@ -3,8 +3,14 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
+import './MidiMappingPanel';
+import './MixerView';
+import './PadEditor';
 import './PlayPauseButton';
+import './ProjectBrowser';
 import './PromptController';
+import './SampleKitEditor';
+import './SynthKitEditor';
 import './WeightKnob';
 
 import { css, html, LitElement, svg, TemplateResult } from 'lit';
@@ -14,15 +20,67 @@ import { styleMap } from 'lit/directives/style-map.js';
 import { classMap } from 'lit/directives/class-map.js';
 
 
-import type { PlaybackState, Prompt } from '../types';
-import { MidiDispatcher } from '../utils/MidiDispatcher';
+import type {
+  ArrangementEntry, BufferStats, ChannelSettings, ConnectionStatus, DrumPattern, EffectSettings, GenerationSettings, Groove, Instrument, Meter, MixerChannel,
+  MixerSettings, MusicConfig, NoteOn, PlaybackState, Prompt, Step,
+} from '../types';
+import { ALL_MIDI_INPUTS, MidiDispatcher } from '../utils/MidiDispatcher';
+import { DEVICE_PROFILES } from '../utils/MidiDeviceProfiles';
+import { MidiClock, type ClockMode } from '../utils/MidiClock';
+import { MidiFeedback } from '../utils/MidiFeedback';
+import { LearnableControlRegistry, type ControlScaling } from '../utils/LearnableControls';
+import { describeControl, MidiMapper, stepTarget, type MidiControl } from '../utils/MidiMapper';
 import { DrumMachine } from '../utils/AudioAnalyser';
-
-const KEYS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
-const SCALES = ['Major', 'Minor', 'Dorian', 'Phrygian', 'Lydian', 'Mixolydian', 'Locrian'];
-type Instrument = 'kick' | 'snare' | 'hat' | 'clap' | 'tom' | 'cymbal';
-const ALL_INSTRUMENTS: Instrument[] = ['kick', 'snare', 'hat', 'clap', 'tom', 'cymbal'];
-const KITS = ['Electronic', '808', 'Acoustic', 'Rock', 'Jazz', 'Funk', 'Brush', 'Studio'];
+import { EFFECT_DEFINITIONS } from '../utils/Effects';
+import {
+  allEffectTargets, createMixerSettings, describeEffectTarget, type EffectTarget, getEffects, type Mixer, setEffects,
+} from '../utils/Mixer';
+import {
+  describeFilter, PERFORMANCE_EFFECTS, type PerformanceEffect, type PerformanceFx, STUTTER_DIVISIONS,
+} from '../utils/PerformanceFx';
+import type { Transport } from '../utils/Transport';
+import {
+  ALL_INSTRUMENTS, createGenerationSettings, GM_DRUM_CHANNEL, GM_DRUM_NOTES, KEYS, MAX_GUIDANCE, MAX_SEED, MAX_TEMPERATURE, SCALES,
+} from '../utils/music';
+import {
+  createDrumPattern, createGroove, createMeter, createPattern, createStep, describeResolution, hasActiveSteps,
+  MAX_BEATS_PER_BAR, MAX_NUDGE, MAX_RATCHET, MAX_REPEATS, MAX_SWING, MAX_TRACK_LENGTH, MIN_VELOCITY, nextProbability,
+  PATTERN_SLOTS, resizePattern, STEPS_PER_BEAT_OPTIONS, STRAIGHT_SWING,
+} from '../utils/Pattern';
+import {
+  createProjectId, exportProjectFile, importProjectFile, type KitSize, PROJECT_VERSION, type ProjectData, type ProjectSummary,
+  SEQUENCER_LENGTHS, type SequencerLength,
+} from '../utils/Project';
+import type { ProjectStore } from '../utils/ProjectStore';
+import { createSampleKitId, decodeSample, type Sample, type SampleKit, type SampleVoice } from '../utils/SampleKit';
+import type { SampleKitStore } from '../utils/SampleKitStore';
+import type { ExportFormat, SessionRecorder, Take } from '../utils/SessionRecorder';
+import { createSynthKitId, SYNTH_PRESETS, type SynthKit, SynthVoice, type VoiceParams } from '../utils/SynthKit';
+import type { SynthKitStore } from '../utils/SynthKitStore';
+import { PAD_COLORS, type PadEdit } from './PadEditor';
+
+/** State that is written to the autosave whenever it changes. */
+const PERSISTED_STATE = new Set([
+  'prompts', 'key', 'scale', 'launchpadTempo', 'beatmakerTempo', 'tempoLinked', 'beatmakerVolume',
+  'sequencerLength', 'selectedKit', 'kitSize', 'patternBank', 'selectedPattern', 'arrangement', 'songMode', 'groove',
+  'meter', 'mixerSettings', 'generation', 'projectName',
+]);
+const AUTOSAVE_DELAY = 500;
+/** Pixels a step must be dragged before it edits velocity instead of toggling. */
+const STEP_DRAG_THRESHOLD = 4;
+/** Pixels of drag that sweep a step's velocity from silent to full. */
+const STEP_DRAG_RANGE = 120;
+
+const KITS = Object.keys(SYNTH_PRESETS);
+
+type StudioView = 'launchpad' | 'beatmaker' | 'mixer';
+
+const CONNECTION_LABELS: { [status in ConnectionStatus]: string } = {
+  disconnected: 'Offline',
+  connecting: 'Connecting…',
+  connected: 'Live',
+  reconnecting: 'Reconnecting…',
+};
 
 
 const KIT_COLORS: { [key in (typeof KITS)[number]]: { [key in Instrument]: string } } = {
@@ -175,6 +233,31 @@ export class MusicStudio extends LitElement {
         opacity: 0.7;
     }
 
+    .record-btn.recording {
+        background: rgba(255, 59, 59, 0.35);
+        border-color: rgba(255, 59, 59, 0.8);
+        animation: pulse-red 1s infinite alternate;
+    }
+
+    @keyframes pulse-red {
+        from { box-shadow: 0 0 4px rgba(255, 59, 59, 0.4); }
+        to { box-shadow: 0 0 14px rgba(255, 59, 59, 0.9); }
+    }
+
+    .project-btn {
+        padding: 8px 14px;
+        font-size: 0.9em;
+        max-width: 180px;
+        overflow: hidden;
+        text-overflow: ellipsis;
+        white-space: nowrap;
+    }
+
+    .takes-btn {
+        padding: 8px 14px;
+        font-size: 0.9em;
+    }
+
     .spinner {
         animation: spin 1s linear infinite;
         transform-origin: center;
@@ -195,7 +278,44 @@ export class MusicStudio extends LitElement {
       box-sizing: border-box;
     }
 
-    #launchpad-controls {
+    .connection-status {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      font-size: 0.8em;
+      white-space: nowrap;
+      color: rgba(255, 255, 255, 0.7);
+    }
+    .connection-status::before {
+      content: '';
+      width: 8px;
+      height: 8px;
+      border-radius: 50%;
+      background: rgba(255, 255, 255, 0.3);
+    }
+    .connection-status.connected::before {
+      background: #3dffab;
+      box-shadow: 0 0 6px #3dffab;
+    }
+    .connection-status.connecting::before, .connection-status.reconnecting::before {
+      background: #ffdd28;
+      animation: blink 1s infinite;
+    }
+    @keyframes blink {
+      50% { opacity: 0.3; }
+    }
+
+    .buffer-health {
+      font-size: 0.75em;
+      white-space: nowrap;
+      color: rgba(255, 255, 255, 0.5);
+      font-variant-numeric: tabular-nums;
+    }
+    .buffer-health.low {
+      color: #ffdd28;
+    }
+
+    #launchpad-controls, #generation-controls, #performance-fx {
       display: flex;
       align-items: center;
       padding: 15px 25px;
@@ -215,6 +335,14 @@ export class MusicStudio extends LitElement {
       box-shadow: 0 8px 32px 0 rgba(0, 0, 0, 0.3);
     }
 
+    #generation-controls, #performance-fx {
+      margin-top: 15px;
+    }
+
+    #seed {
+      width: 110px;
+    }
+
     .control-group {
       display: flex;
       align-items: center;
@@ -226,7 +354,7 @@ export class MusicStudio extends LitElement {
       font-weight: 500;
     }
 
-    .control-group select, .control-group input[type="range"] {
+    .control-group select, .control-group input[type="range"], .control-group input[type="number"] {
       background: rgba(0, 0, 0, 0.3);
       color: white;
       border: 1px solid rgba(255, 255, 255, 0.2);
@@ -338,6 +466,48 @@ export class MusicStudio extends LitElement {
       max-width: 900px;
     }
 
+    .add-pad {
+      aspect-ratio: 1;
+      border-radius: 12px;
+      border: 2px dashed rgba(255, 255, 255, 0.3);
+      background: rgba(0, 0, 0, 0.15);
+      color: rgba(255, 255, 255, 0.7);
+      font-size: 2em;
+      cursor: pointer;
+      transition: background-color 0.2s, border-color 0.2s;
+    }
+    .add-pad:hover {
+      background: rgba(255, 255, 255, 0.1);
+      border-color: rgba(255, 255, 255, 0.6);
+    }
+
+    .learn-badge {
+      background: rgba(0, 0, 0, 0.3);
+      color: rgba(255, 255, 255, 0.6);
+      border: 1px dashed rgba(255, 255, 255, 0.3);
+      border-radius: 6px;
+      padding: 2px 6px;
+      font-family: monospace;
+      font-size: 0.75em;
+      cursor: pointer;
+      white-space: nowrap;
+    }
+    .learn-badge.mapped {
+      color: #2af6de;
+      border-style: solid;
+      border-color: rgba(42, 246, 222, 0.5);
+    }
+    .learn-badge.learning {
+      background: #ffdd28;
+      color: #0D0B12;
+      border-color: #ffdd28;
+    }
+
+    .action-button.active {
+      background: white;
+      color: #0D0B12;
+    }
+
     #beatmaker {
       width: 100%;
       max-width: 900px;
@@ -438,6 +608,16 @@ export class MusicStudio extends LitElement {
         background: rgba(255, 255, 255, 0.2);
     }
 
+    .tempo-link {
+      display: flex;
+      align-items: center;
+      gap: 6px;
+      font-size: 0.85em;
+      color: rgba(255, 255, 255, 0.8);
+      cursor: pointer;
+      user-select: none;
+    }
+
     .beatmaker-volume-control {
       display: grid;
       grid-template-columns: 80px 1fr;
@@ -460,6 +640,95 @@ export class MusicStudio extends LitElement {
     .beatmaker-volume-control .slider-wrapper input[type="range"] {
       flex-grow: 1;
     }
+
+    .pattern-bank {
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+      width: 100%;
+    }
+
+    .pattern-bank .control-group {
+      flex-wrap: wrap;
+    }
+
+    .pattern-slots, .arrangement {
+      display: flex;
+      flex-wrap: wrap;
+      gap: 6px;
+    }
+
+    .pattern-slot {
+      width: 34px;
+      height: 34px;
+      border-radius: 8px;
+      background: rgba(0, 0, 0, 0.3);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      color: rgba(255, 255, 255, 0.6);
+      font-weight: 600;
+      cursor: pointer;
+    }
+
+    .pattern-slot.filled {
+      color: #fff;
+    }
+
+    .pattern-slot.selected {
+      background: #9900ff;
+      border-color: #9900ff;
+    }
+
+    .pattern-slot.playing {
+      box-shadow: 0 0 0 2px #2af6de;
+    }
+
+    .pattern-slot.queued {
+      animation: pulse-yellow 0.7s infinite alternate;
+      border-color: #ffdd28;
+    }
+
+    .arrangement-entry {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+      padding: 4px 6px 4px 10px;
+      border-radius: 8px;
+      background: rgba(0, 0, 0, 0.3);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      font-weight: 600;
+    }
+
+    .arrangement-entry.current {
+      border-color: #2af6de;
+    }
+
+    .arrangement-entry select, .arrangement-entry button {
+      background: transparent;
+      color: white;
+      border: none;
+      font-family: inherit;
+      cursor: pointer;
+    }
+
+    .arrangement-entry select option {
+      color: black;
+    }
+
+    .beatmaker-groove-control {
+      flex-wrap: wrap;
+      width: 100%;
+    }
+
+    .beatmaker-groove-control .slider-wrapper {
+      display: flex;
+      align-items: center;
+      gap: 12px;
+      flex-grow: 1;
+    }
+
+    .beatmaker-groove-control .slider-wrapper input[type="range"] {
+      flex-grow: 1;
+    }
     
     .length-selector {
         display: flex;
@@ -524,6 +793,7 @@ export class MusicStudio extends LitElement {
 
     .instrument-label {
       display: flex;
+      flex-direction: column;
       align-items: center;
       justify-content: center;
       font-weight: 600;
@@ -536,6 +806,35 @@ export class MusicStudio extends LitElement {
       transition: background-color 0.3s;
     }
 
+    .instrument-name {
+      display: flex;
+      align-items: center;
+      gap: 4px;
+    }
+
+    .instrument-label .track-length {
+      width: 30px;
+      padding: 1px 2px;
+      background: rgba(0, 0, 0, 0.3);
+      color: white;
+      border: 1px solid rgba(255, 255, 255, 0.3);
+      border-radius: 4px;
+      font-family: inherit;
+      font-size: 0.8em;
+      -moz-appearance: textfield;
+    }
+
+    .instrument-label .track-length::-webkit-inner-spin-button {
+      -webkit-appearance: none;
+    }
+
+    .instrument-label .nudge {
+      width: 56px;
+      height: 4px;
+      margin: 4px 0 0;
+      accent-color: #fff;
+    }
+
     .step {
       aspect-ratio: 1;
       border-radius: 6px;
@@ -545,6 +844,7 @@ export class MusicStudio extends LitElement {
       transition: all 0.15s ease-out;
       position: relative;
       min-width: 40px;
+      touch-action: none;
     }
 
     .beat-group-alt {
@@ -557,6 +857,42 @@ export class MusicStudio extends LitElement {
       box-shadow: 0 0 15px -2px var(--instrument-color);
     }
 
+    /* Shades the part of an active step above its velocity. */
+    .step.active::before {
+      content: '';
+      position: absolute;
+      top: 0;
+      left: 0;
+      right: 0;
+      height: calc((1 - var(--velocity, 1)) * 100%);
+      background-color: rgba(0, 0, 0, 0.45);
+      border-radius: 5px 5px 0 0;
+      pointer-events: none;
+    }
+
+    .step.active.accent {
+      border-color: #fff;
+      box-shadow: 0 0 18px 0 var(--instrument-color);
+    }
+
+    .step.active.chance {
+      border-style: dashed;
+      border-color: #fff;
+    }
+
+    .step-badge {
+      position: absolute;
+      inset: 0;
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      font-size: 0.75em;
+      font-weight: 700;
+      color: #fff;
+      text-shadow: 0 1px 3px rgba(0, 0, 0, 0.8);
+      pointer-events: none;
+    }
+
     .step.current::after {
         content: '';
         position: absolute;
@@ -722,6 +1058,43 @@ export class MusicStudio extends LitElement {
       color: white;
       font-weight: 600;
     }
+    .take-list {
+      list-style: none;
+      padding: 0;
+      margin: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 10px;
+      max-height: 50vh;
+      overflow-y: auto;
+    }
+    .take-row {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+    }
+    .take-row.stem {
+      padding-left: 16px;
+      margin-top: 6px;
+      font-size: 0.9em;
+    }
+    .take-name {
+      flex-grow: 1;
+      font-weight: 600;
+      text-transform: capitalize;
+    }
+    .take-duration {
+      font-family: monospace;
+      color: rgba(255, 255, 255, 0.7);
+    }
+    .stems-toggle {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      margin-bottom: 15px;
+      font-size: 0.9em;
+      cursor: pointer;
+    }
     .modal-close-btn {
       margin-top: 20px;
       width: 100%;
@@ -732,7 +1105,7 @@ export class MusicStudio extends LitElement {
 
 
     @media (max-width: 768px) {
-        #launchpad-controls {
+        #launchpad-controls, #generation-controls, #performance-fx {
             flex-direction: column;
             align-items: stretch;
             gap: 20px;
@@ -766,192 +1139,1049 @@ export class MusicStudio extends LitElement {
   `;
 
   @property({ type: String }) playbackState: PlaybackState = 'stopped';
+  @property({ type: String }) connectionStatus: ConnectionStatus = 'disconnected';
+  /** Name of where the launchpad's music comes from. */
+  @property({ type: String }) musicBackend = '';
+  @property({ type: Object }) bufferStats: BufferStats | null = null;
   @property({ type: Number }) audioLevel = 0;
   
-  @state() private currentView: 'launchpad' | 'beatmaker' = 'launchpad';
-  @state() private prompts: Map<string, Prompt>;
+  @state() private currentView: StudioView = 'launchpad';
+  @state() private prompts = new Map<string, Prompt>();
   @state() private filteredPrompts = new Set<string>();
   @state() private showCC = false;
+  /** LED profile picked by the user, or 'auto' to detect it from the device name. */
+  @state() private ledProfile = 'auto';
+  @state() private midiInputIds: string[] = [];
+  @state() private activeMidiInputId: string | null = null;
+  @state() private isMidiMappingVisible = false;
+  @state() private clockMode: ClockMode = 'internal';
+  @state() private midiOutputIds: string[] = [];
+  @state() private clockOutputId: string | null = null;
+  @state() private padEditMode = false;
+  /** Id of the pad open in the editor, or 'new' while creating one. */
+  @state() private editingPadId: string | null = null;
+  /** User kits, sorted by name; their ids sit beside the built-in names in the kit select. */
+  @state() private sampleKits: SampleKit[] = [];
+  @state() private editingSampleKit: SampleKit | null = null;
+  @state() private synthKits: SynthKit[] = [];
+  @state() private editingSynthKit: SynthKit | null = null;
   @state() private launchpadTempo = 120;
   @state() private key = 'C';
   @state() private scale = 'Major';
+  @state() private tempoLinked = false;
   
   @state() private beatmakerIsPlaying = false;
   @state() private beatmakerTempo = 80;
   @state() private beatmakerVolume = 1;
   @state() private currentStep = -1;
-  @state() private sequencerLength: 4 | 8 | 16 = 8;
-  @state() private patterns: { [key in Instrument]: boolean[] } = {
-    kick: Array(8).fill(false),
-    snare: Array(8).fill(false),
-    hat: Array(8).fill(false),
-    clap: Array(8).fill(false),
-    tom: Array(8).fill(false),
-    cymbal: Array(8).fill(false),
-  };
-
-  @state() private kitSize: 'simple' | 'extended' = 'simple';
+  /** Length the step buttons last gave every track. */
+  @state() private sequencerLength: SequencerLength = 8;
+  @state() private meter: Meter = createMeter();
+  @state() private patternBank: DrumPattern[] = PATTERN_SLOTS.map(() => createDrumPattern(8));
+  /** Slot shown in the grid for editing. */
+  @state() private selectedPattern = 0;
+  @state() private playingPattern = 0;
+  /** Slot waiting for the next bar line to start playing. */
+  @state() private queuedPattern: number | null = null;
+  @state() private arrangement: ArrangementEntry[] = [];
+  @state() private songMode = false;
+  /** Arrangement entry playing in song mode, or -1. */
+  @state() private songPosition = -1;
+  private patternClipboard: DrumPattern | null = null;
+  @state() private groove: Groove = createGroove();
+  @state() private mixerSettings: MixerSettings = createMixerSettings();
+  @state() private generation: GenerationSettings = createGenerationSettings();
+  /** Learnable control ids of the current effects, so removed effects can be unregistered. */
+  private effectControlIds: string[] = [];
+
+  @state() private kitSize: KitSize = 'simple';
   @state() private selectedKit: (typeof KITS)[number] = 'Electronic';
+  @state() private isRecording = false;
+  @state() private takes: Take[] = [];
+  @state() private isTakeListVisible = false;
+  @state() private projectId = createProjectId();
+  @state() private projectName = 'Untitled Project';
+  @state() private savedProjects: ProjectSummary[] = [];
+  @state() private isProjectBrowserVisible = false;
   @state() private isHelpModalVisible = false;
   @state() private helpModalContent: { title: string, content: TemplateResult } | null = null;
 
   private midiDispatcher = new MidiDispatcher();
+  private midiFeedback = new MidiFeedback(this.midiDispatcher);
+  private learnableControls = new LearnableControlRegistry();
+  private midiMapper = new MidiMapper(this.midiDispatcher, this.learnableControls);
+  private transport: Transport;
+  private recorder: SessionRecorder;
+  private mixer: Mixer;
+  private performanceFx: PerformanceFx;
+  private projectStore: ProjectStore;
+  private sampleKitStore: SampleKitStore;
+  private synthKitStore: SynthKitStore;
   private drumMachine: DrumMachine;
-
-  constructor(initialPrompts: Map<string, Prompt>) {
+  private midiClock: MidiClock;
+  private autosaveTimeout?: number;
+  private draggedPromptId: string | null = null;
+  /** Step under the pointer, and whether it has been dragged to edit velocity. */
+  private stepDrag: { instrument: Instrument; stepIndex: number; startY: number; startVelocity: number; moved: boolean } | null = null;
+
+  constructor(
+    project: ProjectData,
+    transport: Transport,
+    recorder: SessionRecorder,
+    mixer: Mixer,
+    performanceFx: PerformanceFx,
+    projectStore: ProjectStore,
+    sampleKitStore: SampleKitStore,
+    synthKitStore: SynthKitStore,
+  ) {
     super();
-    this.prompts = new Map(initialPrompts);
-    this.drumMachine = new DrumMachine();
-    this.drumMachine.setTempo(this.beatmakerTempo);
-    this.drumMachine.setVolume(this.beatmakerVolume);
-    this.drumMachine.setLoopLength(this.sequencerLength);
+    this.transport = transport;
+    this.recorder = recorder;
+    this.mixer = mixer;
+    this.performanceFx = performanceFx;
+    this.projectStore = projectStore;
+    this.sampleKitStore = sampleKitStore;
+    this.synthKitStore = synthKitStore;
+    this.drumMachine = new DrumMachine(transport);
     for (const instrument of ALL_INSTRUMENTS) {
-        this.drumMachine.updatePattern(instrument, this.patterns[instrument]);
+        mixer.addChannel(instrument, this.drumMachine.trackOutput(instrument), this.drumMachine.output);
     }
+    this.midiClock = new MidiClock(this.midiDispatcher, this.drumMachine, transport.audioContext);
+    this.applyProject(project);
 
     this.drumMachine.addEventListener('step', (e: Event) => {
         this.currentStep = (e as CustomEvent<number>).detail;
     });
+    this.drumMachine.addEventListener('pattern-changed', (e: Event) => {
+        const { pattern, songPosition } = (e as CustomEvent<{ pattern: number; songPosition: number | null }>).detail;
+        // The grid follows the playing pattern.
+        this.playingPattern = pattern;
+        this.selectedPattern = pattern;
+        this.queuedPattern = null;
+        this.songPosition = songPosition ?? -1;
+    });
+
+    this.recorder.addSource('beatmaker', this.drumMachine.output);
+    this.recorder.addEventListener('recording-changed', (e: Event) => {
+        this.isRecording = (e as CustomEvent<boolean>).detail;
+    });
+    this.recorder.addEventListener('takes-changed', (e: Event) => {
+        this.takes = (e as CustomEvent<Take[]>).detail;
+    });
+
+    this.midiDispatcher.addEventListener('note-on', (e: Event) => {
+        const { channel, note, velocity } = (e as CustomEvent<NoteOn>).detail;
+        const instrument = GM_DRUM_NOTES[note];
+        // Notes a pad has learned belong to that pad.
+        if (channel !== GM_DRUM_CHANNEL || !instrument) return;
+        if ([...this.prompts.values()].some((p) => p.note === note)) return;
+        this.drumMachine.trigger(instrument, velocity / 127);
+    });
+
+    this.midiDispatcher.addEventListener('devices-changed', (e: Event) => {
+        this.midiInputIds = (e as CustomEvent<string[]>).detail;
+        this.midiOutputIds = this.midiDispatcher.getOutputIds();
+        this.activeMidiInputId = this.midiDispatcher.activeMidiInputId;
+        // Re-rendering also refreshes the channel filter shown for the device.
+        // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+        (this as any).requestUpdate();
+    });
+
+    this.registerLearnableControls();
+    this.loadSampleKits();
+    this.loadSynthKits();
+
+    this.midiClock.addEventListener('tempo-changed', (e: Event) => {
+        this.updateBeatmakerTempo((e as CustomEvent<number>).detail);
+    });
+    this.midiClock.addEventListener('running-changed', (e: Event) => {
+        this.beatmakerIsPlaying = (e as CustomEvent<boolean>).detail;
+        if (this.beatmakerIsPlaying) {
+            this.drumMachine.resumeContext();
+        } else {
+            this.currentStep = -1;
+        }
+    });
+    this.midiMapper.addEventListener('profile-changed', () => this.applyPadBindings());
+    this.midiMapper.addEventListener('mappings-changed', () => {
+        // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+        (this as any).requestUpdate();
+    });
+    this.performanceFx.addEventListener('changed', () => {
+        // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+        (this as any).requestUpdate();
+    });
 
-    this.midiDispatcher.getMidiAccess().catch(e => {
+    this.midiDispatcher.getMidiAccess().then(() => this.syncMidiFeedback()).catch(e => {
       // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
       (this as any).dispatchEvent(new CustomEvent('error', { detail: e.message }));
     });
+    // Leave the controller dark rather than frozen on the last state.
+    window.addEventListener('pagehide', () => this.midiFeedback.clear());
   }
   
-  addFilteredPrompt(text: string) {
-    this.filteredPrompts.add(text);
-    // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
-    (this as any).requestUpdate();
+  // FIX: Removed 'override' keyword.
+  firstUpdated() {
+    // Hand restored pad weights and settings to the music session once listeners are attached.
+    this.dispatchMusicConfigChanged();
+    if (this.hasActivePrompts()) this.dispatchPromptsChanged();
   }
 
-  private handlePromptChanged(e: CustomEvent<Prompt>) {
-    const newPrompt = e.detail;
-    this.prompts.set(newPrompt.promptId, newPrompt);
-    // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
-    (this as any).requestUpdate();
-    this.dispatchPromptsChanged();
+  // FIX: Removed 'override' keyword.
+  updated(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('beatmakerTempo')) {
+      this.midiClock.setTempo(this.beatmakerTempo);
+    }
+    if ([...changedProperties.keys()].some((key) => PERSISTED_STATE.has(key))) {
+      this.scheduleAutosave();
+    }
+    this.syncMidiFeedback();
   }
 
-  private dispatchPromptsChanged() {
-    // Append key, scale, and tempo to prompts before dispatching
-    const promptsWithContext = new Map<string, Prompt>();
-    for (const [id, prompt] of this.prompts.entries()) {
-      const newText = `${prompt.text} in ${this.key} ${this.scale} at ${this.launchpadTempo} BPM`;
-      promptsWithContext.set(id, {...prompt, text: newText});
+  /** Mirrors the pads and the beatmaker playhead on the controller's LEDs. */
+  private syncMidiFeedback() {
+    this.midiFeedback.profileOverride = this.ledProfile === 'auto' ? null : this.ledProfile;
+    this.midiFeedback.showPads(this.prompts.values(), (text) => this.isFilteredText(text));
+    this.midiFeedback.showStep(this.currentStep);
+  }
+
+  /** Replaces the whole studio state with a project. */
+  loadProject(project: ProjectData) {
+    this.applyProject(project);
+    this.applyPadBindings();
+    this.dispatchMusicConfigChanged();
+    if (this.hasActivePrompts() || this.playbackState === 'playing') {
+      this.dispatchPromptsChanged();
     }
-    // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
-    (this as any).dispatchEvent(new CustomEvent('prompts-changed', { detail: promptsWithContext }));
   }
 
-  private handlePlayPause() {
-    // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
-    (this as any).dispatchEvent(new CustomEvent('play-pause'));
+  /** Snapshots the studio state as a project. */
+  toProject(): ProjectData {
+    return {
+      version: PROJECT_VERSION,
+      id: this.projectId,
+      name: this.projectName,
+      updatedAt: Date.now(),
+      prompts: [...this.prompts.values()].map((p) => ({ ...p })),
+      key: this.key,
+      scale: this.scale,
+      launchpadTempo: this.launchpadTempo,
+      beatmakerTempo: this.beatmakerTempo,
+      tempoLinked: this.tempoLinked,
+      beatmakerVolume: this.beatmakerVolume,
+      sequencerLength: this.sequencerLength,
+      meter: { ...this.meter },
+      selectedKit: this.selectedKit,
+      kitSize: this.kitSize,
+      patternBank: this.patternBank.map((pattern) => ({ ...pattern })),
+      selectedPattern: this.selectedPattern,
+      arrangement: this.arrangement.map((entry) => ({ ...entry })),
+      songMode: this.songMode,
+      groove: { ...this.groove, nudge: { ...this.groove.nudge } },
+      mixer: structuredClone(this.mixerSettings),
+      generation: { ...this.generation },
+    };
   }
 
-  private updateMusicalContext() {
-    this.dispatchPromptsChanged();
+  private applyProject(project: ProjectData) {
+    this.projectId = project.id;
+    this.projectName = project.name;
+    this.prompts = new Map(project.prompts.map((p) => [p.promptId, { ...p }]));
+    this.filteredPrompts = new Set();
+    this.key = project.key;
+    this.scale = project.scale;
+    this.launchpadTempo = project.launchpadTempo;
+    this.beatmakerTempo = project.beatmakerTempo;
+    this.tempoLinked = project.tempoLinked;
+    this.beatmakerVolume = project.beatmakerVolume;
+    this.sequencerLength = project.sequencerLength;
+    this.meter = project.meter;
+    this.selectedKit = project.selectedKit;
+    this.kitSize = project.kitSize;
+    this.patternBank = project.patternBank.map((pattern) => ({ ...pattern }));
+    this.selectedPattern = project.selectedPattern;
+    this.playingPattern = project.selectedPattern;
+    this.queuedPattern = null;
+    this.arrangement = project.arrangement.map((entry) => ({ ...entry }));
+    this.songMode = project.songMode;
+    this.songPosition = -1;
+    this.groove = project.groove;
+    this.mixerSettings = project.mixer;
+    this.generation = { ...project.generation };
+
+    this.transport.setTempo(this.launchpadTempo);
+    this.transport.quantizeStart = this.tempoLinked;
+    this.drumMachine.setTempo(this.beatmakerTempo);
+    this.drumMachine.setVolume(this.beatmakerVolume);
+    this.drumMachine.setMeter(this.meter);
+    this.drumMachine.setKit(this.selectedKit);
+    this.drumMachine.setGroove(this.groove);
+    this.drumMachine.setPatternBank(this.patternBank);
+    this.drumMachine.selectPattern(this.selectedPattern);
+    this.drumMachine.setArrangement(this.arrangement);
+    this.drumMachine.setSongMode(this.songMode);
+    this.mixer.setSettings(this.mixerSettings);
+    this.registerEffectControls();
   }
 
-  private updateLaunchpadTempo(newTempo: number) {
-    this.launchpadTempo = Math.max(60, Math.min(180, newTempo));
-    this.updateMusicalContext();
+  /** The pattern being edited. */
+  private get patterns(): DrumPattern {
+    return this.patternBank[this.selectedPattern];
   }
 
-  private handleLaunchpadTempoChange(e: Event) {
-    const newTempo = parseInt((e.target as HTMLInputElement).value, 10);
-    this.updateLaunchpadTempo(newTempo);
+  private set patterns(pattern: DrumPattern) {
+    this.patternBank = this.patternBank.map((p, slot) => slot === this.selectedPattern ? pattern : p);
   }
 
-  private handleLaunchpadTempoIncrement() {
-    this.updateLaunchpadTempo(this.launchpadTempo + 1);
+  private hasActivePrompts() {
+    return [...this.prompts.values()].some((p) => p.weight > 0);
   }
 
-  private handleLaunchpadTempoDecrement() {
-    this.updateLaunchpadTempo(this.launchpadTempo - 1);
+  private scheduleAutosave() {
+    clearTimeout(this.autosaveTimeout);
+    this.autosaveTimeout = window.setTimeout(() => {
+      this.projectStore.saveAutosave(this.toProject());
+    }, AUTOSAVE_DELAY);
   }
-  
-  private updateBeatmakerTempo(newTempo: number) {
-    this.beatmakerTempo = Math.max(40, Math.min(180, newTempo));
-    this.drumMachine.setTempo(this.beatmakerTempo);
+
+  private dispatchError(message: string) {
+    // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+    (this as any).dispatchEvent(new CustomEvent('error', { detail: message }));
   }
 
-  private handleBeatmakerTempoChange(e: Event) {
-    const newTempo = parseInt((e.target as HTMLInputElement).value, 10);
-    this.updateBeatmakerTempo(newTempo);
+  private async openProjectBrowser() {
+    this.isProjectBrowserVisible = true;
+    await this.refreshSavedProjects();
   }
 
-  private handleBeatmakerTempoIncrement() {
-    this.updateBeatmakerTempo(this.beatmakerTempo + 1);
+  private async refreshSavedProjects() {
+    try {
+      this.savedProjects = await this.projectStore.list();
+    } catch (e: any) {
+      this.dispatchError(`Could not list projects: ${e.message}`);
+    }
   }
 
-  private handleBeatmakerTempoDecrement() {
-    this.updateBeatmakerTempo(this.beatmakerTempo - 1);
+  private async saveProject(name: string, asCopy: boolean) {
+    if (asCopy) this.projectId = createProjectId();
+    this.projectName = name.trim() || 'Untitled Project';
+    try {
+      await this.projectStore.save(this.toProject());
+      await this.refreshSavedProjects();
+    } catch (e: any) {
+      this.dispatchError(`Could not save project: ${e.message}`);
+    }
   }
 
-  private handleBeatmakerVolumeChange(e: Event) {
-    const newVolume = parseFloat((e.target as HTMLInputElement).value);
-    this.beatmakerVolume = newVolume;
-    this.drumMachine.setVolume(newVolume);
+  private async openProject(id: string) {
+    try {
+      this.loadProject(await this.projectStore.load(id));
+      this.isProjectBrowserVisible = false;
+    } catch (e: any) {
+      this.dispatchError(`Could not open project: ${e.message}`);
+    }
   }
 
-  private handleKeyChange(e: Event) {
-    this.key = (e.target as HTMLSelectElement).value;
-    this.updateMusicalContext();
+  private async deleteProject(id: string) {
+    try {
+      await this.projectStore.delete(id);
+      await this.refreshSavedProjects();
+    } catch (e: any) {
+      this.dispatchError(`Could not delete project: ${e.message}`);
+    }
   }
 
-  private handleScaleChange(e: Event) {
-    this.scale = (e.target as HTMLSelectElement).value;
-    this.updateMusicalContext();
+  private async importProject(file: File) {
+    try {
+      const project = await importProjectFile(file);
+      // Imports become new projects rather than overwriting a saved one.
+      this.loadProject({ ...project, id: createProjectId() });
+      this.isProjectBrowserVisible = false;
+    } catch (e: any) {
+      this.dispatchError(`Could not import project: ${e.message}`);
+    }
+  }
+
+  private exportProject() {
+    const url = URL.createObjectURL(exportProjectFile(this.toProject()));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${this.projectName}.lollipad.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  private newProject() {
+    this.isProjectBrowserVisible = false;
+    // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+    (this as any).dispatchEvent(new CustomEvent('new-project'));
+  }
+
+  addFilteredPrompt(text: string) {
+    this.filteredPrompts.add(text);
+    // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+    (this as any).requestUpdate();
+  }
+
+  private handlePromptChanged(e: CustomEvent<Prompt>) {
+    const newPrompt = e.detail;
+    // A pad removed since, by delete or project load, must not bring its prompt back.
+    if (!this.prompts.has(newPrompt.promptId)) return;
+    this.prompts.set(newPrompt.promptId, newPrompt);
+    // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+    (this as any).requestUpdate();
+    this.scheduleAutosave();
+    this.recordPadBindings();
+    this.dispatchPromptsChanged();
+  }
+
+  private dispatchPromptsChanged() {
+    // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+    (this as any).dispatchEvent(new CustomEvent('prompts-changed', { detail: new Map(this.prompts) }));
+  }
+
+  /** Tempo, key and scale travel with the generation settings rather than in the prompt text. */
+  private dispatchMusicConfigChanged() {
+    const config: MusicConfig = { ...this.generation, bpm: this.launchpadTempo, key: this.key, scale: this.scale };
+    // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+    (this as any).dispatchEvent(new CustomEvent<MusicConfig>('music-config-changed', { detail: config }));
+  }
+
+  /** Stores the pads' controls in the active device's mapping profile. */
+  private recordPadBindings() {
+    this.midiMapper.setPadBindings([...this.prompts.values()].map((prompt): MidiControl => ({
+      type: prompt.note !== undefined ? 'note' : 'cc',
+      channel: prompt.channel ?? null,
+      number: prompt.note ?? prompt.cc,
+    })));
+  }
+
+  /** Gives each pad the control the active device's profile has for its position. */
+  private applyPadBindings() {
+    const controls = this.midiMapper.getPadBindings();
+    if (controls.size === 0) return;
+    const prompts = [...this.prompts.values()].map((prompt, index): Prompt => {
+      const control = controls.get(index);
+      if (!control) return prompt;
+      const { note, channel, ...rest } = prompt;
+      return {
+        ...rest,
+        cc: control.type === 'cc' ? control.number : prompt.cc,
+        ...(control.type === 'note' ? { note: control.number } : {}),
+        ...(control.channel !== null ? { channel: control.channel } : {}),
+      };
+    });
+    this.prompts = new Map(prompts.map((p) => [p.promptId, p]));
+  }
+
+  /** Makes the studio's controls available for MIDI learn. */
+  private registerLearnableControls() {
+    const choice = (id: string, label: string, options: readonly string[], get: () => string, set: (value: string) => void) => ({
+      id, label, type: 'range' as const, min: 0, max: options.length - 1, step: 1, options,
+      get: () => options.indexOf(get()),
+      set: (index: number) => set(options[index]),
+    });
+    this.learnableControls.register(
+      {
+        id: 'tempo', label: 'Tempo', type: 'range', min: 60, max: 180, step: 1,
+        get: () => this.launchpadTempo,
+        set: (value) => this.updateLaunchpadTempo(value),
+      },
+      choice('key', 'Key', KEYS, () => this.key, (key) => {
+        this.key = key;
+        this.updateMusicalContext();
+      }),
+      choice('scale', 'Scale', SCALES, () => this.scale, (scale) => {
+        this.scale = scale;
+        this.updateMusicalContext();
+      }),
+      { id: 'play-pause', label: 'Play / Pause', type: 'trigger', fire: () => this.handlePlayPause() },
+      { id: 'beatmaker-play-pause', label: 'Beatmaker Play / Pause', type: 'trigger', fire: () => this.toggleBeatmakerPlayback() },
+      { id: 'record', label: 'Record', type: 'trigger', fire: () => this.toggleRecording() },
+      {
+        id: 'beatmaker-tempo', label: 'Beatmaker Tempo', type: 'range', min: 40, max: 180, step: 1,
+        get: () => this.beatmakerTempo,
+        set: (value) => this.updateBeatmakerTempo(value),
+      },
+      {
+        id: 'beatmaker-volume', label: 'Beatmaker Volume', type: 'range', min: 0, max: 1, step: 0.01,
+        get: () => this.beatmakerVolume,
+        set: (value) => {
+          this.beatmakerVolume = value;
+          this.drumMachine.setVolume(value);
+        },
+      },
+      {
+        id: 'swing', label: 'Swing', type: 'range', min: STRAIGHT_SWING, max: MAX_SWING, step: 1,
+        get: () => this.groove.swing,
+        set: (swing) => this.updateGroove({ swing }),
+      },
+      {
+        id: 'humanize', label: 'Humanize', type: 'range', min: 0, max: 100, step: 1,
+        get: () => this.groove.humanize,
+        set: (humanize) => this.updateGroove({ humanize }),
+      },
+      {
+        id: 'density', label: 'Density', type: 'range', min: 0, max: 1, step: 0.01,
+        get: () => this.generation.density ?? 0.5,
+        set: (density) => this.updateGeneration({ density }),
+      },
+      {
+        id: 'brightness', label: 'Brightness', type: 'range', min: 0, max: 1, step: 0.01,
+        get: () => this.generation.brightness ?? 0.5,
+        set: (brightness) => this.updateGeneration({ brightness }),
+      },
+      {
+        id: 'guidance', label: 'Guidance', type: 'range', min: 0, max: MAX_GUIDANCE, step: 0.1,
+        get: () => this.generation.guidance,
+        set: (guidance) => this.updateGeneration({ guidance }),
+      },
+      {
+        id: 'temperature', label: 'Temperature', type: 'range', min: 0, max: MAX_TEMPERATURE, step: 0.1,
+        get: () => this.generation.temperature,
+        set: (temperature) => this.updateGeneration({ temperature }),
+      },
+      {
+        id: 'dj-filter', label: 'DJ Filter', type: 'range', min: -1, max: 1, step: 0.01,
+        get: () => this.performanceFx.filter,
+        set: (value) => this.performanceFx.setFilter(value),
+      },
+      choice('stutter-length', 'Stutter Length', Object.keys(STUTTER_DIVISIONS),
+        () => this.performanceFx.stutterDivision,
+        (division) => this.performanceFx.setStutterDivision(division)),
+      ...Object.entries(PERFORMANCE_EFFECTS).map(([effect, label]) => ({
+        id: `fx-${effect}`, label, type: 'trigger' as const,
+        fire: () => this.performanceFx.press(effect as PerformanceEffect),
+        release: () => this.performanceFx.release(effect as PerformanceEffect),
+      })),
+    );
+    this.registerKitControl();
+    PATTERN_SLOTS.forEach((name, slot) => this.learnableControls.register({
+      id: `pattern-${name}`, label: `Pattern ${name}`, type: 'trigger',
+      fire: () => this.handlePatternSlotClick(slot),
+    }));
+    for (const instrument of ALL_INSTRUMENTS) {
+      for (let step = 0; step < MAX_TRACK_LENGTH; step++) {
+        this.learnableControls.register({
+          id: stepTarget(instrument, step),
+          label: `${instrument[0].toUpperCase()}${instrument.slice(1)} step ${step + 1}`,
+          type: 'trigger',
+          fire: () => {
+            if (step < this.patterns[instrument].length) this.toggleStep(instrument, step);
+          },
+        });
+      }
+    }
+  }
+
+  private renderStepMapping(instrument: Instrument, step: number) {
+    if (!this.showCC) return '';
+    const binding = this.midiMapper.bindingFor(stepTarget(instrument, step));
+    return binding ? `MIDI: ${describeControl(binding.control)}` : 'Right-click to learn a MIDI control';
+  }
+
+  /** With "MIDI CC" on, right-clicking a step learns a control for it. */
+  private handleStepContextMenu(e: Event, instrument: Instrument, step: number) {
+    if (!this.showCC) return;
+    e.preventDefault();
+    this.toggleLearn(stepTarget(instrument, step));
+  }
+
+  /** Arms MIDI learn for a control, or cancels it when it is already listening. */
+  private toggleLearn(id: string) {
+    this.midiMapper.learn(this.midiMapper.learning === id ? null : id);
+  }
+
+  /** Shows a control's mapping while "MIDI CC" is on; click to learn, right-click to clear. */
+  private renderLearnBadge(id: string) {
+    if (!this.showCC) return '';
+    const binding = this.midiMapper.bindingFor(id);
+    const isLearning = this.midiMapper.learning === id;
+    return html`
+        <button
+            class="learn-badge ${classMap({ learning: isLearning, mapped: !!binding })}"
+            title=${`MIDI learn: ${this.midiMapper.describeTarget(id)}`}
+            @click=${() => this.toggleLearn(id)}
+            @contextmenu=${(e: Event) => {
+                e.preventDefault();
+                this.midiMapper.unbind(id);
+            }}>
+            ${isLearning ? 'Learn…' : binding ? describeControl(binding.control) : 'Learn'}
+        </button>`;
+  }
+
+  private exportMidiMappings() {
+    const url = URL.createObjectURL(this.midiMapper.exportProfile());
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `${this.midiMapper.deviceName.replace(/[^\w-]+/g, '_')}.midimap.json`;
+    link.click();
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  }
+
+  private async importMidiMappings(e: CustomEvent<File>) {
+    try {
+      await this.midiMapper.importProfile(e.detail);
+    } catch (err) {
+      this.dispatchError((err as Error).message);
+    }
+  }
+
+  private renderMidiMappingPanel() {
+    if (!this.isMidiMappingVisible) return '';
+    return html`
+        <midi-mapping-panel
+            .deviceName=${this.midiMapper.deviceName}
+            .bindings=${this.midiMapper.bindings}
+            .controls=${this.learnableControls.all}
+            .learning=${this.midiMapper.learning}
+            .stepCount=${this.longestTrack()}
+            @mapping-learn=${(e: CustomEvent<string | null>) => this.midiMapper.learn(e.detail)}
+            @mapping-unbind=${(e: CustomEvent<string>) => this.midiMapper.unbind(e.detail)}
+            @mapping-scaling=${(e: CustomEvent<{ target: string, scaling: ControlScaling }>) => this.midiMapper.setScaling(e.detail.target, e.detail.scaling)}
+            @mapping-export=${this.exportMidiMappings}
+            @mapping-import=${this.importMidiMappings}
+            @mapping-reset=${() => this.midiMapper.resetToDefaults()}
+            @close=${() => { this.midiMapper.learn(null); this.isMidiMappingVisible = false; }}
+        ></midi-mapping-panel>`;
+  }
+
+  /** Prompts go out as the pad text alone, so filtered prompts match pads exactly, as in LiveMusicHelper. */
+  private isFilteredText(text: string) {
+    return this.filteredPrompts.has(text);
+  }
+
+  private handleEditPad(e: CustomEvent<string>) {
+    this.editingPadId = e.detail;
+  }
+
+  private handlePadSave(e: CustomEvent<PadEdit>) {
+    const { text, color } = e.detail;
+    if (this.editingPadId === 'new') {
+      const usedCCs = new Set([...this.prompts.values()].map((p) => p.cc));
+      let cc = 0;
+      while (usedCCs.has(cc) && cc < 127) cc++;
+      const promptId = `prompt-${Date.now().toString(36)}`;
+      this.prompts = new Map([...this.prompts, [promptId, { promptId, text, color, weight: 0, cc }]]);
+      this.recordPadBindings();
+    } else if (this.editingPadId) {
+      const prompt = this.prompts.get(this.editingPadId);
+      if (!prompt) return;
+      const updated = new Map(this.prompts);
+      updated.set(prompt.promptId, { ...prompt, text, color });
+      this.prompts = updated;
+      if (prompt.weight > 0 && prompt.text !== text) this.dispatchPromptsChanged();
+    }
+    this.editingPadId = null;
+  }
+
+  private handlePadDelete() {
+    const prompt = this.editingPadId ? this.prompts.get(this.editingPadId) : undefined;
+    this.editingPadId = null;
+    if (!prompt) return;
+    const updated = new Map(this.prompts);
+    updated.delete(prompt.promptId);
+    this.prompts = updated;
+    this.recordPadBindings();
+    if (prompt.weight > 0) this.dispatchPromptsChanged();
+  }
+
+  private handlePadMove(e: CustomEvent<number>) {
+    if (!this.editingPadId) return;
+    const ids = [...this.prompts.keys()];
+    const from = ids.indexOf(this.editingPadId);
+    this.movePad(this.editingPadId, from + e.detail);
+  }
+
+  /** Moves a pad so that it ends up at `toIndex` in the grid. */
+  private movePad(promptId: string, toIndex: number) {
+    const entries = [...this.prompts.entries()];
+    const from = entries.findIndex(([id]) => id === promptId);
+    if (from === -1 || toIndex < 0 || toIndex >= entries.length || toIndex === from) return;
+    const [entry] = entries.splice(from, 1);
+    entries.splice(toIndex, 0, entry);
+    this.prompts = new Map(entries);
+    this.recordPadBindings();
+  }
+
+  private handlePadDrop(e: DragEvent, targetId: string) {
+    e.preventDefault();
+    if (!this.draggedPromptId || this.draggedPromptId === targetId) return;
+    const toIndex = [...this.prompts.keys()].indexOf(targetId);
+    this.movePad(this.draggedPromptId, toIndex);
+    this.draggedPromptId = null;
+  }
+
+  private handleMidiChannelChange(e: Event) {
+    if (!this.activeMidiInputId || this.activeMidiInputId === ALL_MIDI_INPUTS) return;
+    const value = (e.target as HTMLSelectElement).value;
+    this.midiDispatcher.setChannelFilter(this.activeMidiInputId, value === 'omni' ? null : Number(value));
+  }
+
+  private renderMidiDevicePicker() {
+    if (this.midiInputIds.length === 0) {
+      return html`<select id="midi-input" disabled><option>No MIDI devices</option></select>`;
+    }
+    const deviceId = this.activeMidiInputId !== ALL_MIDI_INPUTS ? this.activeMidiInputId : null;
+    const channel = deviceId ? this.midiDispatcher.getChannelFilter(deviceId) : null;
+    return html`
+        <select id="midi-input" aria-label="MIDI input" @change=${(e: Event) => this.midiDispatcher.selectInput((e.target as HTMLSelectElement).value)}>
+            <option .value=${ALL_MIDI_INPUTS} ?selected=${this.activeMidiInputId === ALL_MIDI_INPUTS}>All inputs</option>
+            ${this.midiInputIds.map((id) => html`
+                <option .value=${id} ?selected=${id === this.activeMidiInputId}>${this.midiDispatcher.getDeviceName(id) ?? id}</option>
+            `)}
+        </select>
+        ${deviceId ? html`
+            <select id="midi-channel" aria-label="MIDI channel" @change=${this.handleMidiChannelChange}>
+                <option value="omni" ?selected=${channel === null}>All ch.</option>
+                ${Array.from({ length: 16 }, (_, i) => html`<option .value=${String(i)} ?selected=${channel === i}>Ch. ${i + 1}</option>`)}
+            </select>
+        ` : ''}
+    `;
+  }
+
+  private handlePlayPause() {
+    // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+    (this as any).dispatchEvent(new CustomEvent('play-pause'));
+  }
+
+  private updateMusicalContext() {
+    this.dispatchMusicConfigChanged();
+  }
+
+  private updateGeneration(changes: Partial<GenerationSettings>) {
+    this.generation = { ...this.generation, ...changes };
+    this.dispatchMusicConfigChanged();
+  }
+
+  private updateLaunchpadTempo(newTempo: number) {
+    this.launchpadTempo = Math.max(60, Math.min(180, newTempo));
+    this.transport.setTempo(this.launchpadTempo);
+    if (this.tempoLinked) {
+      this.beatmakerTempo = this.launchpadTempo;
+      this.drumMachine.setTempo(this.beatmakerTempo);
+    }
+    this.updateMusicalContext();
+  }
+
+  private handleLaunchpadTempoChange(e: Event) {
+    const newTempo = parseInt((e.target as HTMLInputElement).value, 10);
+    this.updateLaunchpadTempo(newTempo);
+  }
+
+  private handleLaunchpadTempoIncrement() {
+    this.updateLaunchpadTempo(this.launchpadTempo + 1);
+  }
+
+  private handleLaunchpadTempoDecrement() {
+    this.updateLaunchpadTempo(this.launchpadTempo - 1);
+  }
+  
+  private updateBeatmakerTempo(newTempo: number) {
+    if (this.tempoLinked) {
+      this.updateLaunchpadTempo(newTempo);
+      return;
+    }
+    this.beatmakerTempo = Math.max(40, Math.min(180, newTempo));
+    this.drumMachine.setTempo(this.beatmakerTempo);
+  }
+
+  private handleBeatmakerTempoChange(e: Event) {
+    const newTempo = parseInt((e.target as HTMLInputElement).value, 10);
+    this.updateBeatmakerTempo(newTempo);
+  }
+
+  private handleBeatmakerTempoIncrement() {
+    this.updateBeatmakerTempo(this.beatmakerTempo + 1);
+  }
+
+  private handleBeatmakerTempoDecrement() {
+    this.updateBeatmakerTempo(this.beatmakerTempo - 1);
+  }
+
+  private handleTempoLinkChange(e: Event) {
+    this.tempoLinked = (e.target as HTMLInputElement).checked;
+    // Linked players share one BPM and start on the next bar of each other.
+    this.transport.quantizeStart = this.tempoLinked;
+    if (this.tempoLinked) {
+      this.updateBeatmakerTempo(this.beatmakerTempo);
+    }
+  }
+
+  private handleBeatmakerVolumeChange(e: Event) {
+    const newVolume = parseFloat((e.target as HTMLInputElement).value);
+    this.beatmakerVolume = newVolume;
+    this.drumMachine.setVolume(newVolume);
+  }
+
+  private updateGroove(changes: Partial<Groove>) {
+    this.groove = { ...this.groove, ...changes };
+    this.drumMachine.setGroove(this.groove);
+  }
+
+  private handleNudgeChange(instrument: Instrument, value: number) {
+    this.updateGroove({ nudge: { ...this.groove.nudge, [instrument]: value } });
+  }
+
+  private handleKeyChange(e: Event) {
+    this.key = (e.target as HTMLSelectElement).value;
+    this.updateMusicalContext();
+  }
+
+  private handleScaleChange(e: Event) {
+    this.scale = (e.target as HTMLSelectElement).value;
+    this.updateMusicalContext();
   }
 
   private toggleStep(instrument: Instrument, stepIndex: number) {
+    this.updateStep(instrument, stepIndex, { active: !this.patterns[instrument][stepIndex].active });
+  }
+
+  private updateStep(instrument: Instrument, stepIndex: number, changes: Partial<Step>) {
     const newPattern = [...this.patterns[instrument]];
-    newPattern[stepIndex] = !newPattern[stepIndex];
+    newPattern[stepIndex] = { ...newPattern[stepIndex], ...changes };
     this.patterns = {
       ...this.patterns,
       [instrument]: newPattern
     };
-    this.drumMachine.updatePattern(instrument, newPattern);
+    this.drumMachine.updatePattern(this.selectedPattern, instrument, newPattern);
+  }
+
+  private handleStepPointerDown(e: PointerEvent, instrument: Instrument, stepIndex: number) {
+    if (e.button !== 0) return;
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+    this.stepDrag = {
+        instrument,
+        stepIndex,
+        startY: e.clientY,
+        startVelocity: this.patterns[instrument][stepIndex].velocity,
+        moved: false,
+    };
+  }
+
+  /** Dragging an active step up or down sets its velocity. */
+  private handleStepPointerMove(e: PointerEvent) {
+    const drag = this.stepDrag;
+    if (!drag || !this.patterns[drag.instrument][drag.stepIndex].active) return;
+    const distance = drag.startY - e.clientY;
+    if (!drag.moved && Math.abs(distance) < STEP_DRAG_THRESHOLD) return;
+    drag.moved = true;
+    const velocity = Math.max(MIN_VELOCITY, Math.min(1, drag.startVelocity + distance / STEP_DRAG_RANGE));
+    this.updateStep(drag.instrument, drag.stepIndex, { velocity });
+  }
+
+  /**
+   * A plain click toggles a step. Shift-click cycles its probability,
+   * Alt-click its ratchet count and Ctrl/Cmd-click toggles its accent.
+   */
+  private handleStepPointerUp(e: PointerEvent) {
+    const drag = this.stepDrag;
+    this.stepDrag = null;
+    if (!drag || drag.moved) return;
+    const { instrument, stepIndex } = drag;
+    const step = this.patterns[instrument][stepIndex];
+    if (e.shiftKey) {
+        this.updateStep(instrument, stepIndex, { active: true, probability: nextProbability(step.probability) });
+    } else if (e.altKey) {
+        this.updateStep(instrument, stepIndex, { active: true, ratchet: (step.ratchet % MAX_RATCHET) + 1 });
+    } else if (e.ctrlKey || e.metaKey) {
+        this.updateStep(instrument, stepIndex, { active: true, accent: !step.accent });
+    } else {
+        this.toggleStep(instrument, stepIndex);
+    }
+  }
+
+  private describeStep(instrument: Instrument, stepIndex: number) {
+    const step = this.patterns[instrument][stepIndex];
+    const details = step.active
+      ? [
+          `Velocity ${Math.round(step.velocity * 100)}%`,
+          ...(step.accent ? ['Accent'] : []),
+          ...(step.probability < 1 ? [`${Math.round(step.probability * 100)}% chance`] : []),
+          ...(step.ratchet > 1 ? [`${step.ratchet}× ratchet`] : []),
+        ].join(', ')
+      : '';
+    return [details, this.renderStepMapping(instrument, stepIndex)].filter(Boolean).join('\n');
   }
 
   private handleKitSizeChange(e: Event) {
-    this.kitSize = (e.target as HTMLSelectElement).value as 'simple' | 'extended';
+    this.kitSize = (e.target as HTMLSelectElement).value as KitSize;
   }
 
   private handleKitChange(e: Event) {
-    const newKit = (e.target as HTMLSelectElement).value as (typeof KITS)[number];
-    this.selectedKit = newKit;
-    this.drumMachine.setKit(newKit);
+    this.selectKit((e.target as HTMLSelectElement).value);
+  }
+
+  private selectKit(kit: string) {
+    this.selectedKit = kit;
+    this.drumMachine.setKit(kit);
+  }
+
+  /** Registers the kit choice, whose options include the user's kits. */
+  private registerKitControl() {
+    const userKits = [...this.sampleKits, ...this.synthKits];
+    const ids = [...KITS, ...userKits.map((kit) => kit.id)];
+    this.learnableControls.register({
+      id: 'kit', label: 'Drum Kit', type: 'range', min: 0, max: ids.length - 1, step: 1,
+      options: [...KITS, ...userKits.map((kit) => kit.name)],
+      get: () => ids.indexOf(this.selectedKit),
+      set: (index) => this.selectKit(ids[index]),
+    });
+  }
+
+  /** Hands the stored sample kits to the beatmaker. */
+  private async loadSampleKits() {
+    try {
+      const kits = await this.sampleKitStore.list();
+      for (const kit of kits) {
+        await this.registerSampleKit(kit).catch((e) => console.warn(`Sample kit "${kit.name}" did not load.`, e));
+      }
+      this.sampleKits = kits;
+      this.registerKitControl();
+    } catch (e: any) {
+      this.dispatchError(`Could not load sample kits: ${e.message}`);
+    }
+  }
+
+  private async registerSampleKit(kit: SampleKit) {
+    const voices: { [key in Instrument]?: SampleVoice } = {};
+    await Promise.all(Object.entries(kit.samples).map(async ([instrument, sample]) => {
+      voices[instrument as Instrument] = await decodeSample(this.transport.audioContext, sample!);
+    }));
+    this.drumMachine.setSampleKit(kit.id, voices);
+  }
+
+  private handleNewSampleKit() {
+    this.editingSampleKit = { id: createSampleKitId(), name: '', samples: {} };
+  }
+
+  private handleEditSampleKit() {
+    this.editingSampleKit = this.sampleKits.find((kit) => kit.id === this.selectedKit) ?? null;
+  }
+
+  private async handleSampleKitSave(e: CustomEvent<SampleKit>) {
+    const kit = e.detail;
+    try {
+      await this.registerSampleKit(kit);
+      await this.sampleKitStore.save(kit);
+    } catch (err: any) {
+      this.dispatchError(err.message);
+      return;
+    }
+    this.sampleKits = [...this.sampleKits.filter((k) => k.id !== kit.id), kit]
+      .sort((a, b) => a.name.localeCompare(b.name));
+    this.editingSampleKit = null;
+    this.registerKitControl();
+    this.selectKit(kit.id);
   }
 
-  private handleSequencerLengthChange(newLength: 4 | 8 | 16) {
-    if (newLength === this.sequencerLength) return;
+  private async handleSampleKitDelete() {
+    const kit = this.editingSampleKit;
+    if (!kit) return;
+    try {
+      await this.sampleKitStore.delete(kit.id);
+    } catch (e: any) {
+      this.dispatchError(`Could not delete sample kit: ${e.message}`);
+      return;
+    }
+    this.drumMachine.removeKit(kit.id);
+    this.sampleKits = this.sampleKits.filter((k) => k.id !== kit.id);
+    this.editingSampleKit = null;
+    this.registerKitControl();
+    if (this.selectedKit === kit.id) this.selectKit('Electronic');
+  }
+
+  private handleSamplePreview(e: CustomEvent<Sample>) {
+    decodeSample(this.transport.audioContext, e.detail)
+      .then((voice) => this.drumMachine.preview(voice))
+      .catch((err) => this.dispatchError(err.message));
+  }
+
+  /** Hands the stored synth kits to the beatmaker. */
+  private async loadSynthKits() {
+    try {
+      const kits = await this.synthKitStore.list();
+      for (const kit of kits) this.drumMachine.setSynthKit(kit.id, kit.voices);
+      this.synthKits = kits;
+      this.registerKitControl();
+    } catch (e: any) {
+      this.dispatchError(`Could not load synth kits: ${e.message}`);
+    }
+  }
+
+  /** Starts a synth kit from the voices of the selected one, or of the Electronic kit. */
+  private handleNewSynthKit() {
+    const voices = SYNTH_PRESETS[this.selectedKit]
+      ?? this.synthKits.find((kit) => kit.id === this.selectedKit)?.voices
+      ?? SYNTH_PRESETS['Electronic'];
+    this.editingSynthKit = { id: createSynthKitId(), name: '', voices };
+  }
+
+  private handleEditSynthKit() {
+    this.editingSynthKit = this.synthKits.find((kit) => kit.id === this.selectedKit) ?? null;
+  }
+
+  private async handleSynthKitSave(e: CustomEvent<SynthKit>) {
+    const kit = e.detail;
+    try {
+      await this.synthKitStore.save(kit);
+    } catch (err: any) {
+      this.dispatchError(err.message);
+      return;
+    }
+    this.drumMachine.setSynthKit(kit.id, kit.voices);
+    this.synthKits = [...this.synthKits.filter((k) => k.id !== kit.id), kit]
+      .sort((a, b) => a.name.localeCompare(b.name));
+    this.editingSynthKit = null;
+    this.registerKitControl();
+    this.selectKit(kit.id);
+  }
 
-    const oldLength = this.sequencerLength;
+  private async handleSynthKitDelete() {
+    const kit = this.editingSynthKit;
+    if (!kit) return;
+    try {
+      await this.synthKitStore.delete(kit.id);
+    } catch (e: any) {
+      this.dispatchError(`Could not delete synth kit: ${e.message}`);
+      return;
+    }
+    this.drumMachine.removeKit(kit.id);
+    this.synthKits = this.synthKits.filter((k) => k.id !== kit.id);
+    this.editingSynthKit = null;
+    this.registerKitControl();
+    if (this.selectedKit === kit.id) this.selectKit('Electronic');
+  }
+
+  private handleVoicePreview(e: CustomEvent<VoiceParams>) {
+    this.drumMachine.preview(new SynthVoice(e.detail));
+  }
+
+  /** Names already taken by kits other than `id`, which the kit editors refuse. */
+  private kitNamesExcept(id: string) {
+    return [...KITS, ...[...this.sampleKits, ...this.synthKits].filter((k) => k.id !== id).map((k) => k.name)];
+  }
+
+  /** Gives every track of every pattern the same length. */
+  private handleSequencerLengthChange(newLength: SequencerLength) {
     this.sequencerLength = newLength;
-    this.drumMachine.setLoopLength(newLength);
 
-    const newPatterns = { ...this.patterns };
-    for (const instrument of ALL_INSTRUMENTS) {
-        const oldPattern = this.patterns[instrument];
-        const newPattern = Array(newLength).fill(false);
-        const copyLength = Math.min(oldLength, newLength);
-        for (let i = 0; i < copyLength; i++) {
-            newPattern[i] = oldPattern[i];
+    this.patternBank = this.patternBank.map((pattern) => {
+        const newPattern = { ...pattern };
+        for (const instrument of ALL_INSTRUMENTS) {
+            newPattern[instrument] = resizePattern(pattern[instrument], newLength);
         }
-        newPatterns[instrument] = newPattern;
-        this.drumMachine.updatePattern(instrument, newPattern);
-    }
-    this.patterns = newPatterns;
+        return newPattern;
+    });
+    this.drumMachine.setPatternBank(this.patternBank);
   }
 
   private clearAllPatterns() {
     const newPatterns = { ...this.patterns };
     for (const instrument of ALL_INSTRUMENTS) {
-        const clearedPattern = Array(this.sequencerLength).fill(false);
+        const clearedPattern = createPattern(this.patterns[instrument].length);
         newPatterns[instrument] = clearedPattern;
-        this.drumMachine.updatePattern(instrument, clearedPattern);
+        this.drumMachine.updatePattern(this.selectedPattern, instrument, clearedPattern);
     }
     this.patterns = newPatterns;
   }
@@ -962,19 +2192,102 @@ export class MusicStudio extends LitElement {
     
     for (const instrument of ALL_INSTRUMENTS) {
         const fullPattern = randomBeat[instrument as keyof typeof randomBeat];
-        const newPattern = Array(this.sequencerLength).fill(false);
-        if (fullPattern) {
-            for (let i = 0; i < this.sequencerLength; i++) {
-                newPattern[i] = fullPattern[i] || false;
-            }
-        }
+        const newPattern = Array.from({ length: this.patterns[instrument].length }, (_, i) =>
+            createStep(fullPattern?.[i % fullPattern.length] ?? false));
         newPatterns[instrument] = newPattern;
-        this.drumMachine.updatePattern(instrument, newPattern);
+        this.drumMachine.updatePattern(this.selectedPattern, instrument, newPattern);
     }
     this.patterns = newPatterns;
   }
 
+  /** Shows a slot for editing. Outside song mode it also plays, from the next bar while running. */
+  private handlePatternSlotClick(slot: number) {
+    this.selectedPattern = slot;
+    if (this.songMode) return;
+    if (this.beatmakerIsPlaying && slot !== this.playingPattern) {
+        this.queuedPattern = slot;
+        this.drumMachine.queuePattern(slot);
+    } else {
+        this.queuedPattern = null;
+        this.drumMachine.queuePattern(null);
+        this.playingPattern = slot;
+        this.drumMachine.selectPattern(slot);
+    }
+  }
+
+  /** Sets one track's loop length in the selected pattern, for polymetric patterns. */
+  private handleTrackLengthChange(instrument: Instrument, length: number) {
+    if (!Number.isInteger(length) || length < 1 || length > MAX_TRACK_LENGTH) return;
+    const newPattern = resizePattern(this.patterns[instrument], length);
+    this.patterns = { ...this.patterns, [instrument]: newPattern };
+    this.drumMachine.updatePattern(this.selectedPattern, instrument, newPattern);
+  }
+
+  /** Shades every other beat of the grid. */
+  private isAltBeat(step: number) {
+    return Math.floor(step / this.meter.stepsPerBeat) % 2 === 1;
+  }
+
+  private longestTrack() {
+    return Math.max(...ALL_INSTRUMENTS.map((instrument) => this.patterns[instrument].length));
+  }
+
+  private updateMeter(changes: Partial<Meter>) {
+    this.meter = { ...this.meter, ...changes };
+    this.drumMachine.setMeter(this.meter);
+  }
+
+  private copyPattern() {
+    this.patternClipboard = this.patterns;
+  }
+
+  private pastePattern() {
+    if (!this.patternClipboard) return;
+    this.patterns = { ...this.patternClipboard };
+    this.drumMachine.setPatternBank(this.patternBank);
+  }
+
+  /** Copies the pattern into the next empty slot and selects it. */
+  private duplicatePattern() {
+    const source = this.patterns;
+    const emptySlot = this.patternBank.findIndex((pattern, slot) => slot > this.selectedPattern && !hasActiveSteps(pattern));
+    if (emptySlot === -1) {
+        this.dispatchError('There is no empty pattern slot after this one to duplicate into.');
+        return;
+    }
+    this.patternBank = this.patternBank.map((pattern, slot) => slot === emptySlot ? { ...source } : pattern);
+    this.drumMachine.setPatternBank(this.patternBank);
+    this.handlePatternSlotClick(emptySlot);
+  }
+
+  private toggleSongMode(e: Event) {
+    this.songMode = (e.target as HTMLInputElement).checked;
+    this.songPosition = -1;
+    this.queuedPattern = null;
+    this.drumMachine.queuePattern(null);
+    this.drumMachine.setSongMode(this.songMode);
+  }
+
+  private updateArrangement(arrangement: ArrangementEntry[]) {
+    this.arrangement = arrangement;
+    this.drumMachine.setArrangement(arrangement);
+  }
+
+  private addArrangementEntry() {
+    this.updateArrangement([...this.arrangement, { pattern: this.selectedPattern, repeats: 1 }]);
+  }
+
+  private setArrangementRepeats(index: number, repeats: number) {
+    this.updateArrangement(this.arrangement.map((entry, i) => i === index ? { ...entry, repeats } : entry));
+  }
+
+  private removeArrangementEntry(index: number) {
+    this.updateArrangement(this.arrangement.filter((_, i) => i !== index));
+  }
+
   private toggleBeatmakerPlayback() {
+    // The external clock's Start and Stop drive playback while following it.
+    if (this.clockMode === 'receive') return;
     this.beatmakerIsPlaying = !this.beatmakerIsPlaying;
     if (this.beatmakerIsPlaying) {
         this.drumMachine.resumeContext();
@@ -982,23 +2295,261 @@ export class MusicStudio extends LitElement {
     } else {
         this.drumMachine.stop();
         this.currentStep = -1;
+        this.songPosition = -1;
+    }
+  }
+
+  private handleClockModeChange(e: Event) {
+    const mode = (e.target as HTMLSelectElement).value as ClockMode;
+    if (mode === 'receive' && this.beatmakerIsPlaying) this.toggleBeatmakerPlayback();
+    this.clockMode = mode;
+    this.midiClock.setMode(mode);
+    if (mode === 'send' && !this.clockOutputId) {
+      this.handleClockOutputChange(this.midiOutputIds[0] ?? null);
+    }
+  }
+
+  private handleClockOutputChange(id: string | null) {
+    this.clockOutputId = id;
+    this.midiClock.outputId = id;
+  }
+
+  private renderPatternBank() {
+    return html`
+        <div class="pattern-bank">
+            <div class="control-group">
+                <label>Pattern:</label>
+                <div class="pattern-slots">
+                    ${PATTERN_SLOTS.map((name, slot) => html`
+                        <button
+                            class="pattern-slot ${classMap({
+                                selected: slot === this.selectedPattern,
+                                playing: this.beatmakerIsPlaying && slot === this.playingPattern,
+                                queued: slot === this.queuedPattern,
+                                filled: hasActiveSteps(this.patternBank[slot]),
+                            })}"
+                            @click=${() => this.handlePatternSlotClick(slot)}>${name}</button>
+                    `)}
+                </div>
+                <button class="action-button" @click=${this.copyPattern}>Copy</button>
+                <button class="action-button" @click=${this.pastePattern}>Paste</button>
+                <button class="action-button" @click=${this.duplicatePattern}>Duplicate</button>
+                <label>
+                    <input type="checkbox" .checked=${this.songMode} @change=${this.toggleSongMode}>
+                    Song
+                </label>
+            </div>
+            ${this.songMode ? html`
+                <div class="arrangement">
+                    ${this.arrangement.map((entry, index) => html`
+                        <div class="arrangement-entry ${classMap({ current: index === this.songPosition })}">
+                            <span>${PATTERN_SLOTS[entry.pattern]}</span>
+                            <select aria-label="Bars"
+                                @change=${(e: Event) => this.setArrangementRepeats(index, Number((e.target as HTMLSelectElement).value))}>
+                                ${Array.from({ length: MAX_REPEATS }, (_, i) => html`
+                                    <option .value=${String(i + 1)} ?selected=${i + 1 === entry.repeats}>×${i + 1}</option>
+                                `)}
+                            </select>
+                            <button aria-label="Remove from song" @click=${() => this.removeArrangementEntry(index)}>✕</button>
+                        </div>
+                    `)}
+                    <button class="action-button" @click=${this.addArrangementEntry}>+ ${PATTERN_SLOTS[this.selectedPattern]}</button>
+                </div>
+            ` : ''}
+        </div>
+    `;
+  }
+
+  private renderMeter() {
+    return html`
+        <div class="control-group">
+            <label for="beats-per-bar">Meter:</label>
+            <select id="beats-per-bar" aria-label="Beats per bar"
+                @change=${(e: Event) => this.updateMeter({ beatsPerBar: Number((e.target as HTMLSelectElement).value) })}>
+                ${Array.from({ length: MAX_BEATS_PER_BAR }, (_, i) => html`
+                    <option .value=${String(i + 1)} ?selected=${i + 1 === this.meter.beatsPerBar}>${i + 1}</option>
+                `)}
+            </select>
+            /
+            <select id="beat-unit" aria-label="Beat unit"
+                @change=${(e: Event) => this.updateMeter({ beatUnit: Number((e.target as HTMLSelectElement).value) as Meter['beatUnit'] })}>
+                <option value="4" ?selected=${this.meter.beatUnit === 4}>4</option>
+                <option value="8" ?selected=${this.meter.beatUnit === 8}>8</option>
+            </select>
+            <select id="step-resolution" aria-label="Step resolution"
+                @change=${(e: Event) => this.updateMeter({ stepsPerBeat: Number((e.target as HTMLSelectElement).value) })}>
+                ${STEPS_PER_BEAT_OPTIONS.map((stepsPerBeat) => html`
+                    <option .value=${String(stepsPerBeat)} ?selected=${stepsPerBeat === this.meter.stepsPerBeat}>
+                        ${describeResolution({ ...this.meter, stepsPerBeat })}
+                    </option>
+                `)}
+            </select>
+        </div>
+    `;
+  }
+
+  private renderClockSync() {
+    return html`
+        <div class="control-group">
+            <label for="clock-mode">Sync:</label>
+            <select id="clock-mode" @change=${this.handleClockModeChange}>
+                <option value="internal" ?selected=${this.clockMode === 'internal'}>Internal</option>
+                <option value="receive" ?selected=${this.clockMode === 'receive'}>Follow MIDI clock</option>
+                <option value="send" ?selected=${this.clockMode === 'send'}>Send MIDI clock</option>
+            </select>
+            ${this.clockMode === 'send' ? html`
+                <select id="clock-output" aria-label="MIDI clock output"
+                    @change=${(e: Event) => this.handleClockOutputChange((e.target as HTMLSelectElement).value)}>
+                    ${this.midiOutputIds.length === 0 ? html`<option>No MIDI outputs</option>` : ''}
+                    ${this.midiOutputIds.map((id) => html`
+                        <option .value=${id} ?selected=${id === this.clockOutputId}>${this.midiDispatcher.getOutputName(id) ?? id}</option>
+                    `)}
+                </select>
+            ` : ''}
+        </div>
+    `;
+  }
+
+  private toggleRecording() {
+    if (this.recorder.isRecording) {
+        const take = this.recorder.stop();
+        if (take) this.isTakeListVisible = true;
+    } else {
+        this.transport.resume();
+        this.recorder.start();
     }
   }
 
-  private openHelpModal(view: 'launchpad' | 'beatmaker') {
+  private downloadTake(take: Take, format: ExportFormat, stem?: string) {
+    try {
+        const blob = this.recorder.exportTake(take.id, format, stem);
+        const url = URL.createObjectURL(blob);
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `LolliPad ${take.name}${stem ? ` (${stem})` : ''}.${format}`;
+        link.click();
+        setTimeout(() => URL.revokeObjectURL(url), 1000);
+    } catch (e: any) {
+        // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+        (this as any).dispatchEvent(new CustomEvent('error', { detail: e.message }));
+    }
+  }
+
+  private updateMixer(settings: MixerSettings) {
+    this.mixerSettings = settings;
+    this.mixer.setSettings(settings);
+  }
+
+  private handleChannelChange(e: CustomEvent<{ channel: MixerChannel; changes: Partial<ChannelSettings> }>) {
+    const { channel, changes } = e.detail;
+    const { channels } = this.mixerSettings;
+    this.updateMixer({
+      ...this.mixerSettings,
+      channels: { ...channels, [channel]: { ...channels[channel], ...changes } },
+    });
+  }
+
+  private handleAuxChange(e: CustomEvent<{ bus: number; level: number }>) {
+    const { bus, level } = e.detail;
+    this.updateMixer({
+      ...this.mixerSettings,
+      aux: this.mixerSettings.aux.map((aux, i) => i === bus ? { ...aux, level } : aux),
+    });
+  }
+
+  private handleEffectsChange(e: CustomEvent<{ target: EffectTarget; effects: EffectSettings[] }>) {
+    const { target, effects } = e.detail;
+    this.updateMixer(setEffects(this.mixerSettings, target, effects));
+    this.registerEffectControls();
+  }
+
+  /** Finds an effect by id, wherever it sits in the mixer. */
+  private findEffect(id: string): { target: EffectTarget; effect: EffectSettings } | null {
+    for (const target of allEffectTargets()) {
+      const effect = getEffects(this.mixerSettings, target).find((fx) => fx.id === id);
+      if (effect) return { target, effect };
+    }
+    return null;
+  }
+
+  private updateEffect(id: string, update: (effect: EffectSettings) => EffectSettings) {
+    const found = this.findEffect(id);
+    if (!found) return;
+    const effects = getEffects(this.mixerSettings, found.target).map((fx) => fx.id === id ? update(fx) : fx);
+    this.updateMixer(setEffects(this.mixerSettings, found.target, effects));
+  }
+
+  /** Makes every effect parameter and bypass learnable, dropping controls of removed effects. */
+  private registerEffectControls() {
+    const ids: string[] = [];
+    for (const target of allEffectTargets()) {
+      for (const effect of getEffects(this.mixerSettings, target)) {
+        const { label, params } = EFFECT_DEFINITIONS[effect.type];
+        const prefix = `${describeEffectTarget(target)} ${label}`;
+        for (const param of params) {
+          const id = `fx:${effect.id}:${param.key}`;
+          ids.push(id);
+          this.learnableControls.register({
+            id, label: `${prefix} ${param.label}`, type: 'range',
+            min: param.min, max: param.max, step: param.step, options: param.options,
+            get: () => this.findEffect(effect.id)?.effect.params[param.key] ?? param.min,
+            set: (value) => this.updateEffect(effect.id, (fx) => ({ ...fx, params: { ...fx.params, [param.key]: value } })),
+          });
+        }
+        const id = `fx:${effect.id}:enabled`;
+        ids.push(id);
+        this.learnableControls.register({
+          id, label: `${prefix} On / Bypass`, type: 'trigger',
+          fire: () => this.updateEffect(effect.id, (fx) => ({ ...fx, enabled: !fx.enabled })),
+        });
+      }
+    }
+    this.learnableControls.unregister(...this.effectControlIds.filter((id) => !ids.includes(id)));
+    this.effectControlIds = ids;
+  }
+
+  private openHelpModal(view: StudioView) {
     if (view === 'launchpad') {
         this.helpModalContent = {
             title: 'Launchpad Guide',
             content: html`
                 <p>The Launchpad is a real-time generative music tool. Blend different musical ideas together to create unique, evolving soundscapes.</p>
                 <ul>
+                    <li><strong>Connection:</strong> The light next to the play button shows the link to the AI. If it drops while playing, LolliPad reconnects by itself with your pads and settings, and the audio already received keeps playing meanwhile. Hover over it to see where the music comes from: the AI, or the offline generator that plays when no API key is set.</li>
+                    <li><strong>Buffer:</strong> Beside it, seconds of audio buffered against the buffer's target, and how unevenly the audio arrives. The buffer grows when the connection gets choppy and shrinks again once it is steady; a dropout is smoothed over with a short fade instead of silence.</li>
                     <li><strong>Pads:</strong> Each colored pad represents a musical style, instrument, or mood. Click a pad to activate it and add its sound to the mix.</li>
+                    <li><strong>Weight:</strong> Drag a pad up or down, or turn its knob, to set how strongly that style shapes the music. A MIDI knob or fader sets the weight directly, and pads played from MIDI notes follow how hard you hit them.</li>
+                    <li><strong>MIDI Devices:</strong> Pick which controller to listen to, or "All inputs" to play several at once, and optionally limit a device to one MIDI channel. Unplugged devices are picked up again as soon as they return.</li>
+                    <li><strong>MIDI Mappings:</strong> With "MIDI CC" checked, every control shows a Learn badge: click it and move a knob or hit a pad to map it, right-click it to clear. Right-click a Beatmaker step to learn it. In "Mappings", set endless encoders to a relative mode or limit a knob to part of a control's range. Mappings are saved per device, can be exported and imported as files, and Launchpad and nanoKONTROL2 come mapped out of the box.</li>
+                    <li><strong>LED Feedback:</strong> Controllers with LEDs show each pad's color, light up playing pads, pulse filtered ones and follow the Beatmaker's playhead. Put a Launchpad Mini or X in Programmer mode; pads without a learned note use the grid from the top-left corner.</li>
+                    <li><strong>MIDI Drums:</strong> Notes on MIDI channel 10 play the Beatmaker's current kit using the General MIDI drum layout (36 kick, 38 snare, 42 hat, and so on).</li>
+                    <li><strong>Edit Pads:</strong> Click "Edit pads" to rename, recolor or delete a pad, add new ones with "+", and drag pads to reorder the grid.</li>
                     <li><strong>Combining Pads:</strong> Activate multiple pads simultaneously to combine their characteristics. The AI will seamlessly blend them together.</li>
-                    <li><strong>Tempo, Key & Scale:</strong> Use the controls at the bottom to change the musical context. The music will adapt in real-time without stopping.</li>
+                    <li><strong>Tempo, Key & Scale:</strong> Use the controls at the bottom to change the musical context. They are sent to the AI as settings rather than added to the pad text, and the music restarts its phrase to pick up a new tempo or scale.</li>
+                    <li><strong>Generation:</strong> Density and Brightness shape how busy and how bright the music is; they read "Auto" until moved, and double-click returns them to Auto. Guidance sets how closely the music follows the pads, Temperature how much it varies, and a fixed Seed makes results repeatable.</li>
+                    <li><strong>Link:</strong> Locks the Launchpad and Beatmaker to one tempo. Whichever starts second waits for the next bar so both land on the same downbeat.</li>
+                    <li><strong>Performance FX:</strong> Sweep the Filter left for low-pass or right for high-pass. Stutter repeats the last slice of the stream at the chosen length, Tape Stop slows it to a halt over two beats, and Reverb Throw sends it to a long reverb. Hold a button for a momentary effect or tap it to latch; lengths follow the Launchpad tempo, and every control can be learned to a MIDI pad or knob.</li>
                     <li><strong>MIDI CC:</strong> Connect a MIDI controller and check the "MIDI CC" box to assign pads to physical knobs or faders for hands-on control.</li>
                 </ul>
             `
         };
+    } else if (view === 'mixer') {
+        this.helpModalContent = {
+            title: 'Mixer Guide',
+            content: html`
+                <p>The Mixer balances every Beatmaker instrument and the Launchpad's AI stream against each other.</p>
+                <ul>
+                    <li><strong>Faders:</strong> Set each channel's level; the meter beside it shows what the channel plays. Double-click a fader to return it to 0 dB.</li>
+                    <li><strong>Pan:</strong> Place the channel between the left and right speakers. Double-click to center it.</li>
+                    <li><strong>Mute & Solo:</strong> "M" silences a channel. "S" solos it: while any channel is soloed, only soloed channels are heard.</li>
+                    <li><strong>Sends:</strong> Send A and Send B feed part of the channel, after its fader, to the aux buses. The Aux faders set how loud each bus returns to the mix.</li>
+                    <li><strong>Effects:</strong> "FX" under a strip opens its effects rack. On a channel the effects are inserts, played in order before the fader; on an aux bus they process everything sent to it. Aux A starts as a reverb and Aux B as a delay.</li>
+                    <li><strong>Effect Units:</strong> Add reverb, delay, filter, compressor or bitcrusher units, reorder them with ‹ ›, bypass them with the checkbox and start from a preset. Delay times follow the Launchpad tempo.</li>
+                    <li><strong>MIDI:</strong> Every effect parameter and bypass appears in the MIDI Mappings list, ready to learn.</li>
+                    <li>Mixer settings, including effects, are saved with the project. The Beatmaker's Volume control still sets the level of all drums together.</li>
+                </ul>
+            `
+        };
     } else {
         this.helpModalContent = {
             title: 'Beatmaker Guide',
@@ -1006,13 +2557,22 @@ export class MusicStudio extends LitElement {
                 <p>The Beatmaker is a classic step sequencer for creating your own drum patterns. Lay down rhythms and choose from a variety of drum kits.</p>
                 <ul>
                     <li><strong>Sequencer Grid:</strong> Each row is an instrument, and each column is a step in the beat. Click a square (step) to turn a note on or off for that instrument.</li>
+                    <li><strong>Track Lengths:</strong> The number next to each instrument name is that track's length, up to 64 steps. Tracks of different lengths loop independently, e.g. 12-step hats against 16-step kicks, and each shows its own playhead.</li>
+                    <li><strong>Step Details:</strong> Drag an active step up or down to set its velocity. Shift-click cycles its chance of playing (100%, 75%, 50%, 25%), Alt-click repeats it up to 4 times within the step (ratchet), and Ctrl/Cmd-click accents it.</li>
                     <li><strong>Controls:</strong>
                         <ul>
                             <li><strong>Kit/Sound:</strong> Change the style of drum sounds used in your beat.</li>
-                            <li><strong>Bars:</strong> Switch between 4, 8, or 16 steps to change the length of your loop.</li>
-                            <li><strong>Tempo & Volume:</strong> Adjust the speed and overall volume of your beat.</li>
+                            <li><strong>Sample Kits:</strong> "+ Samples" builds a kit from your own WAV or MP3 one-shots, with trim, pitch and reverse for each sound. Sample kits are saved in this browser and listed under "Sample kits" in the Sound menu; "Edit kit" changes or deletes the selected one.</li>
+                            <li><strong>Synth Kits:</strong> "+ Synth" designs a kit of synthesized voices, starting from the selected kit. Shape each sound with its waveform, tune, pitch sweep, attack, decay, noise filter and tone, noise mix, drive, level and flams, and press ▶ to hear it. Synth kits are saved in this browser and listed under "Synth kits".</li>
+                            <li><strong>Steps:</strong> Set every track to 4, 8, 16, 32 or 64 steps.</li>
+                            <li><strong>Meter:</strong> Choose the time signature (e.g. 7/8) and what each step is worth, including triplets and odd tuplets. Queued patterns and song parts change on the bar line of this meter.</li>
+                            <li><strong>Tempo & Volume:</strong> Adjust the speed and overall volume of your beat. Check <strong>Link</strong> to follow the Launchpad tempo and start on its next bar.</li>
                             <li><strong>Generate:</strong> Instantly fills the sequencer with a random pre-made pattern to get you started.</li>
                             <li><strong>Clear:</strong> Wipes the entire grid clean.</li>
+                            <li><strong>Patterns:</strong> Slots A–H each hold a pattern. Click a slot to edit and play it; while the Beatmaker runs, the switch waits for the next bar. Copy and Paste move patterns between slots, and Duplicate copies the current one into the next empty slot.</li>
+                            <li><strong>Song:</strong> Check "Song" to chain patterns into an arrangement. "+" adds the selected pattern, and each part plays for the chosen number of bars before the next. The song loops from the start when it ends.</li>
+                            <li><strong>Swing & Humanize:</strong> Swing delays every other 16th (or 8th) note for a shuffled groove; 50% is straight. Humanize adds small random variations in timing and velocity. The slider under each instrument name nudges that track earlier or later by up to 50 ms (double-click to reset).</li>
+                            <li><strong>Sync:</strong> Set "Sync" to "Follow MIDI clock" to lock the Beatmaker's tempo and steps to a DAW or hardware sequencer, including Start, Stop, Continue and song position. "Send MIDI clock" makes the Beatmaker the master for other gear.</li>
                         </ul>
                     </li>
                 </ul>
@@ -1044,10 +2604,29 @@ export class MusicStudio extends LitElement {
     }
   }
   
-  private renderHelpIcon(view: 'launchpad' | 'beatmaker') {
+  private renderTempoLink() {
+    return html`
+        <label class="tempo-link" title="Share one BPM between Launchpad and Beatmaker and start both on the next bar">
+            <input type="checkbox" .checked=${this.tempoLinked} @change=${this.handleTempoLinkChange}>
+            Link
+        </label>`;
+  }
+
+  private renderHelpIcon(view: StudioView) {
     return html`<div class="help-icon" @click=${() => this.openHelpModal(view)}>?</div>`;
   }
 
+  /** Buffered audio against the latency the buffer aims for, with jitter and dropouts. */
+  private renderBufferHealth() {
+    const stats = this.bufferStats;
+    if (!stats || this.playbackState !== 'playing') return '';
+    const low = stats.level < stats.target / 2;
+    return html`<span class="buffer-health ${classMap({ low })}"
+        title="Audio buffered ahead / buffer target, arrival jitter and dropouts covered since play">
+        ${stats.level.toFixed(1)} / ${stats.target.toFixed(1)} s · ±${Math.round(stats.jitter * 1000)} ms${stats.underruns > 0 ? ` · ${stats.underruns} dropout${stats.underruns === 1 ? '' : 's'}` : ''}
+    </span>`;
+  }
+
   private renderLaunchpadView() {
     const numBars = 80;
     const visualizerBars = Array(numBars).fill(0);
@@ -1063,6 +2642,10 @@ export class MusicStudio extends LitElement {
                 .playbackState=${this.playbackState}
                 @click=${this.handlePlayPause}
                 ></play-pause-button>
+                ${this.renderLearnBadge('play-pause')}
+                <span class="connection-status ${this.connectionStatus}" role="status"
+                    title="Connection to the music backend${this.musicBackend ? `: ${this.musicBackend}` : ''}">${CONNECTION_LABELS[this.connectionStatus]}</span>
+                ${this.renderBufferHealth()}
                 <div id="visualizer">
                     ${visualizerBars.map((_, i) => {
                         const center = numBars / 2;
@@ -1088,17 +2671,29 @@ export class MusicStudio extends LitElement {
             <div id="launchpad">
             ${map(this.prompts.values(), (prompt) => html`
                 <launchpad-button
+                draggable=${this.padEditMode ? 'true' : 'false'}
+                @dragstart=${() => this.draggedPromptId = prompt.promptId}
+                @dragover=${(e: DragEvent) => this.padEditMode && e.preventDefault()}
+                @drop=${(e: DragEvent) => this.handlePadDrop(e, prompt.promptId)}
+                @edit-pad=${this.handleEditPad}
+                .editMode=${this.padEditMode}
                 .promptId=${prompt.promptId}
                 .text=${prompt.text}
                 .weight=${prompt.weight}
                 .color=${prompt.color}
                 .cc=${prompt.cc}
-                .filtered=${this.filteredPrompts.has(prompt.text)}
+                .note=${prompt.note ?? null}
+                .channel=${prompt.channel ?? null}
+                .audioLevel=${this.audioLevel}
+                .filtered=${this.isFilteredText(prompt.text)}
                 .showCC=${this.showCC}
                 .midiDispatcher=${this.midiDispatcher}
                 @prompt-changed=${this.handlePromptChanged}
                 ></launchpad-button>
             `)}
+            ${this.padEditMode ? html`
+                <button class="add-pad" @click=${() => this.editingPadId = 'new'} aria-label="Add pad">+</button>
+            ` : ''}
             </div>
             <div id="launchpad-controls">
                 <div class="control-group tempo-control">
@@ -1107,16 +2702,27 @@ export class MusicStudio extends LitElement {
                     <span class="control-value">${this.launchpadTempo} BPM</span>
                     <button class="tempo-btn" @click=${this.handleLaunchpadTempoIncrement} aria-label="Increase tempo">+</button>
                     <input type="range" id="tempo" min="60" max="180" .value=${this.launchpadTempo} @input=${this.handleLaunchpadTempoChange}>
+                    ${this.renderLearnBadge('tempo')}
+                    ${this.renderTempoLink()}
                 </div>
                 <div class="control-group">
                     <label for="key">Key</label>
                     <select id="key" @change=${this.handleKeyChange}>
                         ${KEYS.map(k => html`<option .value=${k} ?selected=${k === this.key}>${k}</option>`)}
                     </select>
+                    ${this.renderLearnBadge('key')}
                     <label for="scale">Scale</label>
                     <select id="scale" @change=${this.handleScaleChange}>
                         ${SCALES.map(s => html`<option .value=${s} ?selected=${s === this.scale}>${s}</option>`)}
                     </select>
+                    ${this.renderLearnBadge('scale')}
+                </div>
+                <div class="control-group">
+                    <button
+                        class="action-button ${classMap({ active: this.padEditMode })}"
+                        @click=${() => this.padEditMode = !this.padEditMode}>
+                        ${this.padEditMode ? 'Done' : 'Edit pads'}
+                    </button>
                 </div>
                 <div class="control-group">
                     <label>
@@ -1125,18 +2731,131 @@ export class MusicStudio extends LitElement {
                     </label>
                     <div class="tooltip-container">
                         <span class="info-icon">?</span>
-                        <span class="tooltip-text">Connect a MIDI device to assign pads to CCs for hands-on control.</span>
+                        <span class="tooltip-text">Connect a MIDI device to assign pads to CCs or notes for hands-on control.</span>
                     </div>
+                    ${this.renderMidiDevicePicker()}
+                    ${this.showCC ? html`
+                        <button class="action-button" @click=${() => this.isMidiMappingVisible = true}>Mappings</button>
+                        <label for="led-profile">LEDs</label>
+                        <select id="led-profile" @change=${(e: Event) => this.ledProfile = (e.target as HTMLSelectElement).value}>
+                            <option value="auto" ?selected=${this.ledProfile === 'auto'}>Auto (${this.midiFeedback.activeProfile.name})</option>
+                            ${DEVICE_PROFILES.map((p) => html`<option .value=${p.id} ?selected=${p.id === this.ledProfile}>${p.name}</option>`)}
+                        </select>
+                    ` : ''}
                 </div>
             </div>
+            ${this.renderGenerationControls()}
+            ${this.renderPerformanceFx()}
+        </div>
+    `;
+  }
+
+  /** Sliders for the AI generation settings. Density and brightness are left to the model until moved. */
+  private renderGenerationControls() {
+    const { density, brightness, guidance, temperature, seed } = this.generation;
+    const slider = (id: 'density' | 'brightness' | 'guidance' | 'temperature', label: string, value: number | null,
+        max: number, step: number, reset: Partial<GenerationSettings>, title: string) => html`
+        <div class="control-group">
+            <label for=${id}>${label}</label>
+            <input type="range" id=${id} min="0" max=${max} step=${step} title=${`${title} Double-click to reset.`}
+                .value=${String(value ?? max / 2)}
+                @input=${(e: Event) => this.updateGeneration({ [id]: Number((e.target as HTMLInputElement).value) })}
+                @dblclick=${() => this.updateGeneration(reset)}>
+            <span class="control-value">${value === null ? 'Auto' : value.toFixed(max > 1 ? 1 : 2)}</span>
+            ${this.renderLearnBadge(id)}
+        </div>`;
+    const defaults = createGenerationSettings();
+    return html`
+        <div id="generation-controls">
+            ${slider('density', 'Density', density, 1, 0.01, { density: null }, 'Sparse to busy.')}
+            ${slider('brightness', 'Brightness', brightness, 1, 0.01, { brightness: null }, 'Dark to bright.')}
+            ${slider('guidance', 'Guidance', guidance, MAX_GUIDANCE, 0.1, { guidance: defaults.guidance },
+                'How closely the music follows the pads; high values make changes more abrupt.')}
+            ${slider('temperature', 'Temperature', temperature, MAX_TEMPERATURE, 0.1, { temperature: defaults.temperature },
+                'How much the music varies.')}
+            <div class="control-group">
+                <label for="seed">Seed</label>
+                <input type="number" id="seed" min="0" max=${MAX_SEED} placeholder="Random"
+                    .value=${seed === null ? '' : String(seed)}
+                    @change=${(e: Event) => {
+                        const value = (e.target as HTMLInputElement).value;
+                        this.updateGeneration({ seed: value === '' ? null : Math.round(Math.max(0, Math.min(MAX_SEED, Number(value)))) });
+                    }}>
+            </div>
+        </div>
+    `;
+  }
+
+  /** DJ filter and momentary effects on the AI stream. */
+  private renderPerformanceFx() {
+    const fx = this.performanceFx;
+    return html`
+        <div id="performance-fx">
+            <div class="control-group">
+                <label for="dj-filter">Filter</label>
+                <input type="range" id="dj-filter" min="-1" max="1" step="0.01"
+                    title="Left for low-pass, right for high-pass. Double-click to reset."
+                    .value=${String(fx.filter)}
+                    @input=${(e: Event) => fx.setFilter(Number((e.target as HTMLInputElement).value))}
+                    @dblclick=${() => fx.setFilter(0)}>
+                <span class="control-value">${describeFilter(fx.filter)}</span>
+                ${this.renderLearnBadge('dj-filter')}
+            </div>
+            <div class="control-group">
+                ${Object.entries(PERFORMANCE_EFFECTS).map(([id, label]) => {
+                    const effect = id as PerformanceEffect;
+                    return html`
+                        <button
+                            class="action-button ${classMap({ active: fx.isActive(effect) })}"
+                            title="Hold for a moment, or tap to latch"
+                            @pointerdown=${() => fx.press(effect)}
+                            @pointerup=${() => fx.release(effect)}
+                            @pointerleave=${() => fx.release(effect)}>
+                            ${label}
+                        </button>
+                        ${this.renderLearnBadge(`fx-${effect}`)}
+                    `;
+                })}
+                <select aria-label="Stutter length" @change=${(e: Event) => fx.setStutterDivision((e.target as HTMLSelectElement).value)}>
+                    ${Object.keys(STUTTER_DIVISIONS).map((d) => html`<option .value=${d} ?selected=${d === fx.stutterDivision}>${d}</option>`)}
+                </select>
+                ${this.renderLearnBadge('stutter-length')}
+            </div>
+        </div>
+    `;
+  }
+
+  private renderMixerView() {
+    return html`
+        <div class="view-container">
+            <div class="view-header">
+                <h2>Mixer</h2>
+                ${this.renderHelpIcon('mixer')}
+            </div>
+            <mixer-view
+                .mixer=${this.mixer}
+                .settings=${this.mixerSettings}
+                @channel-change=${this.handleChannelChange}
+                @aux-change=${this.handleAuxChange}
+                @effects-change=${this.handleEffectsChange}
+            ></mixer-view>
         </div>
     `;
   }
 
+  private renderCurrentView() {
+    switch (this.currentView) {
+      case 'launchpad': return this.renderLaunchpadView();
+      case 'beatmaker': return this.renderBeatmakerView();
+      case 'mixer': return this.renderMixerView();
+    }
+  }
+
   private renderBeatmakerView() {
     const displayedInstruments = this.kitSize === 'simple'
         ? ALL_INSTRUMENTS.slice(0, 3)
         : ALL_INSTRUMENTS;
+    const columns = Math.max(...displayedInstruments.map((instrument) => this.patterns[instrument].length));
 
     return html`
         <div class="view-container">
@@ -1151,6 +2870,7 @@ export class MusicStudio extends LitElement {
                         <button class="beatmaker-play-pause" @click=${this.toggleBeatmakerPlayback} aria-label="Play or pause beatmaker">
                         ${this.beatmakerIsPlaying ? this.renderBeatmakerPauseIcon() : this.renderBeatmakerPlayIcon()}
                         </button>
+                        ${this.renderLearnBadge('beatmaker-play-pause')}
                         <div class="beatmaker-sub-controls">
                             <div class="control-group">
                                 <label for="kit-size">Kit:</label>
@@ -1163,28 +2883,47 @@ export class MusicStudio extends LitElement {
                                 <label for="drum-kit">Sound:</label>
                                 <select id="drum-kit" @change=${this.handleKitChange}>
                                     ${KITS.map(k => html`<option .value=${k} ?selected=${k === this.selectedKit}>${k}</option>`)}
+                                    ${this.sampleKits.length > 0 ? html`
+                                        <optgroup label="Sample kits">
+                                            ${this.sampleKits.map((kit) => html`<option .value=${kit.id} ?selected=${kit.id === this.selectedKit}>${kit.name}</option>`)}
+                                        </optgroup>
+                                    ` : ''}
+                                    ${this.synthKits.length > 0 ? html`
+                                        <optgroup label="Synth kits">
+                                            ${this.synthKits.map((kit) => html`<option .value=${kit.id} ?selected=${kit.id === this.selectedKit}>${kit.name}</option>`)}
+                                        </optgroup>
+                                    ` : ''}
                                 </select>
+                                ${this.renderLearnBadge('kit')}
+                                ${this.sampleKits.some((kit) => kit.id === this.selectedKit)
+                                    ? html`<button class="action-button" @click=${this.handleEditSampleKit}>Edit kit</button>`
+                                    : ''}
+                                ${this.synthKits.some((kit) => kit.id === this.selectedKit)
+                                    ? html`<button class="action-button" @click=${this.handleEditSynthKit}>Edit kit</button>`
+                                    : ''}
+                                <button class="action-button" @click=${this.handleNewSampleKit}>+ Samples</button>
+                                <button class="action-button" @click=${this.handleNewSynthKit}>+ Synth</button>
                             </div>
                             <div class="control-group">
-                                <label>Bars:</label>
+                                <label>Steps:</label>
                                 <div class="length-selector">
-                                    <button
-                                        class="length-btn ${classMap({active: this.sequencerLength === 4})}"
-                                        @click=${() => this.handleSequencerLengthChange(4)}>4</button>
-                                    <button
-                                        class="length-btn ${classMap({active: this.sequencerLength === 8})}"
-                                        @click=${() => this.handleSequencerLengthChange(8)}>8</button>
-                                    <button
-                                        class="length-btn ${classMap({active: this.sequencerLength === 16})}"
-                                        @click=${() => this.handleSequencerLengthChange(16)}>16</button>
+                                    ${SEQUENCER_LENGTHS.map((length) => html`
+                                        <button
+                                            class="length-btn ${classMap({active: this.sequencerLength === length})}"
+                                            @click=${() => this.handleSequencerLengthChange(length)}>${length}</button>
+                                    `)}
                                 </div>
                             </div>
+                            ${this.renderMeter()}
+                            ${this.renderClockSync()}
                             <div class="control-group tempo-control">
                                 <label for="beatmaker-tempo">Tempo</label>
                                 <button class="tempo-btn" @click=${this.handleBeatmakerTempoDecrement} aria-label="Decrease beatmaker tempo">-</button>
                                 <span class="control-value">${this.beatmakerTempo} BPM</span>
                                 <button class="tempo-btn" @click=${this.handleBeatmakerTempoIncrement} aria-label="Increase beatmaker tempo">+</button>
-                                <input type="range" id="beatmaker-tempo" min="40" max="180" .value=${this.beatmakerTempo} @input=${this.handleBeatmakerTempoChange}>
+                                <input type="range" id="beatmaker-tempo" min=${this.tempoLinked ? 60 : 40} max="180" .value=${this.beatmakerTempo} @input=${this.handleBeatmakerTempoChange}>
+                                ${this.renderLearnBadge('beatmaker-tempo')}
+                                ${this.renderTempoLink()}
                             </div>
                             <div class="control-group" style="margin-left: auto;">
                                 <button class="action-button" @click=${this.handleGeneratePattern}>Generate</button>
@@ -1197,35 +2936,88 @@ export class MusicStudio extends LitElement {
                         <div class="slider-wrapper">
                             <input type="range" id="beatmaker-volume" min="0" max="1" step="0.01" .value=${this.beatmakerVolume} @input=${this.handleBeatmakerVolumeChange} aria-label="Beatmaker Volume">
                             <span class="control-value">${Math.round(this.beatmakerVolume * 100)}%</span>
+                            ${this.renderLearnBadge('beatmaker-volume')}
+                        </div>
+                    </div>
+                    ${this.renderPatternBank()}
+                    <div class="control-group beatmaker-groove-control">
+                        <label for="swing">Swing</label>
+                        <div class="slider-wrapper">
+                            <input type="range" id="swing" min=${STRAIGHT_SWING} max=${MAX_SWING} .value=${String(this.groove.swing)}
+                                @input=${(e: Event) => this.updateGroove({ swing: Number((e.target as HTMLInputElement).value) })}>
+                            <span class="control-value">${this.groove.swing}%</span>
+                            ${this.renderLearnBadge('swing')}
+                        </div>
+                        <select id="swing-grid" aria-label="Swing grid"
+                            @change=${(e: Event) => this.updateGroove({ swingGrid: Number((e.target as HTMLSelectElement).value) as Groove['swingGrid'] })}>
+                            <option value="16" ?selected=${this.groove.swingGrid === 16}>16ths</option>
+                            <option value="8" ?selected=${this.groove.swingGrid === 8}>8ths</option>
+                        </select>
+                        <label for="humanize">Humanize</label>
+                        <div class="slider-wrapper">
+                            <input type="range" id="humanize" min="0" max="100" .value=${String(this.groove.humanize)}
+                                @input=${(e: Event) => this.updateGroove({ humanize: Number((e.target as HTMLInputElement).value) })}>
+                            <span class="control-value">${this.groove.humanize}%</span>
+                            ${this.renderLearnBadge('humanize')}
                         </div>
                     </div>
                 </div>
                 <div class="sequencer-container">
-                    <div id="sequencer" style=${styleMap({'grid-template-columns': `80px repeat(${this.sequencerLength}, 1fr)`})}>
+                    <div id="sequencer" style=${styleMap({'grid-template-columns': `80px repeat(${columns}, 1fr)`})}>
                         <div class="sequencer-header-label"></div>
-                        ${Array.from({ length: this.sequencerLength }).map((_, i) => html`
-                            <div class="sequencer-header-step ${Math.floor(i / 4) % 2 === 1 ? 'beat-group-alt' : ''}">
+                        ${Array.from({ length: columns }).map((_, i) => html`
+                            <div class="sequencer-header-step ${this.isAltBeat(i) ? 'beat-group-alt' : ''}">
                                 ${i + 1}
                             </div>
                         `)}
 
                         ${displayedInstruments.map(instrument => {
-                            const instrumentColor = KIT_COLORS[this.selectedKit][instrument];
+                            const instrumentColor = (KIT_COLORS[this.selectedKit] ?? KIT_COLORS['Electronic'])[instrument];
                             const labelStyle = styleMap({
                                 backgroundColor: instrumentColor,
                             });
-                            const stepStyle = styleMap({
-                                '--instrument-color': instrumentColor,
-                            });
+                            const steps = this.patterns[instrument];
+                            // Each track loops on its own length, so each has its own playhead.
+                            const playhead = this.currentStep < 0 ? -1 : this.currentStep % steps.length;
                             return html`
-                                <div class="instrument-label" style=${labelStyle}>${instrument}</div>
-                                ${this.patterns[instrument].map((active, i) => html`
+                                <div class="instrument-label" style=${labelStyle}>
+                                    <div class="instrument-name">
+                                        ${instrument}
+                                        <input
+                                            type="number"
+                                            class="track-length"
+                                            min="1"
+                                            max=${MAX_TRACK_LENGTH}
+                                            .value=${String(steps.length)}
+                                            title="Track length in steps"
+                                            aria-label=${`${instrument} length`}
+                                            @change=${(e: Event) => this.handleTrackLengthChange(instrument, Number((e.target as HTMLInputElement).value))}>
+                                    </div>
+                                    <input
+                                        type="range"
+                                        class="nudge"
+                                        min=${-MAX_NUDGE}
+                                        max=${MAX_NUDGE}
+                                        .value=${String(this.groove.nudge[instrument])}
+                                        title=${`Nudge: ${this.groove.nudge[instrument] > 0 ? '+' : ''}${this.groove.nudge[instrument]} ms (double-click to reset)`}
+                                        aria-label=${`Nudge ${instrument}`}
+                                        @input=${(e: Event) => this.handleNudgeChange(instrument, Number((e.target as HTMLInputElement).value))}
+                                        @dblclick=${() => this.handleNudgeChange(instrument, 0)}>
+                                </div>
+                                ${steps.map((step, i) => html`
                                     <div 
-                                        class="step ${active ? 'active' : ''} ${i === this.currentStep ? 'current' : ''} ${Math.floor(i / 4) % 2 === 1 ? 'beat-group-alt' : ''}"
-                                        style=${stepStyle}
-                                        @click=${() => this.toggleStep(instrument, i)}>
+                                        class="step ${step.active ? 'active' : ''} ${step.accent ? 'accent' : ''} ${step.probability < 1 ? 'chance' : ''} ${i === playhead ? 'current' : ''} ${this.isAltBeat(i) ? 'beat-group-alt' : ''}"
+                                        style=${styleMap({ '--instrument-color': instrumentColor, '--velocity': String(step.velocity) })}
+                                        title=${this.describeStep(instrument, i)}
+                                        @pointerdown=${(e: PointerEvent) => this.handleStepPointerDown(e, instrument, i)}
+                                        @pointermove=${this.handleStepPointerMove}
+                                        @pointerup=${this.handleStepPointerUp}
+                                        @pointercancel=${() => this.stepDrag = null}
+                                        @contextmenu=${(e: Event) => this.handleStepContextMenu(e, instrument, i)}>
+                                        ${step.active && step.ratchet > 1 ? html`<span class="step-badge">${step.ratchet}×</span>` : ''}
                                     </div>
                                 `)}
+                                ${Array.from({ length: columns - steps.length }, () => html`<div class="step-spacer"></div>`)}
                             `;
                         })}
                     </div>
@@ -1235,6 +3027,118 @@ export class MusicStudio extends LitElement {
     `;
   }
 
+  private renderRecordButton() {
+    return html`
+        <button
+            class="global-play-pause-btn record-btn ${classMap({recording: this.isRecording})}"
+            @click=${this.toggleRecording}
+            aria-label=${this.isRecording ? 'Stop recording' : 'Start recording'}>
+            ${this.isRecording
+                ? svg`<svg viewBox="0 0 24 24" width="16" height="16"><rect x="5" y="5" width="14" height="14" rx="2" fill="white"/></svg>`
+                : svg`<svg viewBox="0 0 24 24" width="16" height="16"><circle cx="12" cy="12" r="7" fill="#ff3b3b"/></svg>`}
+        </button>
+        <button
+            class="menu-btn takes-btn"
+            @click=${() => this.isTakeListVisible = true}
+            aria-label="Show recorded takes">
+            Takes${this.takes.length ? ` (${this.takes.length})` : ''}
+        </button>`;
+  }
+
+  private renderTakeList() {
+    if (!this.isTakeListVisible) return '';
+    const formatDuration = (seconds: number) =>
+        `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+    return html`
+        <div class="modal-overlay visible" @click=${() => this.isTakeListVisible = false}>
+            <div class="modal-content" @click=${(e: Event) => e.stopPropagation()}>
+                <h3>Takes</h3>
+                <label class="stems-toggle">
+                    <input type="checkbox" .checked=${this.recorder.recordStems} .disabled=${this.isRecording}
+                        @change=${(e: Event) => this.recorder.recordStems = (e.target as HTMLInputElement).checked}>
+                    Also record Launchpad and Beatmaker as separate stems
+                </label>
+                ${this.takes.length === 0
+                    ? html`<p>Nothing recorded yet. Press the record button in the top bar to capture everything you play.</p>`
+                    : html`<ul class="take-list">
+                        ${this.takes.map(take => html`
+                            <li class="take">
+                                <div class="take-row">
+                                    <span class="take-name">${take.name}</span>
+                                    <span class="take-duration">${formatDuration(take.duration)}</span>
+                                    <button class="action-button" @click=${() => this.downloadTake(take, 'wav')}>WAV</button>
+                                    <button class="action-button" @click=${() => this.downloadTake(take, 'flac')}>FLAC</button>
+                                    <button class="action-button clear" @click=${() => this.recorder.deleteTake(take.id)} aria-label="Delete take">✕</button>
+                                </div>
+                                ${map(take.stems.keys(), stem => html`
+                                    <div class="take-row stem">
+                                        <span class="take-name">${stem}</span>
+                                        <button class="action-button" @click=${() => this.downloadTake(take, 'wav', stem)}>WAV</button>
+                                        <button class="action-button" @click=${() => this.downloadTake(take, 'flac', stem)}>FLAC</button>
+                                    </div>
+                                `)}
+                            </li>
+                        `)}
+                    </ul>`}
+                <button class="action-button modal-close-btn" @click=${() => this.isTakeListVisible = false}>Close</button>
+            </div>
+        </div>
+    `;
+  }
+
+  private renderPadEditor() {
+    if (!this.editingPadId) return '';
+    const isNew = this.editingPadId === 'new';
+    const ids = [...this.prompts.keys()];
+    const index = ids.indexOf(this.editingPadId);
+    const prompt = isNew ? null : this.prompts.get(this.editingPadId);
+    if (!isNew && !prompt) return '';
+    return html`
+        <pad-editor
+            .isNew=${isNew}
+            .text=${prompt?.text ?? ''}
+            .color=${prompt?.color ?? PAD_COLORS[this.prompts.size % PAD_COLORS.length]}
+            .canMoveBack=${index > 0}
+            .canMoveForward=${index !== -1 && index < ids.length - 1}
+            .otherTexts=${[...this.prompts.values()].filter((p) => p !== prompt).map((p) => p.text)}
+            .isFiltered=${(text: string) => this.isFilteredText(text)}
+            @pad-save=${this.handlePadSave}
+            @pad-delete=${this.handlePadDelete}
+            @pad-move=${this.handlePadMove}
+            @close=${() => this.editingPadId = null}
+        ></pad-editor>`;
+  }
+
+  private renderSampleKitEditor() {
+    const kit = this.editingSampleKit;
+    if (!kit) return '';
+    return html`
+        <sample-kit-editor
+            .isNew=${!this.sampleKits.some((k) => k.id === kit.id)}
+            .kit=${kit}
+            .otherNames=${this.kitNamesExcept(kit.id)}
+            @kit-save=${this.handleSampleKitSave}
+            @kit-delete=${this.handleSampleKitDelete}
+            @sample-preview=${this.handleSamplePreview}
+            @close=${() => this.editingSampleKit = null}
+        ></sample-kit-editor>`;
+  }
+
+  private renderSynthKitEditor() {
+    const kit = this.editingSynthKit;
+    if (!kit) return '';
+    return html`
+        <synth-kit-editor
+            .isNew=${!this.synthKits.some((k) => k.id === kit.id)}
+            .kit=${kit}
+            .otherNames=${this.kitNamesExcept(kit.id)}
+            @kit-save=${this.handleSynthKitSave}
+            @kit-delete=${this.handleSynthKitDelete}
+            @voice-preview=${this.handleVoicePreview}
+            @close=${() => this.editingSynthKit = null}
+        ></synth-kit-editor>`;
+  }
+
   private renderHelpModal() {
     if (!this.isHelpModalVisible || !this.helpModalContent) return '';
     return html`
@@ -1273,6 +3177,11 @@ export class MusicStudio extends LitElement {
                 @click=${() => this.currentView = 'beatmaker'}>
                 Beatmaker
             </button>
+            <button
+                class="menu-btn ${classMap({ active: this.currentView === 'mixer' })}"
+                @click=${() => this.currentView = 'mixer'}>
+                Mixer
+            </button>
         </div>
         <button 
             class="global-play-pause-btn ${classMap({playing: this.beatmakerIsPlaying})}" 
@@ -1280,12 +3189,39 @@ export class MusicStudio extends LitElement {
             aria-label="Play or pause beatmaker">
             ${this.beatmakerIsPlaying ? this.renderBeatmakerPauseIcon() : this.renderBeatmakerPlayIcon()}
         </button>
+        ${this.renderRecordButton()}
+        ${this.renderLearnBadge('record')}
+        <button
+            class="menu-btn project-btn"
+            @click=${this.openProjectBrowser}
+            title="Projects">
+            ${this.projectName}
+        </button>
       </nav>
       <div id="studio-body">
-        ${this.currentView === 'launchpad' ? this.renderLaunchpadView() : this.renderBeatmakerView()}
+        ${this.renderCurrentView()}
       </div>
       <footer>Created for musicians by Noam Cohen.</footer>
       ${this.renderHelpModal()}
+      ${this.renderTakeList()}
+      ${this.renderPadEditor()}
+      ${this.renderSampleKitEditor()}
+      ${this.renderSynthKitEditor()}
+      ${this.renderMidiMappingPanel()}
+      ${this.isProjectBrowserVisible ? html`
+        <project-browser
+            .projects=${this.savedProjects}
+            .currentProjectId=${this.projectId}
+            .currentProjectName=${this.projectName}
+            @project-save=${(e: CustomEvent<string>) => this.saveProject(e.detail, false)}
+            @project-save-as=${(e: CustomEvent<string>) => this.saveProject(e.detail, true)}
+            @project-open=${(e: CustomEvent<string>) => this.openProject(e.detail)}
+            @project-delete=${(e: CustomEvent<string>) => this.deleteProject(e.detail)}
+            @project-import=${(e: CustomEvent<File>) => this.importProject(e.detail)}
+            @project-export=${this.exportProject}
+            @project-new=${this.newProject}
+            @close=${() => this.isProjectBrowserVisible = false}
+        ></project-browser>` : ''}
     `;
   }
 }
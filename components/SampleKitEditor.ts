@@ -0,0 +1,311 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+import type { Instrument } from '../types';
+import { ALL_INSTRUMENTS } from '../utils/music';
+import { createSampleSettings, MAX_PITCH, type Sample, type SampleKit, type SampleSettings } from '../utils/SampleKit';
+
+const MAX_NAME_LENGTH = 40;
+/** Larger files are almost certainly not one-shots and would bloat storage. */
+const MAX_SAMPLE_BYTES = 10 * 1024 * 1024;
+
+/** Modal for building a kit from the user's own audio files, one per instrument. */
+@customElement('sample-kit-editor')
+export class SampleKitEditor extends LitElement {
+  // FIX: Removed 'override' keyword.
+  static styles = css`
+    .overlay {
+      position: fixed;
+      inset: 0;
+      background: rgba(0, 0, 0, 0.6);
+      backdrop-filter: blur(5px);
+      -webkit-backdrop-filter: blur(5px);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      z-index: 1000;
+    }
+    .panel {
+      background: rgba(28, 18, 41, 0.85);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 18px;
+      padding: 25px 30px;
+      max-width: 560px;
+      width: 90%;
+      max-height: 85vh;
+      overflow-y: auto;
+      box-shadow: 0 8px 32px rgba(0, 0, 0, 0.4);
+      color: white;
+      font-family: 'Inter', sans-serif;
+      display: flex;
+      flex-direction: column;
+      gap: 15px;
+    }
+    h3 {
+      margin: 0;
+      font-size: 1.8em;
+      background: linear-gradient(45deg, #ff25f6, #2af6de);
+      -webkit-background-clip: text;
+      -webkit-text-fill-color: transparent;
+    }
+    label {
+      font-size: 0.9em;
+      font-weight: 500;
+    }
+    input[type="text"] {
+      width: 100%;
+      box-sizing: border-box;
+      background: rgba(0, 0, 0, 0.3);
+      color: white;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 8px 10px;
+      font-family: inherit;
+      font-size: 1em;
+      margin-top: 6px;
+    }
+    input[type="range"] {
+      accent-color: #9900ff;
+      flex-grow: 1;
+    }
+    ul {
+      list-style: none;
+      padding: 0;
+      margin: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+    }
+    li {
+      padding: 8px 10px;
+      border-radius: 8px;
+      background: rgba(0, 0, 0, 0.2);
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+    .row {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      font-size: 0.85em;
+    }
+    .instrument {
+      font-weight: 600;
+      text-transform: capitalize;
+      min-width: 60px;
+    }
+    .file {
+      flex-grow: 1;
+      color: rgba(255, 255, 255, 0.7);
+      overflow: hidden;
+      text-overflow: ellipsis;
+      white-space: nowrap;
+    }
+    .file.empty {
+      color: rgba(255, 255, 255, 0.4);
+    }
+    .value {
+      width: 48px;
+      text-align: right;
+      font-family: monospace;
+    }
+    .message {
+      font-size: 0.85em;
+      line-height: 1.4;
+      padding: 8px 10px;
+      border-radius: 6px;
+    }
+    .message.error {
+      background: rgba(218, 32, 0, 0.3);
+    }
+    .actions {
+      display: flex;
+      gap: 8px;
+      flex-wrap: wrap;
+    }
+    button {
+      background: rgba(255, 255, 255, 0.1);
+      color: white;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+      padding: 8px 15px;
+      font-size: 0.9em;
+      font-weight: 500;
+      cursor: pointer;
+    }
+    .row button {
+      padding: 4px 10px;
+      font-size: 0.9em;
+    }
+    button:hover:not(:disabled) {
+      background: rgba(255, 255, 255, 0.2);
+    }
+    button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+    button.primary {
+      background: white;
+      color: #0D0B12;
+      font-weight: 600;
+      margin-left: auto;
+    }
+    button.danger {
+      background: rgba(218, 32, 0, 0.3);
+      border-color: rgba(218, 32, 0, 0.5);
+    }
+  `;
+
+  @property({ type: Boolean }) isNew = false;
+  @property({ type: Object }) kit: SampleKit | null = null;
+  /** Names of the other kits, for duplicate detection. */
+  @property({ type: Array }) otherNames: string[] = [];
+
+  @state() private draft: SampleKit | null = null;
+  @state() private fileError: string | null = null;
+
+  // FIX: Removed 'override' keyword.
+  willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('kit')) {
+      this.draft = this.kit ? { ...this.kit, samples: { ...this.kit.samples } } : null;
+    }
+  }
+
+  private get error(): string | null {
+    if (!this.draft) return null;
+    const name = this.draft.name.trim();
+    if (!name) return 'A kit needs a name.';
+    if (this.otherNames.some((n) => n.toLowerCase() === name.toLowerCase())) return 'Another kit already uses this name.';
+    if (Object.keys(this.draft.samples).length === 0) return 'Load at least one sample.';
+    return null;
+  }
+
+  private emit(type: string, detail?: unknown) {
+    // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+    (this as any).dispatchEvent(new CustomEvent(type, { detail }));
+  }
+
+  private setSample(instrument: Instrument, sample: Sample | null) {
+    if (!this.draft) return;
+    const samples = { ...this.draft.samples };
+    if (sample) {
+      samples[instrument] = sample;
+    } else {
+      delete samples[instrument];
+    }
+    this.draft = { ...this.draft, samples };
+  }
+
+  private updateSettings(instrument: Instrument, changes: Partial<SampleSettings>) {
+    const sample = this.draft?.samples[instrument];
+    if (sample) this.setSample(instrument, { ...sample, settings: { ...sample.settings, ...changes } });
+  }
+
+  private async handleFile(instrument: Instrument, e: Event) {
+    const input = e.target as HTMLInputElement;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+    if (file.size > MAX_SAMPLE_BYTES) {
+      this.fileError = `"${file.name}" is too large. Use one-shots under ${MAX_SAMPLE_BYTES / 1024 / 1024} MB.`;
+      return;
+    }
+    this.fileError = null;
+    this.setSample(instrument, { fileName: file.name, data: await file.arrayBuffer(), settings: createSampleSettings() });
+  }
+
+  private save() {
+    if (!this.draft || this.error) return;
+    this.emit('kit-save', { ...this.draft, name: this.draft.name.trim() } as SampleKit);
+  }
+
+  private renderSample(instrument: Instrument) {
+    const sample = this.draft?.samples[instrument];
+    const settings = sample?.settings;
+    return html`
+      <li>
+        <div class="row">
+          <span class="instrument">${instrument}</span>
+          <span class="file ${sample ? '' : 'empty'}">${sample?.fileName ?? 'Built-in sound'}</span>
+          <label>
+            <button @click=${(e: Event) => ((e.currentTarget as HTMLElement).nextElementSibling as HTMLInputElement).click()}>Load…</button>
+            <input type="file" accept="audio/*,.wav,.mp3" hidden @change=${(e: Event) => this.handleFile(instrument, e)}>
+          </label>
+          ${sample ? html`
+            <button aria-label=${`Preview ${instrument}`} @click=${() => this.emit('sample-preview', sample)}>▶</button>
+            <button aria-label=${`Remove ${instrument} sample`} @click=${() => this.setSample(instrument, null)}>✕</button>
+          ` : ''}
+        </div>
+        ${settings ? html`
+          <div class="row">
+            Start
+            <input type="range" min="0" max="100" aria-label="Trim start"
+              .value=${String(Math.round(settings.start * 100))}
+              @input=${(e: Event) => this.updateSettings(instrument, {
+                start: Math.min(Number((e.target as HTMLInputElement).value) / 100, settings.end - 0.01),
+              })}>
+            End
+            <input type="range" min="0" max="100" aria-label="Trim end"
+              .value=${String(Math.round(settings.end * 100))}
+              @input=${(e: Event) => this.updateSettings(instrument, {
+                end: Math.max(Number((e.target as HTMLInputElement).value) / 100, settings.start + 0.01),
+              })}>
+          </div>
+          <div class="row">
+            Pitch
+            <input type="range" min=${-MAX_PITCH} max=${MAX_PITCH} aria-label="Pitch in semitones"
+              .value=${String(settings.pitch)}
+              @input=${(e: Event) => this.updateSettings(instrument, { pitch: Number((e.target as HTMLInputElement).value) })}>
+            <span class="value">${settings.pitch > 0 ? '+' : ''}${settings.pitch} st</span>
+            <label>
+              <input type="checkbox" .checked=${settings.reverse}
+                @change=${(e: Event) => this.updateSettings(instrument, { reverse: (e.target as HTMLInputElement).checked })}>
+              Reverse
+            </label>
+          </div>
+        ` : ''}
+      </li>
+    `;
+  }
+
+  // FIX: Removed 'override' keyword.
+  render() {
+    if (!this.draft) return html``;
+    const error = this.error;
+    return html`
+      <div class="overlay" @click=${() => this.emit('close')}>
+        <div class="panel" @click=${(e: Event) => e.stopPropagation()}>
+          <h3>${this.isNew ? 'New Sample Kit' : 'Edit Sample Kit'}</h3>
+          <label>
+            Name
+            <input
+              type="text"
+              .value=${this.draft.name}
+              maxlength=${MAX_NAME_LENGTH}
+              placeholder="e.g. Dusty Breaks"
+              @input=${(e: Event) => this.draft = { ...this.draft!, name: (e.target as HTMLInputElement).value }}>
+          </label>
+          <ul>${ALL_INSTRUMENTS.map((instrument) => this.renderSample(instrument))}</ul>
+          ${this.fileError ? html`<div class="message error">${this.fileError}</div>` : ''}
+          ${error ? html`<div class="message error">${error}</div>` : ''}
+          <div class="actions">
+            ${this.isNew ? '' : html`<button class="danger" @click=${() => this.emit('kit-delete')}>Delete</button>`}
+            <button @click=${() => this.emit('close')}>Cancel</button>
+            <button class="primary" ?disabled=${!!error} @click=${this.save}>Save</button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'sample-kit-editor': SampleKitEditor;
+  }
+}
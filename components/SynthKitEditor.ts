@@ -0,0 +1,306 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { css, html, LitElement } from 'lit';
+import { customElement, property, state } from 'lit/decorators.js';
+
+import type { Instrument } from '../types';
+import { ALL_INSTRUMENTS } from '../utils/music';
+import {
+  type NumericVoiceParam, type SynthKit, VOICE_FILTERS, VOICE_RANGES, VOICE_WAVES, type VoiceFilter, type VoiceParams,
+  type VoiceWave,
+} from '../utils/SynthKit';
+
+const MAX_NAME_LENGTH = 40;
+/** Resolution of the parameter sliders. */
+const SLIDER_STEPS = 1000;
+
+const PARAMS: { key: NumericVoiceParam; label: string; format: (value: number) => string }[] = [
+  { key: 'tune', label: 'Tune', format: (v) => `${Math.round(v)} Hz` },
+  { key: 'sweep', label: 'Sweep', format: (v) => `${Math.round(v * 100)}%` },
+  { key: 'attack', label: 'Attack', format: (v) => `${Math.round(v * 1000)} ms` },
+  { key: 'decay', label: 'Decay', format: (v) => `${Math.round(v * 1000)} ms` },
+  { key: 'tone', label: 'Tone', format: (v) => v >= 1000 ? `${(v / 1000).toFixed(1)} kHz` : `${Math.round(v)} Hz` },
+  { key: 'noise', label: 'Noise', format: (v) => `${Math.round(v * 100)}%` },
+  { key: 'drive', label: 'Drive', format: (v) => `${Math.round(v * 100)}%` },
+  { key: 'level', label: 'Level', format: (v) => `${Math.round(v * 100)}%` },
+  { key: 'flams', label: 'Flams', format: (v) => String(v) },
+];
+
+function toSlider(key: NumericVoiceParam, value: number) {
+  const { min, max, log } = VOICE_RANGES[key];
+  const position = log ? Math.log(value / min) / Math.log(max / min) : (value - min) / (max - min);
+  return Math.round(position * SLIDER_STEPS);
+}
+
+function fromSlider(key: NumericVoiceParam, position: number) {
+  const { min, max, log } = VOICE_RANGES[key];
+  const fraction = position / SLIDER_STEPS;
+  if (key === 'flams') return Math.round(min + (max - min) * fraction);
+  return log ? min * (max / min) ** fraction : min + (max - min) * fraction;
+}
+
+/** Modal for designing a kit of synthesized voices, one per instrument. */
+@customElement('synth-kit-editor')
+export class SynthKitEditor extends LitElement {
+  // FIX: Removed 'override' keyword.
+  static styles = css`
+    .overlay {
+      position: fixed;
+      inset: 0;
+      background: rgba(0, 0, 0, 0.6);
+      backdrop-filter: blur(5px);
+      -webkit-backdrop-filter: blur(5px);
+      display: flex;
+      align-items: center;
+      justify-content: center;
+      z-index: 1000;
+    }
+    .panel {
+      background: rgba(28, 18, 41, 0.85);
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 18px;
+      padding: 25px 30px;
+      max-width: 640px;
+      width: 90%;
+      max-height: 85vh;
+      overflow-y: auto;
+      box-shadow: 0 8px 32px rgba(0, 0, 0, 0.4);
+      color: white;
+      font-family: 'Inter', sans-serif;
+      display: flex;
+      flex-direction: column;
+      gap: 15px;
+    }
+    h3 {
+      margin: 0;
+      font-size: 1.8em;
+      background: linear-gradient(45deg, #ff25f6, #2af6de);
+      -webkit-background-clip: text;
+      -webkit-text-fill-color: transparent;
+    }
+    label {
+      font-size: 0.9em;
+      font-weight: 500;
+    }
+    input[type="text"] {
+      width: 100%;
+      box-sizing: border-box;
+      background: rgba(0, 0, 0, 0.3);
+      color: white;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 8px 10px;
+      font-family: inherit;
+      font-size: 1em;
+      margin-top: 6px;
+    }
+    input[type="range"] {
+      accent-color: #9900ff;
+      flex-grow: 1;
+      min-width: 0;
+    }
+    select {
+      background: rgba(0, 0, 0, 0.3);
+      color: white;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 6px;
+      padding: 3px 6px;
+      font-family: inherit;
+    }
+    ul {
+      list-style: none;
+      padding: 0;
+      margin: 0;
+      display: flex;
+      flex-direction: column;
+      gap: 8px;
+    }
+    li {
+      padding: 8px 10px;
+      border-radius: 8px;
+      background: rgba(0, 0, 0, 0.2);
+      display: flex;
+      flex-direction: column;
+      gap: 6px;
+    }
+    .row {
+      display: flex;
+      align-items: center;
+      gap: 8px;
+      font-size: 0.85em;
+    }
+    .params {
+      display: grid;
+      grid-template-columns: 1fr 1fr;
+      gap: 4px 16px;
+    }
+    .instrument {
+      font-weight: 600;
+      text-transform: capitalize;
+      min-width: 60px;
+      flex-grow: 1;
+    }
+    .param-label {
+      width: 44px;
+    }
+    .value {
+      width: 56px;
+      text-align: right;
+      font-family: monospace;
+    }
+    .message {
+      font-size: 0.85em;
+      line-height: 1.4;
+      padding: 8px 10px;
+      border-radius: 6px;
+    }
+    .message.error {
+      background: rgba(218, 32, 0, 0.3);
+    }
+    .actions {
+      display: flex;
+      gap: 8px;
+      flex-wrap: wrap;
+    }
+    button {
+      background: rgba(255, 255, 255, 0.1);
+      color: white;
+      border: 1px solid rgba(255, 255, 255, 0.2);
+      border-radius: 8px;
+      padding: 8px 15px;
+      font-size: 0.9em;
+      font-weight: 500;
+      cursor: pointer;
+    }
+    .row button {
+      padding: 4px 10px;
+      font-size: 0.9em;
+    }
+    button:hover:not(:disabled) {
+      background: rgba(255, 255, 255, 0.2);
+    }
+    button:disabled {
+      opacity: 0.5;
+      cursor: not-allowed;
+    }
+    button.primary {
+      background: white;
+      color: #0D0B12;
+      font-weight: 600;
+      margin-left: auto;
+    }
+    button.danger {
+      background: rgba(218, 32, 0, 0.3);
+      border-color: rgba(218, 32, 0, 0.5);
+    }
+  `;
+
+  @property({ type: Boolean }) isNew = false;
+  @property({ type: Object }) kit: SynthKit | null = null;
+  /** Names of the other kits, for duplicate detection. */
+  @property({ type: Array }) otherNames: string[] = [];
+
+  @state() private draft: SynthKit | null = null;
+
+  // FIX: Removed 'override' keyword.
+  willUpdate(changedProperties: Map<string, unknown>) {
+    if (changedProperties.has('kit')) {
+      this.draft = this.kit ? { ...this.kit, voices: { ...this.kit.voices } } : null;
+    }
+  }
+
+  private get error(): string | null {
+    if (!this.draft) return null;
+    const name = this.draft.name.trim();
+    if (!name) return 'A kit needs a name.';
+    if (this.otherNames.some((n) => n.toLowerCase() === name.toLowerCase())) return 'Another kit already uses this name.';
+    return null;
+  }
+
+  private emit(type: string, detail?: unknown) {
+    // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+    (this as any).dispatchEvent(new CustomEvent(type, { detail }));
+  }
+
+  private updateVoice(instrument: Instrument, changes: Partial<VoiceParams>) {
+    if (!this.draft) return;
+    const voices = { ...this.draft.voices, [instrument]: { ...this.draft.voices[instrument], ...changes } };
+    this.draft = { ...this.draft, voices };
+  }
+
+  private save() {
+    if (!this.draft || this.error) return;
+    this.emit('kit-save', { ...this.draft, name: this.draft.name.trim() } as SynthKit);
+  }
+
+  private renderVoice(instrument: Instrument) {
+    const voice = this.draft!.voices[instrument];
+    return html`
+      <li>
+        <div class="row">
+          <span class="instrument">${instrument}</span>
+          <select aria-label="Body waveform"
+            @change=${(e: Event) => this.updateVoice(instrument, { wave: (e.target as HTMLSelectElement).value as VoiceWave })}>
+            ${VOICE_WAVES.map((wave) => html`<option .value=${wave} ?selected=${wave === voice.wave}>${wave}</option>`)}
+          </select>
+          <select aria-label="Noise filter"
+            @change=${(e: Event) => this.updateVoice(instrument, { filter: (e.target as HTMLSelectElement).value as VoiceFilter })}>
+            ${VOICE_FILTERS.map((filter) => html`<option .value=${filter} ?selected=${filter === voice.filter}>${filter}</option>`)}
+          </select>
+          <button aria-label=${`Preview ${instrument}`} @click=${() => this.emit('voice-preview', voice)}>▶</button>
+        </div>
+        <div class="params">
+          ${PARAMS.map(({ key, label, format }) => html`
+            <div class="row">
+              <span class="param-label">${label}</span>
+              <input type="range" min="0" max=${SLIDER_STEPS} aria-label=${`${instrument} ${label}`}
+                step=${key === 'flams' ? SLIDER_STEPS / VOICE_RANGES.flams.max : 1}
+                .value=${String(toSlider(key, voice[key]))}
+                @input=${(e: Event) => this.updateVoice(instrument, {
+                  [key]: fromSlider(key, Number((e.target as HTMLInputElement).value)),
+                })}>
+              <span class="value">${format(voice[key])}</span>
+            </div>
+          `)}
+        </div>
+      </li>
+    `;
+  }
+
+  // FIX: Removed 'override' keyword.
+  render() {
+    if (!this.draft) return html``;
+    const error = this.error;
+    return html`
+      <div class="overlay" @click=${() => this.emit('close')}>
+        <div class="panel" @click=${(e: Event) => e.stopPropagation()}>
+          <h3>${this.isNew ? 'New Synth Kit' : 'Edit Synth Kit'}</h3>
+          <label>
+            Name
+            <input
+              type="text"
+              .value=${this.draft.name}
+              maxlength=${MAX_NAME_LENGTH}
+              placeholder="e.g. Crunchy 909"
+              @input=${(e: Event) => this.draft = { ...this.draft!, name: (e.target as HTMLInputElement).value }}>
+          </label>
+          <ul>${ALL_INSTRUMENTS.map((instrument) => this.renderVoice(instrument))}</ul>
+          ${error ? html`<div class="message error">${error}</div>` : ''}
+          <div class="actions">
+            ${this.isNew ? '' : html`<button class="danger" @click=${() => this.emit('kit-delete')}>Delete</button>`}
+            <button @click=${() => this.emit('close')}>Cancel</button>
+            <button class="primary" ?disabled=${!!error} @click=${this.save}>Save</button>
+          </div>
+        </div>
+      </div>
+    `;
+  }
+}
+
+declare global {
+  interface HTMLElementTagNameMap {
+    'synth-kit-editor': SynthKitEditor;
+  }
+}
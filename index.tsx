@@ -4,21 +4,44 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import type { PlaybackState, Prompt } from './types';
-import { GoogleGenAI, LiveMusicFilteredPrompt } from '@google/genai';
+import type { BufferStats, ConnectionStatus, FilteredPrompt, MusicConfig, PlaybackState, Prompt } from './types';
+import { GoogleGenAI } from '@google/genai';
 import { MusicStudio } from './components/PromptDjMidi';
 import { ToastMessage } from './components/ToastMessage';
 import { LiveMusicHelper } from './utils/LiveMusicHelper';
+import { LyriaBackend } from './utils/LyriaBackend';
+import { OfflineMusicBackend } from './utils/OfflineMusicBackend';
 import { AudioAnalyser } from './utils/AudioAnalyser';
+import { Transport } from './utils/Transport';
+import { SessionRecorder } from './utils/SessionRecorder';
+import { Mixer } from './utils/Mixer';
+import { PerformanceFx } from './utils/PerformanceFx';
+import { createProject } from './utils/Project';
+import { ProjectStore } from './utils/ProjectStore';
+import { SampleKitStore } from './utils/SampleKitStore';
+import { SynthKitStore } from './utils/SynthKitStore';
 
-// FIX: Corrected Gemini API initialization to use process.env.API_KEY and removed apiVersion.
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 const model = 'lyria-realtime-exp';
 
+declare global {
+  interface Window {
+    /** The offline generator, when it is in use, for simulating filtering and outages from the console. */
+    offlineMusic?: OfflineMusicBackend;
+  }
+}
+
 function main() {
-  const initialPrompts = buildInitialPrompts();
+  const projectStore = new ProjectStore();
+  const initialProject = projectStore.loadAutosave() ?? createProject(buildInitialPrompts().values());
+
+  // One clock and AudioContext shared by the launchpad and the beatmaker.
+  const transport = new Transport();
+  const recorder = new SessionRecorder(transport.audioContext);
+  const mixer = new Mixer(transport);
+  const performanceFx = new PerformanceFx(transport);
 
-  const musicStudio = new MusicStudio(initialPrompts);
+  const musicStudio = new MusicStudio(
+    initialProject, transport, recorder, mixer, performanceFx, projectStore, new SampleKitStore(), new SynthKitStore());
   // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
   document.body.appendChild(musicStudio as any);
 
@@ -26,7 +49,19 @@ function main() {
   // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
   document.body.appendChild(toastMessage as any);
 
-  const liveMusicHelper = new LiveMusicHelper(ai, model);
+  // Without an API key, or with ?offline, the music comes from a generator in the browser instead of Lyria.
+  const hasApiKey = !!process.env.API_KEY;
+  const offlineMusic = !hasApiKey || new URLSearchParams(location.search).has('offline') ? new OfflineMusicBackend() : null;
+  if (offlineMusic) window.offlineMusic = offlineMusic;
+  // FIX: Corrected Gemini API initialization to use process.env.API_KEY and removed apiVersion.
+  const backend = offlineMusic ?? new LyriaBackend(new GoogleGenAI({ apiKey: process.env.API_KEY }), model);
+  if (!hasApiKey) toastMessage.show('No Gemini API key is set, so the music comes from the offline generator.');
+  musicStudio.musicBackend = backend.name;
+  const liveMusicHelper = new LiveMusicHelper(backend, transport);
+  liveMusicHelper.output.disconnect();
+  liveMusicHelper.output.connect(performanceFx.input);
+  recorder.addSource('launchpad', mixer.addChannel('launchpad', performanceFx.output, transport.audioContext.destination));
+  recorder.addSource('aux', mixer.returns);
 
   const audioAnalyser = new AudioAnalyser(liveMusicHelper.audioContext);
   liveMusicHelper.extraDestination = audioAnalyser.node;
@@ -38,6 +73,16 @@ function main() {
     liveMusicHelper.setWeightedPrompts(prompts);
   }));
 
+  // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+  (musicStudio as any).addEventListener('music-config-changed', ((e: Event) => {
+    liveMusicHelper.setMusicConfig((e as CustomEvent<MusicConfig>).detail);
+  }));
+
+  // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
+  (musicStudio as any).addEventListener('new-project', () => {
+    musicStudio.loadProject(createProject(buildInitialPrompts().values()));
+  });
+
   // FIX: Cast to any to fix incorrect type inference for LitElement custom elements.
   (musicStudio as any).addEventListener('play-pause', () => {
     liveMusicHelper.playPause();
@@ -50,11 +95,19 @@ function main() {
     playbackState === 'playing' ? audioAnalyser.start() : audioAnalyser.stop();
   }));
 
+  liveMusicHelper.addEventListener('connection-status-changed', ((e: Event) => {
+    musicStudio.connectionStatus = (e as CustomEvent<ConnectionStatus>).detail;
+  }));
+
+  liveMusicHelper.addEventListener('buffer-stats', ((e: Event) => {
+    musicStudio.bufferStats = (e as CustomEvent<BufferStats>).detail;
+  }));
+
   liveMusicHelper.addEventListener('filtered-prompt', ((e: Event) => {
-    const customEvent = e as CustomEvent<LiveMusicFilteredPrompt>;
+    const customEvent = e as CustomEvent<FilteredPrompt>;
     const filteredPrompt = customEvent.detail;
-    toastMessage.show(filteredPrompt.filteredReason!)
-    musicStudio.addFilteredPrompt(filteredPrompt.text!);
+    toastMessage.show(filteredPrompt.reason)
+    musicStudio.addFilteredPrompt(filteredPrompt.text);
   }));
 
   const errorToast = ((e: Event) => {
@@ -75,6 +128,7 @@ function main() {
 
 }
 
+/** The pads every new project starts with. */
 function buildInitialPrompts() {
   const prompts = new Map<string, Prompt>();
 
@@ -7,6 +7,10 @@ export interface Prompt {
   text: string;
   weight: number;
   cc: number;
+  /** MIDI note learned for the pad, if any. */
+  note?: number;
+  /** MIDI channel (0-15) the cc or note was learned on; absent matches any channel. */
+  channel?: number;
   color: string;
 }
 
@@ -16,4 +20,168 @@ export interface ControlChange {
   value: number;
 }
 
+export interface NoteOn {
+  channel: number;
+  note: number;
+  velocity: number;
+}
+
+export interface NoteOff {
+  channel: number;
+  note: number;
+  /** Release velocity; 0 when the note was ended by a zero-velocity Note On. */
+  velocity: number;
+}
+
+export interface ProgramChange {
+  channel: number;
+  program: number;
+}
+
+export interface PitchBend {
+  channel: number;
+  /** Signed bend amount from -8192 to 8191, 0 being centered. */
+  value: number;
+}
+
+export interface ChannelPressure {
+  channel: number;
+  pressure: number;
+}
+
+/** Receive time of a clock or transport message, in performance.now() milliseconds. */
+export interface MidiTimestamp {
+  timeStamp: number;
+}
+
+export interface SongPosition {
+  /** Position in MIDI beats (sixteenth notes) since the start of the song. */
+  position: number;
+}
+
+export type Instrument = 'kick' | 'snare' | 'hat' | 'clap' | 'tom' | 'cymbal';
+
+/** One step of an instrument's beatmaker pattern. */
+export interface Step {
+  active: boolean;
+  /** Hit level from 0 to 1. */
+  velocity: number;
+  accent: boolean;
+  /** Chance from 0 to 1 that the step plays on each pass of the loop. */
+  probability: number;
+  /** Number of hits spread evenly over the step, from 1 to 4. */
+  ratchet: number;
+}
+
+/** Steps for every instrument; one slot of the beatmaker's pattern bank. */
+export type DrumPattern = { [key in Instrument]: Step[] };
+
+/** One part of a song: a pattern from the bank played for a number of bars. */
+export interface ArrangementEntry {
+  pattern: number;
+  repeats: number;
+}
+
+/** Time signature and step resolution of the beatmaker. */
+export interface Meter {
+  beatsPerBar: number;
+  /** Note value of a beat: 4 for quarter notes, 8 for eighths. */
+  beatUnit: 4 | 8;
+  /** Sequencer steps per beat; 3 and 6 give triplets, 5 and 7 odd tuplets. */
+  stepsPerBeat: number;
+}
+
+/** Timing feel applied to the beatmaker's patterns as they play. */
+export interface Groove {
+  /** Where off-beats fall between their neighbours, from 50% (straight) to 75% (hard shuffle). */
+  swing: number;
+  /** Whether swing delays every other 8th or every other 16th note. */
+  swingGrid: 8 | 16;
+  /** Per-instrument timing offsets in milliseconds; negative plays early. */
+  nudge: { [key in Instrument]: number };
+  /** Amount of random timing and velocity variation, from 0 to 100%. */
+  humanize: number;
+}
+
+/** A mixer channel: one per drum instrument, plus the launchpad's AI stream. */
+export type MixerChannel = Instrument | 'launchpad';
+
+export type EffectType = 'reverb' | 'delay' | 'filter' | 'compressor' | 'bitcrusher';
+
+/** One effect in a channel's insert chain or on an aux bus. */
+export interface EffectSettings {
+  id: string;
+  type: EffectType;
+  /** Bypassed effects pass their input through untouched. */
+  enabled: boolean;
+  /** Parameter values by key; choices are stored as their index. */
+  params: { [param: string]: number };
+}
+
+export interface ChannelSettings {
+  /** Fader level, 1 being unity gain. */
+  gain: number;
+  /** Stereo position from -1 (left) to 1 (right). */
+  pan: number;
+  mute: boolean;
+  solo: boolean;
+  /** Post-fader level sent to each aux bus. */
+  sends: number[];
+  /** Effects the channel passes through before its fader, in order. */
+  inserts: EffectSettings[];
+}
+
+/** A shared bus that channels send to, usually for reverb or delay. */
+export interface AuxSettings {
+  /** Return level into the mix. */
+  level: number;
+  effects: EffectSettings[];
+}
+
+export interface MixerSettings {
+  channels: { [key in MixerChannel]: ChannelSettings };
+  aux: AuxSettings[];
+}
+
+/** How the AI music is generated, apart from the prompts, tempo, key and scale. */
+export interface GenerationSettings {
+  /** From 0 (sparse) to 1 (busy), or null to leave it to the model. */
+  density: number | null;
+  /** From 0 (dark) to 1 (bright), or null to leave it to the model. */
+  brightness: number | null;
+  /** How closely the music follows the prompts, 0 to 6. */
+  guidance: number;
+  /** How much the music varies, 0 to 3. */
+  temperature: number;
+  /** Fixed seed for repeatable results, or null for a random one. */
+  seed: number | null;
+}
+
+/** Everything the music session plays by, besides the prompts. */
+export interface MusicConfig extends GenerationSettings {
+  bpm: number;
+  key: string;
+  scale: string;
+}
+
 export type PlaybackState = 'stopped' | 'playing' | 'loading' | 'paused';
+
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting';
+
+/** How well the AI stream's buffer keeps up with the connection. */
+export interface BufferStats {
+  /** Audio scheduled ahead of the playhead (s). */
+  level: number;
+  /** Latency the buffer aims for (s). */
+  target: number;
+  /** Smoothed variation in when chunks arrive (s). */
+  jitter: number;
+  /** Dropouts covered since playback started. */
+  underruns: number;
+}
+
+/** A prompt the music backend refused to play, and why. */
+export interface FilteredPrompt {
+  text: string;
+  reason: string;
+}
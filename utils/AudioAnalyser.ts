@@ -2,6 +2,15 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import type { ArrangementEntry, DrumPattern, Groove, Instrument, Meter, Step } from '../types';
+import { ALL_INSTRUMENTS } from './music';
+import {
+    barLength, createDrumPattern, createGroove, createMeter, HUMANIZE_LEVEL, HUMANIZE_TIME, PATTERN_SLOTS, stepLevel,
+    stepsPerQuarter, swingOffset,
+} from './Pattern';
+import type { SampleVoice } from './SampleKit';
+import { SYNTH_PRESETS, SynthVoice, type SynthVoices } from './SynthKit';
+import type { Transport } from './Transport';
 
 /** Simple audio analyser for visualizing audio levels. */
 export class AudioAnalyser extends EventTarget {
@@ -39,136 +48,146 @@ export class AudioAnalyser extends EventTarget {
   }
 }
 
-type Instrument = 'kick' | 'snare' | 'hat' | 'clap' | 'tom' | 'cymbal';
-
 /** A simple drum machine using Web Audio API. */
 export class DrumMachine extends EventTarget {
+    private transport: Transport;
     private audioContext: AudioContext;
     private masterGain: GainNode;
+    /** One output per instrument, so each can get its own mixer channel before the master gain. */
+    private tracks = {} as { [key in Instrument]: GainNode };
     private tempo = 120;
     private nextNoteTime = 0.0;
-    private currentStep = 0;
+    /** Steps since playback started. */
+    private position = 0;
+    /** Position the playing pattern started at; each track loops on its own length from here. */
+    private patternStart = 0;
     private timerId: number | null = null;
     private lookahead = 25.0; // How frequently to call scheduler (ms)
     private scheduleAheadTime = 0.1; // How far ahead to schedule audio (s)
-    private loopLength = 16;
-
-    private patterns: { [key in Instrument]: boolean[] } = {
-        kick: Array(16).fill(false),
-        snare: Array(16).fill(false),
-        hat: Array(16).fill(false),
-        clap: Array(16).fill(false),
-        tom: Array(16).fill(false),
-        cymbal: Array(16).fill(false),
-    };
-
-    private kits: { [key: string]: { [key in Instrument]: (time: number) => void } };
+    private meter: Meter = createMeter();
+
+    private patternBank: DrumPattern[] = PATTERN_SLOTS.map(() => createDrumPattern(16));
+    private playingPattern = 0;
+    private queuedPattern: number | null = null;
+    private arrangement: ArrangementEntry[] = [];
+    private songMode = false;
+    /** Index of the arrangement entry playing, or -1 before the song starts. */
+    private songPosition = -1;
+    /** Bars played of the current arrangement entry. */
+    private barsPlayed = 0;
+    private groove: Groove = createGroove();
+
+    private kits: { [key: string]: { [key in Instrument]: (time: number, level?: number) => void } } = {};
     private selectedKit = 'Electronic';
 
-    constructor() {
+    constructor(transport: Transport) {
         super();
-        // FIX: Cast window to `any` to access vendor-prefixed webkitAudioContext.
-        this.audioContext = new (window.AudioContext || (window as any).webkitAudioContext)();
+        this.transport = transport;
+        this.audioContext = transport.audioContext;
         this.masterGain = this.audioContext.createGain();
         this.masterGain.connect(this.audioContext.destination);
+        for (const instrument of ALL_INSTRUMENTS) {
+            this.tracks[instrument] = this.audioContext.createGain();
+            this.tracks[instrument].connect(this.masterGain);
+        }
 
-        this.kits = {
-            'Electronic': {
-                kick: this.playElectronicKick.bind(this),
-                snare: this.playElectronicSnare.bind(this),
-                hat: this.playElectronicHat.bind(this),
-                clap: this.playElectronicClap.bind(this),
-                tom: this.playElectronicTom.bind(this),
-                cymbal: this.playElectronicCymbal.bind(this),
-            },
-            '808': {
-                kick: this.play808Kick.bind(this),
-                snare: this.play808Snare.bind(this),
-                hat: this.play808Hat.bind(this),
-                clap: this.play808Clap.bind(this),
-                tom: this.play808Tom.bind(this),
-                cymbal: this.play808Cymbal.bind(this),
-            },
-            'Acoustic': {
-                kick: this.playAcousticKick.bind(this),
-                snare: this.playAcousticSnare.bind(this),
-                hat: this.playAcousticHat.bind(this),
-                clap: this.playAcousticClap.bind(this),
-                tom: this.playAcousticTom.bind(this),
-                cymbal: this.playAcousticCymbal.bind(this),
-            },
-            'Rock': {
-                kick: this.playRockKick.bind(this),
-                snare: this.playRockSnare.bind(this),
-                hat: this.playRockHat.bind(this),
-                clap: this.playAcousticClap.bind(this),
-                tom: this.playRockTom.bind(this),
-                cymbal: this.playRockCymbal.bind(this),
-            },
-            'Jazz': {
-                kick: this.playJazzKick.bind(this),
-                snare: this.playJazzSnare.bind(this),
-                hat: this.playJazzHat.bind(this),
-                clap: this.playAcousticClap.bind(this),
-                tom: this.playJazzTom.bind(this),
-                cymbal: this.playJazzCymbal.bind(this),
-            },
-            'Funk': {
-                kick: this.playFunkKick.bind(this),
-                snare: this.playFunkSnare.bind(this),
-                hat: this.playFunkHat.bind(this),
-                clap: this.playAcousticClap.bind(this),
-                tom: this.playFunkTom.bind(this),
-                cymbal: this.playRockCymbal.bind(this),
-            },
-            'Brush': {
-                kick: this.playBrushKick.bind(this),
-                snare: this.playBrushSnare.bind(this),
-                hat: this.playBrushHat.bind(this),
-                clap: this.playAcousticClap.bind(this),
-                tom: this.playBrushTom.bind(this),
-                cymbal: this.playBrushCymbal.bind(this),
-            },
-            'Studio': {
-                kick: this.playStudioKick.bind(this),
-                snare: this.playStudioSnare.bind(this),
-                hat: this.playStudioHat.bind(this),
-                clap: this.playAcousticClap.bind(this),
-                tom: this.playStudioTom.bind(this),
-                cymbal: this.playAcousticCymbal.bind(this),
-            }
-        };
+        for (const [name, voices] of Object.entries(SYNTH_PRESETS)) {
+            this.setSynthKit(name, voices);
+        }
     }
 
-    private scheduleNote(beatNumber: number, time: number) {
-        const kit = this.kits[this.selectedKit];
-        if (this.patterns.kick[beatNumber]) kit.kick(time);
-        if (this.patterns.snare[beatNumber]) kit.snare(time);
-        if (this.patterns.hat[beatNumber]) kit.hat(time);
-        if (this.patterns.clap[beatNumber]) kit.clap(time);
-        if (this.patterns.tom[beatNumber]) kit.tom(time);
-        if (this.patterns.cymbal[beatNumber]) kit.cymbal(time);
+    /** The drum machine's master output, before it reaches the speakers. */
+    public get output(): AudioNode {
+        return this.masterGain;
+    }
+
+    /** An instrument's output, which feeds the master gain unless rerouted. */
+    public trackOutput(instrument: Instrument): AudioNode {
+        return this.tracks[instrument];
+    }
+
+    private get stepDuration() {
+        return (60.0 / this.tempo) / stepsPerQuarter(this.meter);
+    }
+
+    private scheduleNote(time: number) {
+        const kit = this.currentKit;
+        const stepDuration = this.stepDuration;
+        const stepTime = time + swingOffset(this.groove, this.position % barLength(this.meter), stepDuration);
+        const humanize = this.groove.humanize / 100;
+        const pattern = this.patternBank[this.playingPattern];
+        const patternStep = this.position - this.patternStart;
+        for (const instrument of ALL_INSTRUMENTS) {
+            // Tracks of different lengths drift against each other for polymeters.
+            const steps = pattern[instrument];
+            const step = steps[patternStep % steps.length];
+            if (!step?.active || Math.random() >= step.probability) continue;
+            const trackTime = stepTime + this.groove.nudge[instrument] / 1000;
+            // Ratchets split the step into evenly spaced repeats.
+            for (let hit = 0; hit < step.ratchet; hit++) {
+                const hitTime = trackTime + hit * (stepDuration / step.ratchet)
+                    + (Math.random() * 2 - 1) * humanize * HUMANIZE_TIME;
+                const level = stepLevel(step) * (1 + (Math.random() * 2 - 1) * humanize * HUMANIZE_LEVEL);
+                kit[instrument](Math.max(hitTime, this.audioContext.currentTime), level);
+            }
+        }
     }
     
     private nextNote() {
-        const secondsPerBeat = 60.0 / this.tempo;
-        // 16th notes
-        this.nextNoteTime += 0.25 * secondsPerBeat; 
-        this.currentStep = (this.currentStep + 1) % this.loopLength;
-        this.dispatchEvent(new CustomEvent('step', { detail: this.currentStep }));
+        this.nextNoteTime += this.stepDuration;
+        this.position++;
+        if (this.position % barLength(this.meter) === 0) this.advanceBar();
+        this.dispatchStep();
+    }
+
+    /** Reports steps since the pattern started; each track's playhead is this modulo its length. */
+    private dispatchStep() {
+        this.dispatchEvent(new CustomEvent('step', { detail: this.position - this.patternStart }));
+    }
+
+    /** Moves the song on, or switches to a queued pattern, at a bar line. */
+    private advanceBar() {
+        if (this.songMode && this.arrangement.length > 0) {
+            const entry = this.arrangement[this.songPosition];
+            if (entry && ++this.barsPlayed < entry.repeats) return;
+            this.barsPlayed = 0;
+            this.songPosition = (this.songPosition + 1) % this.arrangement.length;
+            this.switchPattern(this.arrangement[this.songPosition].pattern);
+        } else if (this.queuedPattern !== null) {
+            this.switchPattern(this.queuedPattern);
+        }
+    }
+
+    /** Goes back to the top of the song, or of the selected pattern. */
+    private rewind() {
+        this.position = 0;
+        this.patternStart = 0;
+        this.songPosition = -1;
+        this.barsPlayed = 0;
+        this.advanceBar();
+    }
+
+    private switchPattern(slot: number) {
+        this.playingPattern = slot;
+        this.queuedPattern = null;
+        this.patternStart = this.position;
+        this.dispatchEvent(new CustomEvent('pattern-changed', {
+            detail: { pattern: slot, songPosition: this.songMode ? this.songPosition : null },
+        }));
     }
 
     private scheduler() {
         while (this.nextNoteTime < this.audioContext.currentTime + this.scheduleAheadTime) {
-            this.scheduleNote(this.currentStep, this.nextNoteTime);
+            this.scheduleNote(this.nextNoteTime);
             this.nextNote();
         }
     }
 
     public start() {
         if (this.timerId) return;
-        this.currentStep = 0;
-        this.nextNoteTime = this.audioContext.currentTime;
+        this.rewind();
+        this.nextNoteTime = this.transport.join('beatmaker');
+        this.dispatchEvent(new CustomEvent<number>('started', { detail: this.nextNoteTime }));
         this.scheduler(); // Call it once to kick it off
         this.timerId = window.setInterval(() => this.scheduler(), this.lookahead);
     }
@@ -177,22 +196,43 @@ export class DrumMachine extends EventTarget {
         if (this.timerId) {
             clearInterval(this.timerId);
             this.timerId = null;
+            this.transport.leave('beatmaker');
+            this.dispatchEvent(new CustomEvent('stopped'));
+        }
+    }
+
+    /**
+     * Plays one step, counted from the start of the song, at the given time,
+     * for an external clock driving the sequencer instead of the internal scheduler.
+     */
+    public scheduleStep(step: number, time: number) {
+        if (step === 0) {
+            this.rewind();
+        } else {
+            this.position = step;
+            // A song position jump can land before the pattern's start.
+            if (this.patternStart > step) this.patternStart = 0;
+            if (step % barLength(this.meter) === 0) this.advanceBar();
         }
+        this.scheduleNote(Math.max(time, this.audioContext.currentTime));
+        this.dispatchStep();
+    }
+
+    /** Steps per quarter note, for clocks that count in quarters. */
+    public get stepsPerQuarter(): number {
+        return stepsPerQuarter(this.meter);
     }
     
     public resumeContext() {
-        if (this.audioContext.state === 'suspended') {
-            this.audioContext.resume();
-        }
+        this.transport.resume();
     }
 
     public setTempo(newTempo: number) {
         this.tempo = newTempo;
     }
 
-    public setLoopLength(length: number) {
-        this.loopLength = length;
-        this.currentStep = this.currentStep % this.loopLength;
+    public setMeter(meter: Meter) {
+        this.meter = meter;
     }
 
     public setVolume(volume: number) {
@@ -205,547 +245,95 @@ export class DrumMachine extends EventTarget {
         this.selectedKit = kitName;
     }
 
-    public updatePattern(instrument: Instrument, pattern: boolean[]) {
-        this.patterns[instrument] = pattern;
+    public setGroove(groove: Groove) {
+        this.groove = groove;
     }
 
-    // --- Sound synthesis methods ---
+    public updatePattern(slot: number, instrument: Instrument, pattern: Step[]) {
+        this.patternBank[slot][instrument] = pattern;
+    }
 
-    private createNoiseBuffer() {
-        const bufferSize = this.audioContext.sampleRate;
-        const buffer = this.audioContext.createBuffer(1, bufferSize, this.audioContext.sampleRate);
-        const output = buffer.getChannelData(0);
-        for (let i = 0; i < bufferSize; i++) {
-            output[i] = Math.random() * 2 - 1;
+    /** Replaces every slot of the pattern bank. */
+    public setPatternBank(bank: DrumPattern[]) {
+        this.patternBank = bank.map((pattern) => ({ ...pattern }));
+    }
+
+    /** Plays a pattern from the next step. */
+    public selectPattern(slot: number) {
+        this.switchPattern(slot);
+    }
+
+    /** Switches to a pattern at the next bar line, or cancels the switch when passed null. */
+    public queuePattern(slot: number | null) {
+        this.queuedPattern = slot;
+    }
+
+    public setArrangement(arrangement: ArrangementEntry[]) {
+        this.arrangement = arrangement;
+        if (this.songPosition >= arrangement.length) this.songPosition = -1;
+    }
+
+    /** In song mode the arrangement chooses the pattern, starting over at its next bar line. */
+    public setSongMode(songMode: boolean) {
+        this.songMode = songMode;
+        this.songPosition = -1;
+        this.barsPlayed = 0;
+    }
+
+    /** Plays a single hit right away, e.g. from a MIDI pad, at a gain from 0 to 1. */
+    public trigger(instrument: Instrument, level = 1) {
+        this.transport.resume();
+        this.currentKit[instrument](this.audioContext.currentTime, level);
+    }
+
+    /** The selected kit, or the Electronic kit while a sample kit is still loading. */
+    private get currentKit() {
+        return this.kits[this.selectedKit] ?? this.kits['Electronic'];
+    }
+
+    /**
+     * Adds or replaces a kit of user samples under `id`. Instruments without
+     * a sample keep the Electronic kit's voices.
+     */
+    public setSampleKit(id: string, voices: { [key in Instrument]?: SampleVoice }) {
+        const electronic = this.kits['Electronic'];
+        const kit = {} as { [key in Instrument]: (time: number, level?: number) => void };
+        for (const instrument of ALL_INSTRUMENTS) {
+            const voice = voices[instrument];
+            kit[instrument] = voice
+                ? (time, level = 1) => voice.play(time, this.createVoiceOutput(level, this.tracks[instrument]))
+                : electronic[instrument];
         }
-        const noise = this.audioContext.createBufferSource();
-        noise.buffer = buffer;
-        noise.loop = true;
-        return noise;
-    }
-
-    // Electronic Kit
-    private playElectronicKick(time: number) {
-        const osc = this.audioContext.createOscillator();
-        const gain = this.audioContext.createGain();
-        osc.connect(gain);
-        gain.connect(this.masterGain);
-        osc.frequency.setValueAtTime(150, time);
-        gain.gain.setValueAtTime(1, time);
-        osc.frequency.exponentialRampToValueAtTime(0.01, time + 0.1);
-        gain.gain.exponentialRampToValueAtTime(0.01, time + 0.1);
-        osc.start(time);
-        osc.stop(time + 0.1);
-    }
-
-    private playElectronicSnare(time: number) {
-        const noise = this.createNoiseBuffer();
-        const noiseFilter = this.audioContext.createBiquadFilter();
-        noiseFilter.type = 'highpass';
-        noiseFilter.frequency.value = 1000;
-        noise.connect(noiseFilter);
-        const noiseEnvelope = this.audioContext.createGain();
-        noiseFilter.connect(noiseEnvelope);
-        noiseEnvelope.connect(this.masterGain);
-        noiseEnvelope.gain.setValueAtTime(1, time);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.01, time + 0.2);
-        noise.start(time);
-        noise.stop(time + 0.2);
-    }
-
-    private playElectronicHat(time: number) {
-        const noise = this.createNoiseBuffer();
-        const noiseFilter = this.audioContext.createBiquadFilter();
-        noiseFilter.type = 'highpass';
-        noiseFilter.frequency.value = 7000;
-        noise.connect(noiseFilter);
-        const noiseEnvelope = this.audioContext.createGain();
-        noiseFilter.connect(noiseEnvelope);
-        noiseEnvelope.connect(this.masterGain);
-        noiseEnvelope.gain.setValueAtTime(1, time);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.01, time + 0.05);
-        noise.start(time);
-        noise.stop(time + 0.05);
-    }
-
-    private playElectronicClap(time: number) {
-        const noise = this.createNoiseBuffer();
-        const noiseFilter = this.audioContext.createBiquadFilter();
-        noiseFilter.type = 'bandpass';
-        noiseFilter.frequency.value = 1500;
-        noise.connect(noiseFilter);
-        const noiseEnvelope = this.audioContext.createGain();
-        noiseFilter.connect(noiseEnvelope);
-        noiseEnvelope.connect(this.masterGain);
-        noiseEnvelope.gain.setValueAtTime(1, time);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.1, time + 0.02);
-        noiseEnvelope.gain.setValueAtTime(1, time + 0.025);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.01, time + 0.15);
-        noise.start(time);
-        noise.stop(time + 0.15);
-    }
-
-    private playElectronicTom(time: number) {
-        const osc = this.audioContext.createOscillator();
-        const gain = this.audioContext.createGain();
-        osc.type = 'sine';
-        osc.connect(gain);
-        gain.connect(this.masterGain);
-        osc.frequency.setValueAtTime(250, time);
-        osc.frequency.exponentialRampToValueAtTime(100, time + 0.2);
-        gain.gain.setValueAtTime(0.8, time);
-        gain.gain.exponentialRampToValueAtTime(0.01, time + 0.2);
-        osc.start(time);
-        osc.stop(time + 0.25);
-    }
-
-    private playElectronicCymbal(time: number) {
-        const noise = this.createNoiseBuffer();
-        const noiseFilter = this.audioContext.createBiquadFilter();
-        noiseFilter.type = 'highpass';
-        noiseFilter.frequency.value = 5000;
-        noise.connect(noiseFilter);
-        const noiseEnvelope = this.audioContext.createGain();
-        noiseFilter.connect(noiseEnvelope);
-        noiseEnvelope.connect(this.masterGain);
-        noiseEnvelope.gain.setValueAtTime(0.6, time);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.01, time + 0.4);
-        noise.start(time);
-        noise.stop(time + 0.4);
-    }
-
-    // 808 Kit
-    private play808Kick(time: number) {
-        const osc = this.audioContext.createOscillator();
-        const gain = this.audioContext.createGain();
-        osc.connect(gain);
-        gain.connect(this.masterGain);
-        osc.frequency.setValueAtTime(120, time);
-        osc.frequency.exponentialRampToValueAtTime(30, time + 0.3);
-        gain.gain.setValueAtTime(1, time);
-        gain.gain.linearRampToValueAtTime(0, time + 0.4);
-        osc.start(time);
-        osc.stop(time + 0.4);
-    }
-
-    private play808Snare(time: number) {
-        const noise = this.createNoiseBuffer();
-        const noiseFilter = this.audioContext.createBiquadFilter();
-        noiseFilter.type = 'lowpass';
-        noiseFilter.frequency.value = 5000;
-        noise.connect(noiseFilter);
-        const noiseEnvelope = this.audioContext.createGain();
-        noiseFilter.connect(noiseEnvelope);
-        noiseEnvelope.connect(this.masterGain);
-        noiseEnvelope.gain.setValueAtTime(1, time);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.01, time + 0.15);
-        noise.start(time);
-        noise.stop(time + 0.15);
-    }
-
-    private play808Hat(time: number) {
-        const noise = this.createNoiseBuffer();
-        const noiseFilter = this.audioContext.createBiquadFilter();
-        noiseFilter.type = 'highpass';
-        noiseFilter.frequency.value = 9000;
-        noise.connect(noiseFilter);
-        const noiseEnvelope = this.audioContext.createGain();
-        noiseFilter.connect(noiseEnvelope);
-        noiseEnvelope.connect(this.masterGain);
-        noiseEnvelope.gain.setValueAtTime(0.5, time);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.01, time + 0.03);
-        noise.start(time);
-        noise.stop(time + 0.03);
+        this.kits[id] = kit;
     }
-    
-    private play808Clap(time: number) { this.playElectronicClap(time); }
-    private play808Tom(time: number) { this.playElectronicTom(time); }
-    private play808Cymbal(time: number) { this.playElectronicCymbal(time); }
-
-    // Acoustic Kit
-    private playAcousticKick(time: number) {
-        const osc = this.audioContext.createOscillator();
-        const gain = this.audioContext.createGain();
-        osc.connect(gain);
-        gain.connect(this.masterGain);
-        osc.frequency.setValueAtTime(180, time);
-        osc.frequency.exponentialRampToValueAtTime(40, time + 0.1);
-        gain.gain.setValueAtTime(1, time);
-        gain.gain.exponentialRampToValueAtTime(0.01, time + 0.15);
-        osc.start(time);
-        osc.stop(time + 0.15);
-    }
-
-    private playAcousticSnare(time: number) {
-        const noise = this.createNoiseBuffer();
-        const noiseFilter = this.audioContext.createBiquadFilter();
-        noiseFilter.type = 'bandpass';
-        noiseFilter.frequency.setValueAtTime(2000, time);
-        noiseFilter.Q.setValueAtTime(0.5, time);
-        noise.connect(noiseFilter);
-        const noiseEnvelope = this.audioContext.createGain();
-        noiseFilter.connect(noiseEnvelope);
-        noiseEnvelope.connect(this.masterGain);
-        noiseEnvelope.gain.setValueAtTime(1, time);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.01, time + 0.12);
-        noise.start(time);
-        noise.stop(time + 0.12);
-    }
-
-    private playAcousticHat(time: number) {
-        const noise = this.createNoiseBuffer();
-        const noiseFilter = this.audioContext.createBiquadFilter();
-        noiseFilter.type = 'highpass';
-        noiseFilter.frequency.value = 8000;
-        noise.connect(noiseFilter);
-        const noiseEnvelope = this.audioContext.createGain();
-        noiseFilter.connect(noiseEnvelope);
-        noiseEnvelope.connect(this.masterGain);
-        noiseEnvelope.gain.setValueAtTime(0.7, time);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.01, time + 0.04);
-        noise.start(time);
-        noise.stop(time + 0.04);
-    }
-
-    private playAcousticClap(time: number) {
-        this.playElectronicClap(time);
-    }
-    private playAcousticTom(time: number) {
-        this.playElectronicTom(time);
-    }
-    private playAcousticCymbal(time: number) {
-        const noise = this.createNoiseBuffer();
-        const bandpass = this.audioContext.createBiquadFilter();
-        bandpass.type = 'bandpass';
-        bandpass.frequency.value = 6000;
-        bandpass.Q.value = 0.5;
-        const highpass = this.audioContext.createBiquadFilter();
-        highpass.type = 'highpass';
-        highpass.frequency.value = 8000;
-        noise.connect(bandpass);
-        bandpass.connect(highpass);
-
-        const gain = this.audioContext.createGain();
-        highpass.connect(gain);
-        gain.connect(this.masterGain);
-        gain.gain.setValueAtTime(0.8, time);
-        gain.gain.exponentialRampToValueAtTime(0.01, time + 0.5);
-        noise.start(time);
-        noise.stop(time + 0.5);
+
+    public removeKit(id: string) {
+        delete this.kits[id];
+    }
+
+    /** Adds or replaces a kit of synthesized voices under `id`. */
+    public setSynthKit(id: string, voices: SynthVoices) {
+        const kit = {} as { [key in Instrument]: (time: number, level?: number) => void };
+        for (const instrument of ALL_INSTRUMENTS) {
+            const voice = new SynthVoice(voices[instrument]);
+            kit[instrument] = (time, level = 1) => voice.play(time, this.createVoiceOutput(level, this.tracks[instrument]));
+        }
+        this.kits[id] = kit;
+    }
+
+    /** Auditions a single voice right away, e.g. while editing a kit. */
+    public preview(voice: SampleVoice | SynthVoice) {
+        this.transport.resume();
+        voice.play(this.audioContext.currentTime, this.createVoiceOutput(1));
     }
-    
-    // Rock Kit
-    private playRockKick(time: number) {
-        const osc = this.audioContext.createOscillator();
-        const gain = this.audioContext.createGain();
-        osc.connect(gain);
-        gain.connect(this.masterGain);
-
-        osc.frequency.setValueAtTime(160, time);
-        osc.frequency.exponentialRampToValueAtTime(50, time + 0.1);
-        gain.gain.setValueAtTime(1.2, time);
-        gain.gain.exponentialRampToValueAtTime(0.01, time + 0.15);
-        osc.start(time);
-        osc.stop(time + 0.2);
-    }
-
-    private playRockSnare(time: number) {
-        const osc = this.audioContext.createOscillator();
-        osc.type = 'triangle';
-        const oscGain = this.audioContext.createGain();
-        osc.connect(oscGain);
-        oscGain.connect(this.masterGain);
-
-        osc.frequency.setValueAtTime(220, time);
-        oscGain.gain.setValueAtTime(0.7, time);
-        oscGain.gain.exponentialRampToValueAtTime(0.01, time + 0.1);
-        osc.start(time);
-        osc.stop(time + 0.1);
-
-        const noise = this.createNoiseBuffer();
-        const noiseFilter = this.audioContext.createBiquadFilter();
-        noiseFilter.type = 'highpass';
-        noiseFilter.frequency.value = 1500;
-        noise.connect(noiseFilter);
-        const noiseEnvelope = this.audioContext.createGain();
-        noiseFilter.connect(noiseEnvelope);
-        noiseEnvelope.connect(this.masterGain);
-
-        noiseEnvelope.gain.setValueAtTime(1, time);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.01, time + 0.15);
-        noise.start(time);
-        noise.stop(time + 0.15);
-    }
-
-    private playRockHat(time: number) { this.playAcousticHat(time); }
-
-    private playRockTom(time: number) {
-        const osc = this.audioContext.createOscillator();
-        const gain = this.audioContext.createGain();
-        osc.type = 'sine';
-        osc.connect(gain);
-        gain.connect(this.masterGain);
-        osc.frequency.setValueAtTime(300, time);
-        osc.frequency.exponentialRampToValueAtTime(120, time + 0.25);
-        gain.gain.setValueAtTime(1, time);
-        gain.gain.exponentialRampToValueAtTime(0.01, time + 0.25);
-        osc.start(time);
-        osc.stop(time + 0.3);
-    }
-
-    private playRockCymbal(time: number) { this.playAcousticCymbal(time); }
-
-
-    // Jazz Kit
-    private playJazzKick(time: number) {
-        const osc = this.audioContext.createOscillator();
-        const gain = this.audioContext.createGain();
-        osc.connect(gain);
-        gain.connect(this.masterGain);
-        osc.frequency.setValueAtTime(120, time);
-        osc.frequency.exponentialRampToValueAtTime(60, time + 0.2);
-        gain.gain.setValueAtTime(0.9, time);
-        gain.gain.exponentialRampToValueAtTime(0.01, time + 0.25);
-        osc.start(time);
-        osc.stop(time + 0.3);
-    }
-
-    private playJazzSnare(time: number) {
-        const osc = this.audioContext.createOscillator();
-        osc.type = 'sine';
-        const oscGain = this.audioContext.createGain();
-        osc.connect(oscGain);
-        oscGain.connect(this.masterGain);
-
-        osc.frequency.setValueAtTime(250, time);
-        oscGain.gain.setValueAtTime(0.5, time);
-        oscGain.gain.exponentialRampToValueAtTime(0.01, time + 0.15);
-        osc.start(time);
-        osc.stop(time + 0.15);
-
-        const noise = this.createNoiseBuffer();
-        const noiseFilter = this.audioContext.createBiquadFilter();
-        noiseFilter.type = 'bandpass';
-        noiseFilter.frequency.value = 2500;
-        noise.connect(noiseFilter);
-        const noiseEnvelope = this.audioContext.createGain();
-        noiseFilter.connect(noiseEnvelope);
-        noiseEnvelope.connect(this.masterGain);
-
-        noiseEnvelope.gain.setValueAtTime(0.6, time);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.01, time + 0.1);
-        noise.start(time);
-        noise.stop(time + 0.1);
-    }
-
-    private playJazzHat(time: number) {
-        const noise = this.createNoiseBuffer();
-        const noiseFilter = this.audioContext.createBiquadFilter();
-        noiseFilter.type = 'highpass';
-        noiseFilter.frequency.value = 6000;
-        noise.connect(noiseFilter);
-        const noiseEnvelope = this.audioContext.createGain();
-        noiseFilter.connect(noiseEnvelope);
-        noiseEnvelope.connect(this.masterGain);
-        noiseEnvelope.gain.setValueAtTime(0.5, time);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.01, time + 0.05);
-        noise.start(time);
-        noise.stop(time + 0.05);
-    }
-
-    private playJazzTom(time: number) {
-        const osc = this.audioContext.createOscillator();
-        const gain = this.audioContext.createGain();
-        osc.type = 'sine';
-        osc.connect(gain);
-        gain.connect(this.masterGain);
-        osc.frequency.setValueAtTime(400, time);
-        osc.frequency.exponentialRampToValueAtTime(200, time + 0.3);
-        gain.gain.setValueAtTime(0.8, time);
-        gain.gain.exponentialRampToValueAtTime(0.01, time + 0.3);
-        osc.start(time);
-        osc.stop(time + 0.35);
-    }
-
-    private playJazzCymbal(time: number) { // Ride sound
-        const noise = this.createNoiseBuffer();
-        const bandpass = this.audioContext.createBiquadFilter();
-        bandpass.type = 'bandpass';
-        bandpass.frequency.value = 4000;
-        bandpass.Q.value = 1;
-        noise.connect(bandpass);
-        const gain = this.audioContext.createGain();
-        bandpass.connect(gain);
-        gain.connect(this.masterGain);
-        gain.gain.setValueAtTime(0.6, time);
-        gain.gain.exponentialRampToValueAtTime(0.01, time + 0.6);
-        noise.start(time);
-        noise.stop(time + 0.6);
-    }
-
-    // Funk Kit
-    private playFunkKick(time: number) { // Tight and punchy
-        const osc = this.audioContext.createOscillator();
-        const gain = this.audioContext.createGain();
-        osc.connect(gain);
-        gain.connect(this.masterGain);
-        osc.frequency.setValueAtTime(140, time);
-        osc.frequency.exponentialRampToValueAtTime(60, time + 0.08);
-        gain.gain.setValueAtTime(1.1, time);
-        gain.gain.exponentialRampToValueAtTime(0.01, time + 0.1);
-        osc.start(time);
-        osc.stop(time + 0.12);
-    }
-
-    private playFunkSnare(time: number) { // Crack
-        const osc = this.audioContext.createOscillator();
-        osc.type = 'triangle';
-        const oscGain = this.audioContext.createGain();
-        osc.connect(oscGain);
-        oscGain.connect(this.masterGain);
-        osc.frequency.setValueAtTime(250, time);
-        oscGain.gain.setValueAtTime(0.8, time);
-        oscGain.gain.exponentialRampToValueAtTime(0.01, time + 0.08);
-        osc.start(time);
-        osc.stop(time + 0.08);
-
-        const noise = this.createNoiseBuffer();
-        const noiseFilter = this.audioContext.createBiquadFilter();
-        noiseFilter.type = 'highpass';
-        noiseFilter.frequency.value = 2000;
-        noise.connect(noiseFilter);
-        const noiseEnvelope = this.audioContext.createGain();
-        noiseFilter.connect(noiseEnvelope);
-        noiseEnvelope.connect(this.masterGain);
-        noiseEnvelope.gain.setValueAtTime(1.2, time);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.01, time + 0.1);
-        noise.start(time);
-        noise.stop(time + 0.1);
-    }
-
-    private playFunkHat(time: number) { // Crisp
-        const noise = this.createNoiseBuffer();
-        const noiseFilter = this.audioContext.createBiquadFilter();
-        noiseFilter.type = 'highpass';
-        noiseFilter.frequency.value = 8500;
-        noise.connect(noiseFilter);
-        const noiseEnvelope = this.audioContext.createGain();
-        noiseFilter.connect(noiseEnvelope);
-        noiseEnvelope.connect(this.masterGain);
-        noiseEnvelope.gain.setValueAtTime(0.8, time);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.01, time + 0.025);
-        noise.start(time);
-        noise.stop(time + 0.025);
-    }
-
-    private playFunkTom(time: number) { this.playRockTom(time); }
-
-
-    // Brush Kit
-    private playBrushKick(time: number) { // Soft
-        const osc = this.audioContext.createOscillator();
-        const gain = this.audioContext.createGain();
-        osc.connect(gain);
-        gain.connect(this.masterGain);
-        osc.frequency.setValueAtTime(100, time);
-        osc.frequency.exponentialRampToValueAtTime(50, time + 0.15);
-        gain.gain.setValueAtTime(0, time);
-        gain.gain.linearRampToValueAtTime(0.8, time + 0.01);
-        gain.gain.exponentialRampToValueAtTime(0.01, time + 0.2);
-        osc.start(time);
-        osc.stop(time + 0.2);
-    }
-
-    private playBrushSnare(time: number) { // Swish
-        const noise = this.createNoiseBuffer();
-        const noiseFilter = this.audioContext.createBiquadFilter();
-        noiseFilter.type = 'lowpass';
-        noiseFilter.frequency.value = 6000;
-        noise.connect(noiseFilter);
-        const noiseEnvelope = this.audioContext.createGain();
-        noiseFilter.connect(noiseEnvelope);
-        noiseEnvelope.connect(this.masterGain);
-        noiseEnvelope.gain.setValueAtTime(0, time);
-        noiseEnvelope.gain.linearRampToValueAtTime(0.5, time + 0.05);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.01, time + 0.2);
-        noise.start(time);
-        noise.stop(time + 0.2);
-    }
-
-    private playBrushHat(time: number) {
-        const noise = this.createNoiseBuffer();
-        const noiseFilter = this.audioContext.createBiquadFilter();
-        noiseFilter.type = 'highpass';
-        noiseFilter.frequency.value = 7500;
-        noise.connect(noiseFilter);
-        const noiseEnvelope = this.audioContext.createGain();
-        noiseFilter.connect(noiseEnvelope);
-        noiseEnvelope.connect(this.masterGain);
-        noiseEnvelope.gain.setValueAtTime(0.4, time);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.01, time + 0.03);
-        noise.start(time);
-        noise.stop(time + 0.03);
-    }
-
-    private playBrushTom(time: number) {
-        const osc = this.audioContext.createOscillator();
-        const gain = this.audioContext.createGain();
-        osc.type = 'sine';
-        osc.connect(gain);
-        gain.connect(this.masterGain);
-        osc.frequency.setValueAtTime(280, time);
-        osc.frequency.exponentialRampToValueAtTime(150, time + 0.2);
-        gain.gain.setValueAtTime(0.6, time);
-        gain.gain.exponentialRampToValueAtTime(0.01, time + 0.2);
-        osc.start(time);
-        osc.stop(time + 0.25);
-    }
-
-    private playBrushCymbal(time: number) {
-        const noise = this.createNoiseBuffer();
-        const noiseFilter = this.audioContext.createBiquadFilter();
-        noiseFilter.type = 'highpass';
-        noiseFilter.frequency.value = 5000;
-        noise.connect(noiseFilter);
-        const noiseEnvelope = this.audioContext.createGain();
-        noiseFilter.connect(noiseEnvelope);
-        noiseEnvelope.connect(this.masterGain);
-        noiseEnvelope.gain.setValueAtTime(0, time);
-        noiseEnvelope.gain.linearRampToValueAtTime(0.4, time + 0.1);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.01, time + 0.8);
-        noise.start(time);
-        noise.stop(time + 0.8);
-    }
-
-    // Studio Kit
-    private playStudioKick(time: number) {
-        const osc = this.audioContext.createOscillator();
-        const gain = this.audioContext.createGain();
-        osc.connect(gain);
-        gain.connect(this.masterGain);
-        osc.frequency.setValueAtTime(150, time);
-        osc.frequency.exponentialRampToValueAtTime(55, time + 0.12);
-        gain.gain.setValueAtTime(1, time);
-        gain.gain.exponentialRampToValueAtTime(0.01, time + 0.18);
-        osc.start(time);
-        osc.stop(time + 0.2);
-
-        const noise = this.createNoiseBuffer();
-        const noiseFilter = this.audioContext.createBiquadFilter();
-        noiseFilter.type = 'bandpass';
-        noiseFilter.frequency.value = 800;
-        noise.connect(noiseFilter);
-        const noiseEnvelope = this.audioContext.createGain();
-        noiseFilter.connect(noiseEnvelope);
-        noiseEnvelope.connect(this.masterGain);
-        noiseEnvelope.gain.setValueAtTime(0.3, time);
-        noiseEnvelope.gain.exponentialRampToValueAtTime(0.01, time + 0.02);
-        noise.start(time);
-        noise.stop(time + 0.02);
-    }
-
-    private playStudioSnare(time: number) { this.playAcousticSnare(time); }
-    private playStudioHat(time: number) { this.playAcousticHat(time); }
-    private playStudioTom(time: number) { this.playRockTom(time); }
 
+    // --- Sound synthesis methods ---
+
+    /** A per-hit gain stage, so every voice can be played at any level. */
+    private createVoiceOutput(level: number, destination: AudioNode = this.masterGain) {
+        const output = this.audioContext.createGain();
+        output.gain.value = level;
+        output.connect(destination);
+        return output;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,455 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { EffectSettings, EffectType } from '../types';
+import { field, isObject, isOneOf } from './validate';
+
+export type EffectUnitOfMeasure = 's' | 'ms' | 'Hz' | 'dB' | '%' | ':1' | '';
+
+/** One knob of an effect. Times are stored in seconds; `unit` is only how they are shown. */
+export interface EffectParam {
+  key: string;
+  label: string;
+  min: number;
+  max: number;
+  step: number;
+  unit: EffectUnitOfMeasure;
+  /** Edited on a log scale, for frequencies. */
+  log?: boolean;
+  /** Labels for choice parameters, one per index from 0. */
+  options?: string[];
+}
+
+export interface EffectDefinition {
+  label: string;
+  params: EffectParam[];
+  /** Named parameter sets; the first is used for new effects. */
+  presets: { [name: string]: { [param: string]: number } };
+}
+
+export const EFFECT_TYPES: EffectType[] = ['reverb', 'delay', 'filter', 'compressor', 'bitcrusher'];
+
+/** Delay divisions, in beats. */
+const DELAY_DIVISIONS = [0.25, 0.5, 0.75, 1, 1.5, 2];
+const FILTER_MODES: BiquadFilterType[] = ['lowpass', 'highpass', 'bandpass', 'notch'];
+const MAX_DELAY_TIME = 4;
+/** Time constant of parameter changes, so knob moves do not click (s). */
+const RAMP_TIME = 0.02;
+
+const mix: EffectParam = { key: 'mix', label: 'Mix', min: 0, max: 1, step: 0.01, unit: '%' };
+
+export const EFFECT_DEFINITIONS: { [key in EffectType]: EffectDefinition } = {
+  reverb: {
+    label: 'Reverb',
+    params: [
+      { key: 'size', label: 'Size', min: 0.2, max: 8, step: 0.1, unit: 's' },
+      { key: 'damping', label: 'Damping', min: 0, max: 1, step: 0.01, unit: '%' },
+      { key: 'predelay', label: 'Pre-delay', min: 0, max: 0.1, step: 0.001, unit: 'ms' },
+      mix,
+    ],
+    presets: {
+      'Room': { size: 0.8, damping: 0.5, predelay: 0.005, mix: 1 },
+      'Hall': { size: 3, damping: 0.35, predelay: 0.025, mix: 1 },
+      'Plate': { size: 1.8, damping: 0.1, predelay: 0.01, mix: 1 },
+      'Cathedral': { size: 7, damping: 0.5, predelay: 0.05, mix: 1 },
+    },
+  },
+  delay: {
+    label: 'Delay',
+    params: [
+      { key: 'division', label: 'Time', min: 0, max: DELAY_DIVISIONS.length - 1, step: 1, unit: '',
+        options: ['1/16', '1/8', '1/8 dotted', '1/4', '1/4 dotted', '1/2'] },
+      { key: 'feedback', label: 'Feedback', min: 0, max: 0.9, step: 0.01, unit: '%' },
+      { key: 'tone', label: 'Tone', min: 500, max: 16000, step: 1, unit: 'Hz', log: true },
+      mix,
+    ],
+    presets: {
+      'Eighths': { division: 1, feedback: 0.35, tone: 8000, mix: 1 },
+      'Dotted Eighths': { division: 2, feedback: 0.4, tone: 6000, mix: 1 },
+      'Slapback': { division: 0, feedback: 0, tone: 12000, mix: 1 },
+      'Dub': { division: 3, feedback: 0.7, tone: 2000, mix: 1 },
+    },
+  },
+  filter: {
+    label: 'Filter',
+    params: [
+      { key: 'mode', label: 'Mode', min: 0, max: FILTER_MODES.length - 1, step: 1, unit: '',
+        options: ['Low-pass', 'High-pass', 'Band-pass', 'Notch'] },
+      { key: 'cutoff', label: 'Cutoff', min: 20, max: 20000, step: 1, unit: 'Hz', log: true },
+      { key: 'resonance', label: 'Resonance', min: 0.1, max: 20, step: 0.1, unit: '' },
+    ],
+    presets: {
+      'Low Cut': { mode: 1, cutoff: 120, resonance: 0.7 },
+      'High Cut': { mode: 0, cutoff: 6000, resonance: 0.7 },
+      'Telephone': { mode: 2, cutoff: 1500, resonance: 2 },
+      'Resonant': { mode: 0, cutoff: 1200, resonance: 12 },
+    },
+  },
+  compressor: {
+    label: 'Compressor',
+    params: [
+      { key: 'threshold', label: 'Threshold', min: -60, max: 0, step: 1, unit: 'dB' },
+      { key: 'ratio', label: 'Ratio', min: 1, max: 20, step: 0.5, unit: ':1' },
+      { key: 'attack', label: 'Attack', min: 0.001, max: 0.1, step: 0.001, unit: 'ms' },
+      { key: 'release', label: 'Release', min: 0.01, max: 1, step: 0.01, unit: 'ms' },
+      { key: 'makeup', label: 'Makeup', min: 0, max: 24, step: 0.5, unit: 'dB' },
+    ],
+    presets: {
+      'Gentle': { threshold: -18, ratio: 2, attack: 0.02, release: 0.25, makeup: 3 },
+      'Punch': { threshold: -24, ratio: 4, attack: 0.01, release: 0.1, makeup: 6 },
+      'Squash': { threshold: -40, ratio: 12, attack: 0.002, release: 0.15, makeup: 14 },
+      'Limiter': { threshold: -3, ratio: 20, attack: 0.001, release: 0.1, makeup: 2 },
+    },
+  },
+  bitcrusher: {
+    label: 'Bitcrusher',
+    params: [
+      { key: 'bits', label: 'Bits', min: 1, max: 16, step: 1, unit: '' },
+      { key: 'downsample', label: 'Downsample', min: 1, max: 32, step: 1, unit: '' },
+      mix,
+    ],
+    presets: {
+      '12-bit Sampler': { bits: 12, downsample: 2, mix: 1 },
+      '8-bit': { bits: 8, downsample: 4, mix: 1 },
+      'Lo-fi': { bits: 6, downsample: 8, mix: 0.6 },
+      'Destroy': { bits: 3, downsample: 20, mix: 1 },
+    },
+  },
+};
+
+export function createEffectId() {
+  return `fx-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function createEffect(type: EffectType, preset = Object.keys(EFFECT_DEFINITIONS[type].presets)[0]): EffectSettings {
+  return {
+    id: createEffectId(),
+    type,
+    enabled: true,
+    params: { ...EFFECT_DEFINITIONS[type].presets[preset] },
+  };
+}
+
+/** The preset whose values an effect matches, if any. */
+export function matchingPreset(effect: EffectSettings): string | null {
+  const { presets } = EFFECT_DEFINITIONS[effect.type];
+  return Object.keys(presets).find((name) =>
+    Object.entries(presets[name]).every(([key, value]) => effect.params[key] === value)) ?? null;
+}
+
+/** Fills in and clamps the parameters of a stored effect. */
+export function validateEffect(raw: unknown): EffectSettings | null {
+  if (!isObject(raw) || !isOneOf(EFFECT_TYPES, raw.type)) return null;
+  const effect = createEffect(raw.type);
+  if (typeof raw.id === 'string' && raw.id) effect.id = raw.id;
+  effect.enabled = raw.enabled !== false;
+  for (const { key, min, max } of EFFECT_DEFINITIONS[effect.type].params) {
+    const value = field(raw.params, key);
+    if (typeof value === 'number' && Number.isFinite(value)) effect.params[key] = Math.max(min, Math.min(max, value));
+  }
+  return effect;
+}
+
+/** The processing part of an effect, between the unit's dry/wet split. */
+interface Processor {
+  input: AudioNode;
+  output: AudioNode;
+  update(params: EffectSettings['params'], tempo: number): void;
+}
+
+/** Decaying stereo noise to convolve with, `seconds` long. */
+export function createImpulseResponse(context: BaseAudioContext, seconds: number, damping: number) {
+  const length = Math.ceil(seconds * context.sampleRate);
+  const buffer = context.createBuffer(2, length, context.sampleRate);
+  // A one-pole low-pass over decaying noise; more damping gives a darker tail.
+  const smoothing = damping * 0.95;
+  for (let channel = 0; channel < 2; channel++) {
+    const data = buffer.getChannelData(channel);
+    let last = 0;
+    for (let i = 0; i < length; i++) {
+      last = last * smoothing + (Math.random() * 2 - 1) * (1 - smoothing);
+      // Falls by 60 dB over the reverb's size.
+      data[i] = last * Math.exp(-6.9 * i / length);
+    }
+  }
+  return buffer;
+}
+
+class ReverbProcessor implements Processor {
+  private predelay: DelayNode;
+  private convolver: ConvolverNode;
+  private impulseKey = '';
+  input: AudioNode;
+  output: AudioNode;
+
+  constructor(context: BaseAudioContext) {
+    this.predelay = context.createDelay(1);
+    this.convolver = context.createConvolver();
+    this.predelay.connect(this.convolver);
+    this.input = this.predelay;
+    this.output = this.convolver;
+  }
+
+  update(params: EffectSettings['params']) {
+    const context = this.convolver.context;
+    this.predelay.delayTime.setTargetAtTime(params.predelay, context.currentTime, RAMP_TIME);
+    // Generating an impulse response is costly, so only do it when its shape changes.
+    const key = `${params.size.toFixed(1)}:${params.damping.toFixed(2)}`;
+    if (key !== this.impulseKey) {
+      this.impulseKey = key;
+      this.convolver.buffer = createImpulseResponse(context, params.size, params.damping);
+    }
+  }
+}
+
+class DelayProcessor implements Processor {
+  private delay: DelayNode;
+  private tone: BiquadFilterNode;
+  private feedback: GainNode;
+  input: AudioNode;
+  output: AudioNode;
+
+  constructor(context: BaseAudioContext) {
+    this.delay = context.createDelay(MAX_DELAY_TIME);
+    this.tone = context.createBiquadFilter();
+    this.tone.type = 'lowpass';
+    this.feedback = context.createGain();
+    this.delay.connect(this.tone);
+    this.tone.connect(this.feedback);
+    this.feedback.connect(this.delay);
+    this.input = this.delay;
+    this.output = this.tone;
+  }
+
+  update(params: EffectSettings['params'], tempo: number) {
+    const now = this.delay.context.currentTime;
+    const beats = DELAY_DIVISIONS[Math.round(params.division)] ?? 0.5;
+    this.delay.delayTime.setTargetAtTime(Math.min(MAX_DELAY_TIME, beats * 60 / tempo), now, RAMP_TIME);
+    this.tone.frequency.setTargetAtTime(params.tone, now, RAMP_TIME);
+    this.feedback.gain.setTargetAtTime(params.feedback, now, RAMP_TIME);
+  }
+}
+
+class FilterProcessor implements Processor {
+  private filter: BiquadFilterNode;
+  input: AudioNode;
+  output: AudioNode;
+
+  constructor(context: BaseAudioContext) {
+    this.filter = context.createBiquadFilter();
+    this.input = this.filter;
+    this.output = this.filter;
+  }
+
+  update(params: EffectSettings['params']) {
+    const now = this.filter.context.currentTime;
+    this.filter.type = FILTER_MODES[Math.round(params.mode)] ?? 'lowpass';
+    this.filter.frequency.setTargetAtTime(params.cutoff, now, RAMP_TIME);
+    this.filter.Q.setTargetAtTime(params.resonance, now, RAMP_TIME);
+  }
+}
+
+class CompressorProcessor implements Processor {
+  private compressor: DynamicsCompressorNode;
+  private makeup: GainNode;
+  input: AudioNode;
+  output: AudioNode;
+
+  constructor(context: BaseAudioContext) {
+    this.compressor = context.createDynamicsCompressor();
+    this.compressor.knee.value = 6;
+    this.makeup = context.createGain();
+    this.compressor.connect(this.makeup);
+    this.input = this.compressor;
+    this.output = this.makeup;
+  }
+
+  update(params: EffectSettings['params']) {
+    const now = this.compressor.context.currentTime;
+    this.compressor.threshold.setTargetAtTime(params.threshold, now, RAMP_TIME);
+    this.compressor.ratio.setTargetAtTime(params.ratio, now, RAMP_TIME);
+    this.compressor.attack.setTargetAtTime(params.attack, now, RAMP_TIME);
+    this.compressor.release.setTargetAtTime(params.release, now, RAMP_TIME);
+    this.makeup.gain.setTargetAtTime(10 ** (params.makeup / 20), now, RAMP_TIME);
+  }
+}
+
+const BITCRUSHER_PROCESSOR = 'lollipad-bitcrusher';
+const BITCRUSHER_SOURCE = `
+class BitcrusherProcessor extends AudioWorkletProcessor {
+  static get parameterDescriptors() {
+    return [
+      { name: 'bits', defaultValue: 8, minValue: 1, maxValue: 16, automationRate: 'k-rate' },
+      { name: 'downsample', defaultValue: 4, minValue: 1, maxValue: 32, automationRate: 'k-rate' },
+    ];
+  }
+  constructor() {
+    super();
+    this.held = [];
+    this.phase = 0;
+  }
+  process(inputs, outputs, parameters) {
+    const input = inputs[0];
+    const output = outputs[0];
+    const levels = 2 ** (parameters.bits[0] - 1);
+    const factor = Math.max(1, Math.round(parameters.downsample[0]));
+    for (let channel = 0; channel < output.length; channel++) {
+      const samples = input[channel];
+      const out = output[channel];
+      if (!samples) {
+        out.fill(0);
+        continue;
+      }
+      let held = this.held[channel] || 0;
+      for (let i = 0; i < out.length; i++) {
+        if ((this.phase + i) % factor === 0) held = Math.round(samples[i] * levels) / levels;
+        out[i] = held;
+      }
+      this.held[channel] = held;
+    }
+    this.phase = (this.phase + output[0].length) % factor;
+    return true;
+  }
+}
+registerProcessor('${BITCRUSHER_PROCESSOR}', BitcrusherProcessor);
+`;
+
+const bitcrusherModules = new WeakMap<BaseAudioContext, Promise<void>>();
+
+/** Loads the bitcrusher worklet once per context. */
+function loadBitcrusher(context: BaseAudioContext) {
+  let module = bitcrusherModules.get(context);
+  if (!module) {
+    const url = URL.createObjectURL(new Blob([BITCRUSHER_SOURCE], { type: 'text/javascript' }));
+    module = context.audioWorklet.addModule(url).finally(() => URL.revokeObjectURL(url));
+    bitcrusherModules.set(context, module);
+  }
+  return module;
+}
+
+/** Reduces bit depth and sample rate. Passes audio through until its worklet has loaded. */
+class BitcrusherProcessor implements Processor {
+  private node: AudioWorkletNode | null = null;
+  private params: EffectSettings['params'] | null = null;
+  input: GainNode;
+  output: GainNode;
+
+  constructor(context: BaseAudioContext) {
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.input.connect(this.output);
+    loadBitcrusher(context).then(() => {
+      this.node = new AudioWorkletNode(context, BITCRUSHER_PROCESSOR, { outputChannelCount: [2] });
+      this.input.disconnect();
+      this.input.connect(this.node);
+      this.node.connect(this.output);
+      if (this.params) this.update(this.params);
+    }).catch((e) => console.warn('Bitcrusher unavailable.', e));
+  }
+
+  update(params: EffectSettings['params']) {
+    this.params = params;
+    if (!this.node) return;
+    const now = this.node.context.currentTime;
+    this.node.parameters.get('bits')?.setValueAtTime(params.bits, now);
+    this.node.parameters.get('downsample')?.setValueAtTime(params.downsample, now);
+  }
+}
+
+const PROCESSORS: { [key in EffectType]: new (context: BaseAudioContext) => Processor } = {
+  reverb: ReverbProcessor,
+  delay: DelayProcessor,
+  filter: FilterProcessor,
+  compressor: CompressorProcessor,
+  bitcrusher: BitcrusherProcessor,
+};
+
+/** An effect with bypass and, where it has a Mix parameter, a dry/wet blend. */
+class EffectUnit {
+  readonly type: EffectType;
+  readonly input: GainNode;
+  readonly output: GainNode;
+  private dry: GainNode;
+  private wet: GainNode;
+  private processor: Processor;
+
+  constructor(context: BaseAudioContext, type: EffectType) {
+    this.type = type;
+    this.input = context.createGain();
+    this.output = context.createGain();
+    this.dry = context.createGain();
+    this.wet = context.createGain();
+    this.processor = new PROCESSORS[type](context);
+    this.input.connect(this.dry);
+    this.dry.connect(this.output);
+    this.input.connect(this.processor.input);
+    this.processor.output.connect(this.wet);
+    this.wet.connect(this.output);
+  }
+
+  update(effect: EffectSettings, tempo: number) {
+    const now = this.input.context.currentTime;
+    const mix = effect.enabled ? effect.params.mix ?? 1 : 0;
+    this.dry.gain.setTargetAtTime(1 - mix, now, RAMP_TIME);
+    this.wet.gain.setTargetAtTime(mix, now, RAMP_TIME);
+    if (effect.enabled) this.processor.update(effect.params, tempo);
+  }
+
+  disconnect() {
+    this.input.disconnect();
+    this.output.disconnect();
+  }
+}
+
+/**
+ * A series of effects between two nodes. `update` reuses the units of
+ * effects that are still there, so moving a knob does not rebuild the chain.
+ */
+export class EffectChain {
+  private context: BaseAudioContext;
+  private input: AudioNode;
+  private output: AudioNode;
+  private units = new Map<string, EffectUnit>();
+  private order: string[] = [];
+
+  constructor(context: BaseAudioContext, input: AudioNode, output: AudioNode) {
+    this.context = context;
+    this.input = input;
+    this.output = output;
+    input.connect(output);
+  }
+
+  update(effects: EffectSettings[], tempo: number) {
+    const ids = effects.map((effect) => effect.id);
+    const changed = ids.join() !== this.order.join()
+      || effects.some((effect) => this.units.get(effect.id)?.type !== effect.type);
+    if (changed) this.rebuild(effects);
+    for (const effect of effects) this.units.get(effect.id)!.update(effect, tempo);
+  }
+
+  private rebuild(effects: EffectSettings[]) {
+    this.input.disconnect();
+    const units = new Map<string, EffectUnit>();
+    for (const effect of effects) {
+      const existing = this.units.get(effect.id);
+      if (existing?.type === effect.type) {
+        existing.output.disconnect();
+        units.set(effect.id, existing);
+      } else {
+        units.set(effect.id, new EffectUnit(this.context, effect.type));
+      }
+    }
+    for (const [id, unit] of this.units) {
+      if (units.get(id) !== unit) unit.disconnect();
+    }
+    let previous = this.input;
+    for (const unit of units.values()) {
+      previous.connect(unit.input);
+      previous = unit.output;
+    }
+    previous.connect(this.output);
+    this.units = units;
+    this.order = effects.map((effect) => effect.id);
+  }
+}
@@ -0,0 +1,185 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { BufferStats } from '../types';
+
+/** Bounds of the latency the buffer aims for (s). */
+const MIN_LATENCY = 0.5;
+const MAX_LATENCY = 6;
+const INITIAL_LATENCY = 2;
+/** Seconds of latency kept per second of measured jitter. */
+const JITTER_MARGIN = 4;
+/** Share of the gap to the jitter-based latency closed per chunk once the stream is steady. */
+const SHRINK_RATE = 0.05;
+/** Surplus over the target tolerated before latency is trimmed (s). */
+const SHRINK_THRESHOLD = 0.25;
+/** Most latency trimmed at one chunk boundary (s). */
+const MAX_SHRINK_STEP = 0.2;
+const UNDERRUN_GROWTH = 1.5;
+const CROSSFADE_TIME = 0.05;
+/** The end of the last chunk is replayed, fading out, to cover a dropout (s). */
+const CONCEALMENT_LENGTH = 1;
+/** How far ahead of `currentTime` audio can be scheduled reliably (s). */
+const SCHEDULE_LEAD = 0.02;
+
+interface ScheduledChunk {
+  source: AudioBufferSourceNode;
+  gain: GainNode;
+  end: number;
+}
+
+/** The end of a chunk played again in case the next one is late, and a gain to cut it short. */
+interface Concealment {
+  source: AudioBufferSourceNode;
+  cut: GainNode;
+}
+
+/**
+ * Schedules streamed audio chunks back to back. Latency follows how
+ * unevenly chunks arrive: it grows at once when they get less regular or
+ * arrive too late, and is trimmed a little at a time, with crossfades,
+ * once they are steady. A late chunk is crossfaded in after a fading
+ * repeat of the previous chunk's end, instead of leaving a gap.
+ */
+export class JitterBuffer {
+  private context: BaseAudioContext;
+  private nextStartTime: number | null = null;
+  private last: ScheduledChunk | null = null;
+  private concealment: Concealment | null = null;
+  private lastArrival: number | null = null;
+  private lastDuration = 0;
+  private jitter = 0;
+  private target = INITIAL_LATENCY;
+  private underruns = 0;
+
+  constructor(context: BaseAudioContext) {
+    this.context = context;
+  }
+
+  get isStarted() {
+    return this.nextStartTime !== null;
+  }
+
+  /** Latency the buffer aims for, to start playback with (s). */
+  get targetLatency() {
+    return this.target;
+  }
+
+  get stats(): BufferStats {
+    const level = this.nextStartTime === null ? 0 : Math.max(0, this.nextStartTime - this.context.currentTime);
+    return { level, target: this.target, jitter: this.jitter, underruns: this.underruns };
+  }
+
+  /** Sets when the first chunk plays. */
+  start(time: number) {
+    this.nextStartTime = time;
+  }
+
+  /** Forgets the scheduled stream, keeping what was learned about the connection. */
+  reset() {
+    this.cancelConcealment();
+    this.nextStartTime = null;
+    this.last = null;
+    this.lastArrival = null;
+    this.underruns = 0;
+  }
+
+  push(buffer: AudioBuffer, destination: AudioNode) {
+    if (this.nextStartTime === null) this.start(this.context.currentTime + this.target);
+    const now = this.context.currentTime;
+    this.measureArrival(now, buffer.duration);
+
+    let start = this.nextStartTime!;
+    let fadeIn = false;
+    // The previous chunk's fade into its concealment starts a crossfade before its end.
+    if (now + SCHEDULE_LEAD <= start - CROSSFADE_TIME) {
+      this.cancelConcealment();
+      const surplus = start - now - this.target;
+      if (surplus > SHRINK_THRESHOLD && this.last) {
+        const step = Math.min(MAX_SHRINK_STEP, surplus - SHRINK_THRESHOLD);
+        start -= step;
+        fadeIn = true;
+        this.fadeOut(this.last, start);
+      }
+    } else {
+      this.underruns++;
+      this.target = Math.min(MAX_LATENCY, this.target * UNDERRUN_GROWTH);
+      // Leave room to rebuild the buffer, covered by the concealment while it lasts.
+      start = now + Math.max(SCHEDULE_LEAD, this.target - buffer.duration);
+      fadeIn = true;
+      if (this.concealment) {
+        const { source, cut } = this.concealment;
+        cut.gain.setValueAtTime(1, start);
+        cut.gain.linearRampToValueAtTime(0, start + CROSSFADE_TIME);
+        source.stop(start + CROSSFADE_TIME);
+        this.concealment = null;
+      }
+    }
+
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    const gain = this.context.createGain();
+    source.connect(gain);
+    gain.connect(destination);
+    if (fadeIn) {
+      gain.gain.setValueAtTime(0, start);
+      gain.gain.linearRampToValueAtTime(1, start + CROSSFADE_TIME);
+    }
+    source.start(start);
+    this.last = { source, gain, end: start + buffer.duration };
+    this.nextStartTime = this.last.end;
+    this.scheduleConcealment(buffer, destination);
+  }
+
+  /** Tracks how much arrival times stray from the audio's own pace, like RTP's interarrival jitter. */
+  private measureArrival(now: number, duration: number) {
+    if (this.lastArrival !== null) {
+      const deviation = Math.abs(now - this.lastArrival - this.lastDuration);
+      this.jitter += (deviation - this.jitter) / 16;
+      const wanted = Math.min(MAX_LATENCY, Math.max(MIN_LATENCY, MIN_LATENCY + JITTER_MARGIN * this.jitter));
+      this.target = wanted > this.target ? wanted : this.target + (wanted - this.target) * SHRINK_RATE;
+    }
+    this.lastArrival = now;
+    this.lastDuration = duration;
+  }
+
+  /** Ends a chunk early, fading it out as the next one fades in. */
+  private fadeOut(chunk: ScheduledChunk, time: number) {
+    chunk.gain.gain.setValueAtTime(1, time);
+    chunk.gain.gain.linearRampToValueAtTime(0, time + CROSSFADE_TIME);
+    chunk.source.stop(time + CROSSFADE_TIME);
+  }
+
+  /** Readies a fading repeat of the chunk's end, in case the next chunk does not arrive in time. */
+  private scheduleConcealment(buffer: AudioBuffer, destination: AudioNode) {
+    const chunk = this.last!;
+    const length = Math.min(CONCEALMENT_LENGTH, buffer.duration - CROSSFADE_TIME);
+    if (length <= 0) return;
+    const fadeStart = chunk.end - CROSSFADE_TIME;
+    const source = this.context.createBufferSource();
+    source.buffer = buffer;
+    const envelope = this.context.createGain();
+    const cut = this.context.createGain();
+    source.connect(envelope);
+    envelope.connect(cut);
+    cut.connect(destination);
+    envelope.gain.setValueAtTime(0, fadeStart);
+    envelope.gain.linearRampToValueAtTime(1, chunk.end);
+    envelope.gain.linearRampToValueAtTime(0, chunk.end + length);
+    source.start(fadeStart, buffer.duration - length - CROSSFADE_TIME);
+    source.stop(chunk.end + length);
+    chunk.gain.gain.setValueAtTime(1, fadeStart);
+    chunk.gain.gain.linearRampToValueAtTime(0, chunk.end);
+    this.concealment = { source, cut };
+  }
+
+  /** Drops the pending concealment and lets the last chunk play to its end. */
+  private cancelConcealment() {
+    if (!this.concealment) return;
+    this.concealment.source.stop();
+    this.concealment.cut.disconnect();
+    this.concealment = null;
+    if (this.last) this.last.gain.gain.cancelScheduledValues(this.last.end - CROSSFADE_TIME);
+  }
+}
@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** How a CC encodes its value. Relative modes send increments from endless encoders. */
+export type CcEncoding = 'absolute' | 'relative-twos-complement' | 'relative-binary-offset' | 'relative-signed-bit';
+
+export const CC_ENCODINGS: { [encoding in CcEncoding]: string } = {
+  'absolute': 'Absolute',
+  'relative-twos-complement': 'Relative (2\'s comp.)',
+  'relative-binary-offset': 'Relative (offset 64)',
+  'relative-signed-bit': 'Relative (sign bit)',
+};
+
+/** A continuous value or a list of choices, which are stored as their index. */
+export interface RangeControl {
+  readonly id: string;
+  readonly label: string;
+  readonly type: 'range';
+  readonly min: number;
+  readonly max: number;
+  readonly step: number;
+  /** Labels for choice controls, one per step from min. */
+  readonly options?: readonly string[];
+  get(): number;
+  set(value: number): void;
+}
+
+/** A button, fired by a note hit or a CC press. */
+export interface TriggerControl {
+  readonly id: string;
+  readonly label: string;
+  readonly type: 'trigger';
+  fire(): void;
+  /** Called when the note or CC button is let go, for momentary controls. */
+  release?(): void;
+}
+
+export type LearnableControl = RangeControl | TriggerControl;
+
+/** How a mapped MIDI message drives a control. */
+export interface ControlScaling {
+  encoding: CcEncoding;
+  /** Sub-range of a range control that the full CC sweep covers. */
+  min?: number;
+  max?: number;
+}
+
+/** Turns a relative CC value into a signed number of steps. */
+function decodeRelative(value: number, encoding: CcEncoding): number {
+  switch (encoding) {
+    case 'relative-twos-complement': return value < 64 ? value : value - 128;
+    case 'relative-binary-offset': return value - 64;
+    case 'relative-signed-bit': return value & 0x40 ? -(value & 0x3f) : value & 0x3f;
+    default: return 0;
+  }
+}
+
+function snap(control: RangeControl, value: number, min: number, max: number) {
+  const stepped = control.min + Math.round((value - control.min) / control.step) * control.step;
+  // Round away floating point noise from fractional steps.
+  return Math.max(min, Math.min(max, Number(stepped.toFixed(6))));
+}
+
+/**
+ * Every on-screen control that can be driven from MIDI, by stable id. The
+ * registry turns raw CC values and note hits into control changes.
+ */
+export class LearnableControlRegistry {
+  private controls = new Map<string, LearnableControl>();
+
+  register(...controls: LearnableControl[]) {
+    for (const control of controls) {
+      this.controls.set(control.id, control);
+    }
+  }
+
+  /** Removes controls whose on-screen counterpart is gone, e.g. a deleted effect. */
+  unregister(...ids: string[]) {
+    for (const id of ids) {
+      this.controls.delete(id);
+    }
+  }
+
+  get(id: string): LearnableControl | undefined {
+    return this.controls.get(id);
+  }
+
+  get all(): LearnableControl[] {
+    return [...this.controls.values()];
+  }
+
+  /** Applies a CC value to a control. Buttons fire when `pressed`. */
+  applyCc(id: string, value: number, pressed: boolean, scaling: ControlScaling) {
+    const control = this.controls.get(id);
+    if (!control) return;
+    if (control.type === 'trigger') {
+      if (pressed) control.fire();
+      return;
+    }
+    const min = scaling.min ?? control.min;
+    const max = scaling.max ?? control.max;
+    const next = scaling.encoding === 'absolute'
+      ? min + (value / 127) * (max - min)
+      : control.get() + decodeRelative(value, scaling.encoding) * control.step;
+    const snapped = snap(control, next, Math.min(min, max), Math.max(min, max));
+    if (snapped !== control.get()) control.set(snapped);
+  }
+
+  /** Lets go of a button held on a note or CC. */
+  release(id: string) {
+    const control = this.controls.get(id);
+    if (control?.type === 'trigger') control.release?.();
+  }
+
+  /** Applies a note hit: buttons fire and ranges step forward, wrapping around. */
+  applyNote(id: string, scaling: ControlScaling) {
+    const control = this.controls.get(id);
+    if (!control) return;
+    if (control.type === 'trigger') {
+      control.fire();
+      return;
+    }
+    const min = scaling.min ?? control.min;
+    const max = scaling.max ?? control.max;
+    const next = control.get() + control.step;
+    control.set(next > max ? min : snap(control, next, min, max));
+  }
+}
@@ -0,0 +1,250 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ConnectionStatus, FilteredPrompt, MusicConfig, PlaybackState, Prompt } from '../types';
+import { LiveMusicHelper } from './LiveMusicHelper';
+import type { MusicBackend, MusicBackendCallbacks, MusicConnection, PcmChunk, WeightedPrompt } from './MusicBackend';
+import { FakeAudioContext } from './testing/FakeAudioContext';
+import { Transport } from './Transport';
+
+const CONFIG: MusicConfig = {
+  bpm: 120,
+  key: 'C',
+  scale: 'major',
+  density: null,
+  brightness: null,
+  guidance: 4,
+  temperature: 1.1,
+  seed: null,
+};
+
+const PROMPTS = new Map<string, Prompt>([
+  ['prompt-0', { promptId: 'prompt-0', text: 'Minimal techno', weight: 1, cc: 0, color: '#9900ff' }],
+  ['prompt-1', { promptId: 'prompt-1', text: 'Bossa nova', weight: 0, cc: 1, color: '#5200ff' }],
+]);
+
+/** 20 ms of silent 16-bit stereo at 48 kHz. */
+const CHUNK: PcmChunk = { data: btoa('\0'.repeat(3840)), mimeType: 'audio/l16;rate=48000;channels=2' };
+
+const LOST_CONNECTION = 'Lost the connection to the music session. Press play to try again.';
+
+class FakeConnection implements MusicConnection {
+  readonly callbacks: MusicBackendCallbacks;
+  prompts: WeightedPrompt[][] = [];
+  configs: MusicConfig[] = [];
+  playing = false;
+  closed = false;
+
+  constructor(callbacks: MusicBackendCallbacks) {
+    this.callbacks = callbacks;
+  }
+
+  async setWeightedPrompts(prompts: WeightedPrompt[]) {
+    this.prompts.push(prompts);
+  }
+
+  async setMusicConfig(config: MusicConfig) {
+    this.configs.push(config);
+  }
+
+  play() {
+    this.playing = true;
+  }
+
+  pause() {
+    this.playing = false;
+  }
+
+  stop() {
+    this.playing = false;
+  }
+
+  close() {
+    this.closed = true;
+  }
+
+  /** Closes from the server's side, as a dropped socket would. */
+  drop() {
+    this.close();
+    this.callbacks.onClose();
+  }
+}
+
+class FakeBackend implements MusicBackend {
+  readonly name = 'Fake';
+  connections: FakeConnection[] = [];
+  attempts = 0;
+  /** Connections to refuse before accepting one again. */
+  refusals = 0;
+  /** How long connecting takes (ms). */
+  delay = 0;
+
+  get latest() {
+    return this.connections[this.connections.length - 1];
+  }
+
+  async connect(callbacks: MusicBackendCallbacks) {
+    this.attempts++;
+    if (this.delay > 0) await new Promise((resolve) => setTimeout(resolve, this.delay));
+    if (this.refusals > 0) {
+      this.refusals--;
+      throw new Error('Connection refused.');
+    }
+    const connection = new FakeConnection(callbacks);
+    this.connections.push(connection);
+    return connection;
+  }
+}
+
+describe('LiveMusicHelper', () => {
+  let backend: FakeBackend;
+  let helper: LiveMusicHelper;
+  let statuses: ConnectionStatus[];
+  let states: PlaybackState[];
+  let errors: string[];
+  let filtered: FilteredPrompt[];
+  let bufferStats: number;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+    // No jitter, so every retry waits exactly the backoff delay.
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    backend = new FakeBackend();
+    helper = new LiveMusicHelper(backend, new Transport());
+    statuses = [];
+    states = [];
+    errors = [];
+    filtered = [];
+    bufferStats = 0;
+    helper.addEventListener('connection-status-changed', (e) => statuses.push((e as CustomEvent<ConnectionStatus>).detail));
+    helper.addEventListener('playback-state-changed', (e) => states.push((e as CustomEvent<PlaybackState>).detail));
+    helper.addEventListener('error', (e) => errors.push((e as CustomEvent<string>).detail));
+    helper.addEventListener('filtered-prompt', (e) => filtered.push((e as CustomEvent<FilteredPrompt>).detail));
+    helper.addEventListener('buffer-stats', () => bufferStats++);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  async function startPlaying() {
+    helper.setMusicConfig(CONFIG);
+    helper.setWeightedPrompts(PROMPTS);
+    // Let the prompt throttle and the config delay pass, as they would before the user presses play.
+    await vi.advanceTimersByTimeAsync(200);
+    await helper.play();
+  }
+
+  it('sends the config and active prompts when it starts playing', async () => {
+    await startPlaying();
+
+    expect(backend.connections).toHaveLength(1);
+    expect(backend.latest.configs).toEqual([CONFIG]);
+    expect(backend.latest.prompts).toEqual([[{ text: 'Minimal techno', weight: 1 }]]);
+    expect(backend.latest.playing).toBe(true);
+    expect(statuses).toEqual(['connecting', 'connected']);
+  });
+
+  it('reconnects after a drop while playing, resending the prompts and config', async () => {
+    await startPlaying();
+    backend.latest.drop();
+    expect(statuses.at(-1)).toBe('reconnecting');
+
+    await vi.advanceTimersByTimeAsync(499);
+    expect(backend.connections).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(backend.connections).toHaveLength(2);
+    expect(backend.latest.configs).toEqual([CONFIG]);
+    expect(backend.latest.prompts).toEqual([[{ text: 'Minimal techno', weight: 1 }]]);
+    expect(backend.latest.playing).toBe(true);
+    expect(statuses).toEqual(['connecting', 'connected', 'reconnecting', 'connected']);
+    expect(errors).toEqual([]);
+  });
+
+  it('backs off exponentially and stops after MAX_RECONNECT_ATTEMPTS', async () => {
+    await startPlaying();
+    backend.refusals = Infinity;
+    backend.latest.drop();
+
+    const delays = [500, 1000, 2000, 4000, 8000, 8000];
+    for (const [i, delay] of delays.entries()) {
+      await vi.advanceTimersByTimeAsync(delay - 1);
+      expect(backend.attempts).toBe(i + 1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(backend.attempts).toBe(i + 2);
+    }
+
+    expect(errors).toEqual([LOST_CONNECTION]);
+    expect(states.at(-1)).toBe('stopped');
+    expect(statuses.at(-1)).toBe('disconnected');
+    await vi.runAllTimersAsync();
+    expect(backend.attempts).toBe(1 + delays.length);
+  });
+
+  it('backs off afresh after a successful reconnect', async () => {
+    await startPlaying();
+    backend.refusals = 2;
+    backend.latest.drop();
+    await vi.advanceTimersByTimeAsync(500 + 1000 + 2000);
+    expect(backend.connections).toHaveLength(2);
+
+    backend.latest.drop();
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(backend.connections).toHaveLength(3);
+    expect(errors).toEqual([]);
+  });
+
+  it('ignores events from a connection it has replaced', async () => {
+    await startPlaying();
+    const stale = backend.latest;
+    stale.drop();
+    await vi.advanceTimersByTimeAsync(500);
+
+    stale.callbacks.onClose();
+    stale.callbacks.onFilteredPrompt({ text: 'Minimal techno', reason: 'Blocked.' });
+    stale.callbacks.onAudio([CHUNK]);
+    await vi.runAllTimersAsync();
+
+    expect(backend.connections).toHaveLength(2);
+    expect(statuses.at(-1)).toBe('connected');
+    expect(filtered).toEqual([]);
+    expect(bufferStats).toBe(0);
+
+    backend.latest.callbacks.onAudio([CHUNK]);
+    await vi.runAllTimersAsync();
+    expect(bufferStats).toBe(1);
+  });
+
+  it('closes a connection that opens after playback was stopped', async () => {
+    backend.delay = 300;
+    helper.setWeightedPrompts(PROMPTS);
+    const playing = helper.play();
+    helper.stop();
+    await vi.advanceTimersByTimeAsync(300);
+    await playing;
+
+    expect(backend.latest.closed).toBe(true);
+    expect(backend.latest.playing).toBe(false);
+    expect(states.at(-1)).toBe('stopped');
+    expect(errors).toEqual([]);
+  });
+
+  it('does not reconnect after a drop while paused', async () => {
+    await startPlaying();
+    helper.pause();
+    backend.latest.drop();
+    await vi.runAllTimersAsync();
+
+    expect(backend.connections).toHaveLength(1);
+    expect(statuses.at(-1)).toBe('disconnected');
+  });
+});
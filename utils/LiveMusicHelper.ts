@@ -2,77 +2,172 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import type { PlaybackState, Prompt } from '../types';
-// FIX: Changed type-only import to a regular import to comply with coding guidelines.
-import { AudioChunk, GoogleGenAI, LiveMusicFilteredPrompt, LiveMusicServerMessage, LiveMusicSession } from '@google/genai';
-import { decode, decodeAudioData } from './audio';
+import type { BufferStats, ConnectionStatus, FilteredPrompt, MusicConfig, PlaybackState, Prompt } from '../types';
+import type { PcmFormat } from './audio';
+import { JitterBuffer } from './JitterBuffer';
+import type { MusicBackend, MusicConnection, PcmChunk } from './MusicBackend';
+import { PcmDecoder } from './PcmDecoder';
 import { throttle } from './throttle';
+import type { Transport } from './Transport';
 
+/** Config changes within this window go out as one message, so slider drags do not flood the session (ms). */
+const CONFIG_SEND_DELAY = 200;
+/** Used where a chunk does not give its format: Lyria's, 16-bit stereo at 48 kHz. */
+const DEFAULT_FORMAT: PcmFormat = { sampleRate: 48000, channels: 2 };
+const RECONNECT_BASE_DELAY = 500;
+const RECONNECT_MAX_DELAY = 8000;
+/** Reconnects to try before giving up, about 25 s with the delays above. */
+const MAX_RECONNECT_ATTEMPTS = 6;
+
+/**
+ * Streams music from a backend into the studio. Dropped connections are
+ * reopened with exponential backoff while the music plays, restoring the
+ * prompts and config; audio already buffered keeps playing in the
+ * meantime. Chunks play through a jitter buffer that adapts to how evenly
+ * they arrive.
+ */
 export class LiveMusicHelper extends EventTarget {
 
-  private ai: GoogleGenAI;
-  private model: string;
+  private backend: MusicBackend;
+  private transport: Transport;
 
-  private session: LiveMusicSession | null = null;
-  private sessionPromise: Promise<LiveMusicSession> | null = null;
+  private session: MusicConnection | null = null;
+  private sessionPromise: Promise<MusicConnection> | null = null;
 
-  private connectionError = true;
+  /** Bumped for every connection, so events from abandoned ones are ignored. */
+  private connectionId = 0;
+  private connectionStatus: ConnectionStatus = 'disconnected';
+  private reconnectAttempts = 0;
+  private reconnectTimer: number | null = null;
 
   private filteredPrompts = new Set<string>();
-  private nextStartTime = 0;
-  private bufferTime = 2;
+  private jitterBuffer: JitterBuffer;
+  private decoder = new PcmDecoder();
+  /** Chunks are scheduled one after another in the order they arrived, however long each takes to decode. */
+  private audioQueue: Promise<void> = Promise.resolve();
+  /** Bumped on pause and stop, so chunks still decoding from before are dropped. */
+  private streamId = 0;
 
   public readonly audioContext: AudioContext;
+  /** Stable output of the stream; survives the fade node swaps in pause(). */
+  public readonly output: GainNode;
   public extraDestination: AudioNode | null = null;
 
   private outputNode: GainNode;
   private playbackState: PlaybackState = 'stopped';
 
   private prompts: Map<string, Prompt>;
+  private config: MusicConfig | null = null;
+  private configTimer: number | null = null;
 
-  constructor(ai: GoogleGenAI, model: string) {
+  constructor(backend: MusicBackend, transport: Transport) {
     super();
-    this.ai = ai;
-    this.model = model;
+    this.backend = backend;
+    this.transport = transport;
     this.prompts = new Map();
-    this.audioContext = new AudioContext({ sampleRate: 48000 });
+    this.audioContext = transport.audioContext;
+    this.output = this.audioContext.createGain();
+    this.output.connect(this.audioContext.destination);
     this.outputNode = this.audioContext.createGain();
+    this.jitterBuffer = new JitterBuffer(this.audioContext);
   }
 
-  private getSession(): Promise<LiveMusicSession> {
+  private getSession(): Promise<MusicConnection> {
     if (!this.sessionPromise) this.sessionPromise = this.connect();
     return this.sessionPromise;
   }
 
-  private async connect(): Promise<LiveMusicSession> {
-    this.sessionPromise = this.ai.live.music.connect({
-      model: this.model,
-      callbacks: {
-        onmessage: async (e: LiveMusicServerMessage) => {
-          if (e.setupComplete) {
-            this.connectionError = false;
-          }
-          if (e.filteredPrompt) {
-            this.filteredPrompts = new Set([...this.filteredPrompts, e.filteredPrompt.text!])
-            this.dispatchEvent(new CustomEvent<LiveMusicFilteredPrompt>('filtered-prompt', { detail: e.filteredPrompt }));
-          }
-          if (e.serverContent?.audioChunks) {
-            await this.processAudioChunks(e.serverContent.audioChunks);
-          }
+  private async connect(): Promise<MusicConnection> {
+    const id = ++this.connectionId;
+    const isCurrent = () => id === this.connectionId;
+    this.setConnectionStatus(this.reconnectAttempts > 0 ? 'reconnecting' : 'connecting');
+    let session: MusicConnection;
+    try {
+      session = await this.backend.connect({
+        onAudio: (chunks: PcmChunk[]) => {
+          if (isCurrent()) this.processAudioChunks(chunks);
         },
-        onerror: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'Connection error, please restart audio.' }));
+        onFilteredPrompt: (prompt: FilteredPrompt) => {
+          if (isCurrent()) this.handleFilteredPrompt(prompt);
         },
-        onclose: () => {
-          this.connectionError = true;
-          this.stop();
-          this.dispatchEvent(new CustomEvent('error', { detail: 'Connection error, please restart audio.' }));
+        onClose: () => {
+          if (isCurrent()) this.handleConnectionLost();
         },
-      },
-    });
-    return this.sessionPromise;
+      });
+    } catch (e) {
+      if (isCurrent()) {
+        this.sessionPromise = null;
+        this.setConnectionStatus('disconnected');
+      }
+      throw e;
+    }
+    if (!isCurrent()) {
+      session.close();
+      throw new Error('The connection was abandoned.');
+    }
+    this.reconnectAttempts = 0;
+    this.setConnectionStatus('connected');
+    return session;
+  }
+
+  private handleFilteredPrompt(prompt: FilteredPrompt) {
+    this.filteredPrompts = new Set([...this.filteredPrompts, prompt.text])
+    this.dispatchEvent(new CustomEvent<FilteredPrompt>('filtered-prompt', { detail: prompt }));
+  }
+
+  /** Reconnects if the music is meant to be playing; otherwise the next play connects again. */
+  private handleConnectionLost() {
+    this.connectionId++;
+    this.session = null;
+    this.sessionPromise = null;
+    if (this.playbackState === 'paused' || this.playbackState === 'stopped') {
+      this.setConnectionStatus('disconnected');
+      return;
+    }
+    this.scheduleReconnect();
+  }
+
+  private scheduleReconnect() {
+    if (this.reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      this.stop();
+      this.dispatchEvent(new CustomEvent('error', { detail: 'Lost the connection to the music session. Press play to try again.' }));
+      return;
+    }
+    // Spread the retries a little so many clients do not come back at once.
+    const delay = Math.min(RECONNECT_MAX_DELAY, RECONNECT_BASE_DELAY * 2 ** this.reconnectAttempts) * (0.8 + Math.random() * 0.4);
+    this.reconnectAttempts++;
+    this.setConnectionStatus('reconnecting');
+    this.reconnectTimer = window.setTimeout(() => {
+      this.reconnectTimer = null;
+      this.reconnect();
+    }, delay);
+  }
+
+  private async reconnect() {
+    let session: MusicConnection;
+    try {
+      session = await this.getSession();
+    } catch {
+      if (this.playbackState !== 'paused' && this.playbackState !== 'stopped') this.scheduleReconnect();
+      return;
+    }
+    this.session = session;
+    if (this.playbackState === 'paused' || this.playbackState === 'stopped') return;
+    await this.sendMusicConfig();
+    await this.sendWeightedPrompts();
+    session.play();
+  }
+
+  private cancelReconnect() {
+    if (this.reconnectTimer !== null) clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.reconnectAttempts = 0;
+  }
+
+  private setConnectionStatus(status: ConnectionStatus) {
+    if (status === this.connectionStatus) return;
+    this.connectionStatus = status;
+    this.dispatchEvent(new CustomEvent<ConnectionStatus>('connection-status-changed', { detail: status }));
   }
 
   private setPlaybackState(state: PlaybackState) {
@@ -80,30 +175,37 @@ export class LiveMusicHelper extends EventTarget {
     this.dispatchEvent(new CustomEvent('playback-state-changed', { detail: state }));
   }
 
-  private async processAudioChunks(audioChunks: AudioChunk[]) {
+  private processAudioChunks(audioChunks: PcmChunk[]) {
     if (this.playbackState === 'paused' || this.playbackState === 'stopped') return;
-    const audioBuffer = await decodeAudioData(
-      decode(audioChunks[0].data!),
-      this.audioContext,
-      48000,
-      2,
-    );
-    const source = this.audioContext.createBufferSource();
-    source.buffer = audioBuffer;
-    source.connect(this.outputNode);
-    if (this.nextStartTime === 0) {
-      this.nextStartTime = this.audioContext.currentTime + this.bufferTime;
+    const streamId = this.streamId;
+    // Every chunk starts decoding at once; they are scheduled in order as they finish.
+    const decoded = audioChunks.map((chunk) => this.decoder
+      .decode(chunk.data, chunk.mimeType, this.audioContext, DEFAULT_FORMAT)
+      .catch((e: Error) => {
+        this.dispatchEvent(new CustomEvent('error', { detail: `Could not play the music: ${e.message}` }));
+        return null;
+      }));
+    this.audioQueue = this.audioQueue.then(async () => {
+      for (const pending of decoded) {
+        const audioBuffer = await pending;
+        if (streamId !== this.streamId) return;
+        if (audioBuffer) this.scheduleAudio(audioBuffer);
+      }
+    });
+  }
+
+  private scheduleAudio(audioBuffer: AudioBuffer) {
+    if (!this.jitterBuffer.isStarted) {
+      const startTime = this.transport.join('launchpad', {
+        earliest: this.audioContext.currentTime + this.jitterBuffer.targetLatency,
+      });
+      this.jitterBuffer.start(startTime);
       setTimeout(() => {
-        this.setPlaybackState('playing');
-      }, this.bufferTime * 1000);
+        if (this.playbackState === 'loading') this.setPlaybackState('playing');
+      }, (startTime - this.audioContext.currentTime) * 1000);
     }
-    if (this.nextStartTime < this.audioContext.currentTime) {
-      this.setPlaybackState('loading');
-      this.nextStartTime = 0;
-      return;
-    }
-    source.start(this.nextStartTime);
-    this.nextStartTime += audioBuffer.duration;
+    this.jitterBuffer.push(audioBuffer, this.outputNode);
+    this.dispatchEvent(new CustomEvent<BufferStats>('buffer-stats', { detail: this.jitterBuffer.stats }));
   }
 
   public get activePrompts() {
@@ -131,48 +233,91 @@ export class LiveMusicHelper extends EventTarget {
 
     // store the prompts to set later if we haven't connected yet
     // there should be a user interaction before calling setWeightedPrompts
+    await this.sendWeightedPrompts();
+  }, 200);
+
+  private async sendWeightedPrompts() {
     if (!this.session) return;
 
     const weightedPrompts = this.activePrompts.map((p) => {
       return {text: p.text, weight: p.weight};
     });
     try {
-      await this.session.setWeightedPrompts({
-        weightedPrompts,
-      });
+      await this.session.setWeightedPrompts(weightedPrompts);
     } catch (e: any) {
       this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
       this.pause();
     }
-  }, 200);
+  }
+
+  /** Sets tempo, scale and the generation settings; the latest config is sent shortly after. */
+  public setMusicConfig(config: MusicConfig) {
+    this.config = config;
+    if (this.configTimer !== null) return;
+    this.configTimer = window.setTimeout(() => {
+      this.configTimer = null;
+      this.sendMusicConfig();
+    }, CONFIG_SEND_DELAY);
+  }
+
+  private async sendMusicConfig() {
+    if (!this.session || !this.config) return;
+    try {
+      await this.session.setMusicConfig(this.config);
+    } catch (e: any) {
+      this.dispatchEvent(new CustomEvent('error', { detail: e.message }));
+    }
+  }
 
   public async play() {
     this.setPlaybackState('loading');
-    this.session = await this.getSession();
+    try {
+      this.session = await this.getSession();
+    } catch (e: any) {
+      // Stopping while connecting abandons the connection; that is not an error.
+      if (this.playbackState !== 'loading') return;
+      this.setPlaybackState('stopped');
+      this.dispatchEvent(new CustomEvent('error', { detail: `Could not connect to the music session: ${e.message}` }));
+      return;
+    }
+    await this.sendMusicConfig();
     await this.setWeightedPrompts(this.prompts);
     this.audioContext.resume();
     this.session.play();
-    this.outputNode.connect(this.audioContext.destination);
+    this.outputNode.connect(this.output);
     if (this.extraDestination) this.outputNode.connect(this.extraDestination);
     this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
   }
 
   public pause() {
+    this.cancelReconnect();
     if (this.session) this.session.pause();
+    if (!this.sessionPromise) this.setConnectionStatus('disconnected');
     this.setPlaybackState('paused');
     this.outputNode.gain.setValueAtTime(1, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(0, this.audioContext.currentTime + 0.1);
-    this.nextStartTime = 0;
+    this.jitterBuffer.reset();
+    this.streamId++;
+    this.transport.leave('launchpad');
     this.outputNode = this.audioContext.createGain();
   }
 
   public stop() {
-    if (this.session) this.session.stop();
+    this.cancelReconnect();
+    // Abandon the connection first, so closing it is not taken for a drop.
+    this.connectionId++;
+    if (this.session) {
+      this.session.stop();
+      this.session.close();
+    }
+    this.setConnectionStatus('disconnected');
     this.setPlaybackState('stopped');
     this.outputNode.gain.setValueAtTime(0, this.audioContext.currentTime);
     this.outputNode.gain.linearRampToValueAtTime(1, this.audioContext.currentTime + 0.1);
-    this.nextStartTime = 0;
+    this.jitterBuffer.reset();
+    this.streamId++;
+    this.transport.leave('launchpad');
     this.session = null;
     this.sessionPromise = null;
   }
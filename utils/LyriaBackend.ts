@@ -0,0 +1,101 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MusicConfig } from '../types';
+// FIX: Changed type-only import to a regular import to comply with coding guidelines.
+import { GoogleGenAI, LiveMusicGenerationConfig, LiveMusicServerMessage, LiveMusicSession, Scale } from '@google/genai';
+import type { MusicBackend, MusicBackendCallbacks, MusicConnection, WeightedPrompt } from './MusicBackend';
+import { relativeMajor } from './music';
+
+/** Lyria's scales by the pitch class of their major key, from C. */
+const LYRIA_SCALES: Scale[] = [
+  Scale.C_MAJOR_A_MINOR, Scale.D_FLAT_MAJOR_B_FLAT_MINOR, Scale.D_MAJOR_B_MINOR, Scale.E_FLAT_MAJOR_C_MINOR,
+  Scale.E_MAJOR_D_FLAT_MINOR, Scale.F_MAJOR_D_MINOR, Scale.G_FLAT_MAJOR_E_FLAT_MINOR, Scale.G_MAJOR_E_MINOR,
+  Scale.A_FLAT_MAJOR_F_MINOR, Scale.A_MAJOR_G_FLAT_MINOR, Scale.B_FLAT_MAJOR_G_MINOR, Scale.B_MAJOR_A_FLAT_MINOR,
+];
+
+function toGenerationConfig(config: MusicConfig): LiveMusicGenerationConfig {
+  const { bpm, key, scale, density, brightness, guidance, temperature, seed } = config;
+  return {
+    bpm,
+    scale: LYRIA_SCALES[relativeMajor(key, scale)],
+    guidance,
+    temperature,
+    ...(density !== null ? { density } : {}),
+    ...(brightness !== null ? { brightness } : {}),
+    ...(seed !== null ? { seed } : {}),
+  };
+}
+
+/** Google's Lyria RealTime model, streamed over the Gemini API. */
+export class LyriaBackend implements MusicBackend {
+  readonly name = 'Lyria RealTime';
+  private ai: GoogleGenAI;
+  private model: string;
+
+  constructor(ai: GoogleGenAI, model: string) {
+    this.ai = ai;
+    this.model = model;
+  }
+
+  async connect(callbacks: MusicBackendCallbacks): Promise<MusicConnection> {
+    const session = await this.ai.live.music.connect({
+      model: this.model,
+      callbacks: {
+        onmessage: (e: LiveMusicServerMessage) => {
+          if (e.filteredPrompt) {
+            callbacks.onFilteredPrompt({ text: e.filteredPrompt.text ?? '', reason: e.filteredPrompt.filteredReason ?? '' });
+          }
+          if (e.serverContent?.audioChunks) {
+            callbacks.onAudio(e.serverContent.audioChunks.map(({ data, mimeType }) => ({ data: data ?? '', mimeType })));
+          }
+        },
+        onerror: () => callbacks.onClose(),
+        onclose: () => callbacks.onClose(),
+      },
+    });
+    return new LyriaConnection(session);
+  }
+}
+
+class LyriaConnection implements MusicConnection {
+  private session: LiveMusicSession;
+  /** Config the session last received, to tell when its context must be reset. */
+  private sentConfig: LiveMusicGenerationConfig | null = null;
+
+  constructor(session: LiveMusicSession) {
+    this.session = session;
+  }
+
+  setWeightedPrompts(weightedPrompts: WeightedPrompt[]) {
+    return this.session.setWeightedPrompts({ weightedPrompts });
+  }
+
+  async setMusicConfig(config: MusicConfig) {
+    const musicGenerationConfig = toGenerationConfig(config);
+    const previous = this.sentConfig;
+    this.sentConfig = musicGenerationConfig;
+    await this.session.setMusicGenerationConfig({ musicGenerationConfig });
+    // The model only picks up a new tempo or scale once its context is reset.
+    if (previous && (previous.bpm !== musicGenerationConfig.bpm || previous.scale !== musicGenerationConfig.scale)) {
+      this.session.resetContext();
+    }
+  }
+
+  play() {
+    this.session.play();
+  }
+
+  pause() {
+    this.session.pause();
+  }
+
+  stop() {
+    this.session.stop();
+  }
+
+  close() {
+    this.session.close();
+  }
+}
@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MidiTimestamp, SongPosition } from '../types';
+import type { DrumMachine } from './AudioAnalyser';
+import type { MidiDispatcher } from './MidiDispatcher';
+
+/**
+ * Where the beatmaker's timing comes from: its own scheduler, an incoming
+ * MIDI clock it follows, or its own scheduler with clock sent out.
+ */
+export type ClockMode = 'internal' | 'receive' | 'send';
+
+const PPQN = 24;
+/** Clock ticks per MIDI beat (a sixteenth note), the unit of song position. */
+const TICKS_PER_MIDI_BEAT = PPQN / 4;
+/** Allowance for floating point error when steps fall between ticks. */
+const STEP_EPSILON = 1e-6;
+/** How quickly the measured tick period follows tempo changes (0-1). */
+const PERIOD_SMOOTHING = 0.05;
+/** How strongly each tick pulls the smoothed grid towards its arrival time (0-1). */
+const PHASE_SMOOTHING = 0.2;
+/** Ticks further apart than this many periods restart the smoothing. */
+const MAX_TICK_GAP = 4;
+/** Seconds added to received ticks so their steps can be scheduled ahead. */
+const RECEIVE_LATENCY = 0.05;
+/** Incoming tempo changes smaller than this are not reported, in BPM. */
+const TEMPO_TOLERANCE = 0.5;
+/** How far ahead outgoing ticks are queued, in ms. */
+const SEND_LOOKAHEAD = 100;
+const SEND_INTERVAL = 25;
+
+const CLOCK = 0xf8;
+const START = 0xfa;
+const STOP = 0xfc;
+const SONG_POSITION_POINTER = 0xf2;
+
+/**
+ * Syncs the beatmaker with other gear over MIDI clock. When receiving, the
+ * beatmaker's steps are played from the incoming ticks and the tempo is
+ * reported as 'tempo-changed'; Start, Stop and Continue are reported as
+ * 'running-changed'. When sending, clock follows the beatmaker's own timing.
+ */
+export class MidiClock extends EventTarget {
+  private midiDispatcher: MidiDispatcher;
+  private drumMachine: DrumMachine;
+  private audioContext: AudioContext;
+  private clockMode: ClockMode = 'internal';
+  /** Output that receives clock in send mode. */
+  public outputId: string | null = null;
+
+  // Receiving
+  private running = false;
+  /** Ticks since the start of the song. */
+  private position = 0;
+  private lastTickTime: number | null = null;
+  private tickPeriod: number | null = null;
+  private smoothedTickTime = 0;
+  private reportedTempo = 0;
+
+  // Sending
+  private tempo = 120;
+  private sendTimer: number | null = null;
+  private nextSendTime = 0;
+
+  constructor(midiDispatcher: MidiDispatcher, drumMachine: DrumMachine, audioContext: AudioContext) {
+    super();
+    this.midiDispatcher = midiDispatcher;
+    this.drumMachine = drumMachine;
+    this.audioContext = audioContext;
+
+    midiDispatcher.addEventListener('midi-clock', (e: Event) => {
+      if (this.clockMode === 'receive') this.handleTick((e as CustomEvent<MidiTimestamp>).detail.timeStamp);
+    });
+    midiDispatcher.addEventListener('midi-start', () => {
+      if (this.clockMode !== 'receive') return;
+      this.position = 0;
+      this.setRunning(true);
+    });
+    midiDispatcher.addEventListener('midi-continue', () => {
+      if (this.clockMode === 'receive') this.setRunning(true);
+    });
+    midiDispatcher.addEventListener('midi-stop', () => {
+      if (this.clockMode === 'receive') this.setRunning(false);
+    });
+    midiDispatcher.addEventListener('song-position', (e: Event) => {
+      if (this.clockMode !== 'receive') return;
+      this.position = (e as CustomEvent<SongPosition>).detail.position * TICKS_PER_MIDI_BEAT;
+    });
+
+    drumMachine.addEventListener('started', (e: Event) => {
+      if (this.clockMode === 'send') this.startSending((e as CustomEvent<number>).detail);
+    });
+    drumMachine.addEventListener('stopped', () => this.stopSending());
+  }
+
+  get mode(): ClockMode {
+    return this.clockMode;
+  }
+
+  setMode(mode: ClockMode) {
+    if (mode === this.clockMode) return;
+    this.stopSending();
+    this.setRunning(false);
+    this.lastTickTime = null;
+    this.tickPeriod = null;
+    this.reportedTempo = 0;
+    this.clockMode = mode;
+  }
+
+  /** Tempo of the clock sent out, in BPM. */
+  setTempo(bpm: number) {
+    this.tempo = bpm;
+  }
+
+  private setRunning(running: boolean) {
+    if (running === this.running) return;
+    this.running = running;
+    this.dispatchEvent(new CustomEvent<boolean>('running-changed', { detail: running }));
+  }
+
+  private handleTick(timeStamp: number) {
+    this.smoothTick(timeStamp);
+    if (!this.running) return;
+    // Triplet and odd step resolutions put steps between ticks.
+    const ticksPerStep = PPQN / this.drumMachine.stepsPerQuarter;
+    const tickTime = this.audioContext.currentTime
+      + (this.smoothedTickTime - performance.now()) / 1000
+      + RECEIVE_LATENCY;
+    for (let step = Math.ceil(this.position / ticksPerStep - STEP_EPSILON);
+      step * ticksPerStep < this.position + 1 - STEP_EPSILON;
+      step++) {
+      const offset = (step * ticksPerStep - this.position) * (this.tickPeriod ?? 0) / 1000;
+      this.drumMachine.scheduleStep(step, tickTime + offset);
+    }
+    this.position++;
+  }
+
+  /**
+   * Follows the incoming clock with a simple phase-locked loop: the period
+   * is a slow moving average and each tick only nudges the predicted grid,
+   * so USB and driver jitter do not reach the drums.
+   */
+  private smoothTick(timeStamp: number) {
+    const last = this.lastTickTime;
+    this.lastTickTime = timeStamp;
+    if (last === null) {
+      this.smoothedTickTime = timeStamp;
+      return;
+    }
+    const interval = timeStamp - last;
+    if (this.tickPeriod === null || interval > this.tickPeriod * MAX_TICK_GAP) {
+      this.tickPeriod = interval;
+      this.smoothedTickTime = timeStamp;
+    } else {
+      this.tickPeriod += (interval - this.tickPeriod) * PERIOD_SMOOTHING;
+      const predicted = this.smoothedTickTime + this.tickPeriod;
+      this.smoothedTickTime = predicted + (timeStamp - predicted) * PHASE_SMOOTHING;
+    }
+    if (this.tickPeriod <= 0) return;
+    const tempo = 60000 / (this.tickPeriod * PPQN);
+    if (Math.abs(tempo - this.reportedTempo) >= TEMPO_TOLERANCE) {
+      this.reportedTempo = tempo;
+      this.dispatchEvent(new CustomEvent<number>('tempo-changed', { detail: Math.round(tempo) }));
+    }
+  }
+
+  /** Sends Start, then ticks from the beatmaker's first step at `startTime` (AudioContext time). */
+  private startSending(startTime: number) {
+    if (!this.outputId) return;
+    this.stopSending();
+    this.nextSendTime = performance.now() + (startTime - this.audioContext.currentTime) * 1000;
+    this.midiDispatcher.sendTo(this.outputId, [SONG_POSITION_POINTER, 0, 0]);
+    this.midiDispatcher.sendTo(this.outputId, [START], this.nextSendTime);
+    this.sendTicks();
+    this.sendTimer = window.setInterval(() => this.sendTicks(), SEND_INTERVAL);
+  }
+
+  private sendTicks() {
+    if (!this.outputId) return;
+    while (this.nextSendTime < performance.now() + SEND_LOOKAHEAD) {
+      this.midiDispatcher.sendTo(this.outputId, [CLOCK], this.nextSendTime);
+      this.nextSendTime += 60000 / (this.tempo * PPQN);
+    }
+  }
+
+  private stopSending() {
+    if (this.sendTimer === null) return;
+    clearInterval(this.sendTimer);
+    this.sendTimer = null;
+    if (this.outputId) this.midiDispatcher.sendTo(this.outputId, [STOP]);
+  }
+}
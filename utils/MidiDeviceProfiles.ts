@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** What a pad LED should show. */
+export type LedState = 'off' | 'idle' | 'active' | 'filtered';
+
+/** Describes how to light up the pads of a family of MIDI controllers. */
+export interface MidiDeviceProfile {
+  readonly id: string;
+  readonly name: string;
+  /** Matches the port names the device reports. */
+  readonly portName?: RegExp;
+  /** Notes used for pads that have not learned a note, in pad order. */
+  readonly padNotes: number[];
+  padMessage(note: number, color: string, state: LedState): number[];
+  /** Number of LEDs available for the sequencer playhead, if any. */
+  readonly playheadLength: number;
+  playheadMessage(index: number, lit: boolean): number[];
+}
+
+const NOTE_ON = 0x90;
+const CONTROL_CHANGE = 0xb0;
+/** Launchpads flash on MIDI channel 2 and pulse on channel 3. */
+const LAUNCHPAD_PULSE = 0x92;
+
+/**
+ * Full-brightness colors of the Launchpad Mini MK3 / X palette. The hue
+ * groups start at index 4, each with a bright, full, dim and dimmer entry.
+ */
+const LAUNCHPAD_HUES: [number, number, number][] = [
+  [255, 0, 0], // 5 red
+  [255, 84, 0], // 9 orange
+  [255, 255, 0], // 13 yellow
+  [136, 255, 0], // 17 lime
+  [0, 255, 0], // 21 green
+  [0, 255, 84], // 25 spring green
+  [0, 255, 136], // 29 mint
+  [0, 255, 204], // 33 teal
+  [0, 204, 255], // 37 cyan
+  [0, 136, 255], // 41 sky
+  [0, 84, 255], // 45 blue
+  [84, 0, 255], // 49 violet
+  [170, 0, 255], // 53 purple
+  [255, 0, 170], // 57 magenta
+];
+const LAUNCHPAD_WHITE = 3;
+const LAUNCHPAD_DIM_WHITE = 1;
+const LAUNCHPAD_RED = 5;
+
+function hexToRgb(color: string): [number, number, number] | null {
+  const match = /^#?([0-9a-f]{6})$/i.exec(color.trim());
+  if (!match) return null;
+  const value = parseInt(match[1], 16);
+  return [(value >> 16) & 0xff, (value >> 8) & 0xff, value & 0xff];
+}
+
+/** Returns the palette index of the full-brightness hue closest to a CSS hex color. */
+function nearestLaunchpadColor(color: string): number {
+  const rgb = hexToRgb(color);
+  if (!rgb) return LAUNCHPAD_WHITE;
+  // Washed-out colors read best as white on the hardware.
+  if (Math.max(...rgb) - Math.min(...rgb) < 48) return LAUNCHPAD_WHITE;
+  let best = 0;
+  let bestDistance = Infinity;
+  LAUNCHPAD_HUES.forEach(([r, g, b], i) => {
+    const distance = (r - rgb[0]) ** 2 + (g - rgb[1]) ** 2 + (b - rgb[2]) ** 2;
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = i;
+    }
+  });
+  return 5 + best * 4;
+}
+
+/** The 8x8 grid in Programmer mode, numbered from the bottom-left pad. */
+const LAUNCHPAD_GRID_NOTES = Array.from({ length: 64 }, (_, i) => {
+  const row = 8 - Math.floor(i / 8);
+  return row * 10 + (i % 8) + 1;
+});
+
+/** Novation Launchpad Mini MK3 and Launchpad X, in Programmer mode. */
+const LAUNCHPAD: MidiDeviceProfile = {
+  id: 'launchpad',
+  name: 'Launchpad Mini / X',
+  portName: /launchpad|LPMiniMK3|LPX/i,
+  padNotes: LAUNCHPAD_GRID_NOTES,
+  padMessage(note, color, state) {
+    switch (state) {
+      case 'off':
+        return [NOTE_ON, note, 0];
+      case 'filtered':
+        return [LAUNCHPAD_PULSE, note, LAUNCHPAD_RED];
+      case 'active':
+        return [NOTE_ON, note, nearestLaunchpadColor(color)];
+      case 'idle': {
+        const full = nearestLaunchpadColor(color);
+        // The dimmest shade sits two entries after the full one.
+        return [NOTE_ON, note, full === LAUNCHPAD_WHITE ? LAUNCHPAD_DIM_WHITE : full + 2];
+      }
+    }
+  },
+  // The round buttons above the grid.
+  playheadLength: 8,
+  playheadMessage(index, lit) {
+    return [CONTROL_CHANGE, 91 + index, lit ? LAUNCHPAD_WHITE : 0];
+  },
+};
+
+/** Velocity-lit pads, as found on most note-based controllers. */
+const GENERIC: MidiDeviceProfile = {
+  id: 'generic',
+  name: 'Generic',
+  padNotes: Array.from({ length: 16 }, (_, i) => 36 + i),
+  padMessage(note, _color, state) {
+    const velocity = { off: 0, idle: 8, active: 127, filtered: 40 }[state];
+    return [NOTE_ON, note, velocity];
+  },
+  playheadLength: 0,
+  playheadMessage() {
+    return [];
+  },
+};
+
+export const DEVICE_PROFILES: MidiDeviceProfile[] = [GENERIC, LAUNCHPAD];
+
+/** Picks the profile for a port name, defaulting to the generic one. */
+export function findDeviceProfile(portName: string | null): MidiDeviceProfile {
+  return DEVICE_PROFILES.find((p) => p.portName && portName && p.portName.test(portName)) ?? GENERIC;
+}
+
+export function getDeviceProfile(id: string): MidiDeviceProfile | undefined {
+  return DEVICE_PROFILES.find((p) => p.id === id);
+}
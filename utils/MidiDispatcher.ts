@@ -2,17 +2,39 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
-import type { ControlChange } from '../types';
+import { MidiParser } from './MidiParser';
 
-/** Simple class for dispatching MIDI CC messages as events. */
+/** Selects every connected input at once in place of a single device id. */
+export const ALL_MIDI_INPUTS = 'all';
+
+const PREFERENCES_KEY = 'lollipad.midi';
+
+/**
+ * Dispatches MIDI channel messages from the active input as events:
+ * 'note-on', 'note-off', 'cc-message', 'program-change', 'pitch-bend'
+ * and 'channel-pressure', plus clock and transport as 'midi-clock',
+ * 'midi-start', 'midi-continue', 'midi-stop' and 'song-position'.
+ * Messages can be sent back to the same device.
+ * Follows devices being plugged in and out, reporting 'devices-changed'.
+ */
 export class MidiDispatcher extends EventTarget {
   private access: MIDIAccess | null = null;
   activeMidiInputId: string | null = null;
+  /** Channel each device is limited to, keyed by device name. Absent means all channels. */
+  private channelFilters = new Map<string, number>();
+  /** Device the user picked, remembered by name so it can be re-bound after a replug. */
+  private preferredInput: string | null = null;
+  private parsers = new Map<string, MidiParser>();
+
+  constructor() {
+    super();
+    this.loadPreferences();
+  }
 
   async getMidiAccess(): Promise<string[]> {
 
     if (this.access) {
-      return [...this.access.inputs.keys()];
+      return this.getInputIds();
     }
 
     if (!navigator.requestMIDIAccess) {
@@ -27,37 +49,172 @@ export class MidiDispatcher extends EventTarget {
       throw new Error('Unable to acquire MIDI access.');
     }
 
-    const inputIds = [...this.access.inputs.keys()];
+    for (const input of this.access.inputs.values()) {
+      this.bindInput(input);
+    }
+    this.access.onstatechange = (event: MIDIConnectionEvent) => {
+      if (event.port?.type === 'input') this.bindInput(event.port as MIDIInput);
+      this.rebindActiveInput();
+    };
+    this.rebindActiveInput();
 
-    if (inputIds.length > 0 && this.activeMidiInputId === null) {
-      this.activeMidiInputId = inputIds[0];
+    return this.getInputIds();
+  }
+
+  /** Ids of the inputs that are currently plugged in. */
+  getInputIds(): string[] {
+    if (!this.access) return [];
+    return [...this.access.inputs.values()]
+      .filter((input) => input.state === 'connected')
+      .map((input) => input.id);
+  }
+
+  /** Listens to one input, or to every input when given ALL_MIDI_INPUTS. */
+  selectInput(id: string) {
+    this.activeMidiInputId = id;
+    this.preferredInput = id === ALL_MIDI_INPUTS ? ALL_MIDI_INPUTS : this.getDeviceName(id);
+    this.savePreferences();
+    this.dispatchDevicesChanged();
+  }
+
+  /** The MIDI channel (0-15) a device is limited to, or null for all channels. */
+  getChannelFilter(id: string): number | null {
+    const name = this.getDeviceName(id);
+    return name !== null ? this.channelFilters.get(name) ?? null : null;
+  }
+
+  setChannelFilter(id: string, channel: number | null) {
+    const name = this.getDeviceName(id);
+    if (name === null) return;
+    if (channel === null) {
+      this.channelFilters.delete(name);
+    } else {
+      this.channelFilters.set(name, channel);
     }
+    this.savePreferences();
+    this.dispatchDevicesChanged();
+  }
 
-    for (const input of this.access.inputs.values()) {
-      input.onmidimessage = (event: MIDIMessageEvent) => {
-        if (input.id !== this.activeMidiInputId) return;
+  private bindInput(input: MIDIInput) {
+    if (this.parsers.has(input.id)) return;
+    const parser = new MidiParser();
+    this.parsers.set(input.id, parser);
+    input.onmidimessage = (event: MIDIMessageEvent) => {
+      if (this.activeMidiInputId !== ALL_MIDI_INPUTS && input.id !== this.activeMidiInputId) return;
 
-        const { data } = event;
-        if (!data) {
-          console.error('MIDI message has no data');
-          return;
+      const { data } = event;
+      if (!data) {
+        console.error('MIDI message has no data');
+        return;
+      }
+
+      const channel = this.getChannelFilter(input.id);
+      for (const { type, detail } of parser.parse(data, event.timeStamp)) {
+        if (channel !== null && 'channel' in detail && detail.channel !== channel) continue;
+        this.dispatchEvent(new CustomEvent(type, { detail }));
+      }
+    };
+  }
+
+  /**
+   * Keeps the active input pointing at a connected device: the one the user
+   * picked if it is plugged in, otherwise the first available input.
+   */
+  private rebindActiveInput() {
+    const inputIds = this.getInputIds();
+    let activeId: string | null;
+    if (this.preferredInput === ALL_MIDI_INPUTS) {
+      activeId = ALL_MIDI_INPUTS;
+    } else {
+      const preferredId = inputIds.find((id) => this.getDeviceName(id) === this.preferredInput);
+      if (preferredId) {
+        activeId = preferredId;
+      } else if (this.activeMidiInputId && inputIds.includes(this.activeMidiInputId)) {
+        activeId = this.activeMidiInputId;
+      } else {
+        activeId = inputIds[0] ?? null;
+      }
+    }
+    this.activeMidiInputId = activeId;
+    this.dispatchDevicesChanged();
+  }
+
+  private dispatchDevicesChanged() {
+    this.dispatchEvent(new CustomEvent<string[]>('devices-changed', { detail: this.getInputIds() }));
+  }
+
+  private loadPreferences() {
+    try {
+      const prefs = JSON.parse(localStorage.getItem(PREFERENCES_KEY) ?? '{}');
+      if (typeof prefs.input === 'string') this.preferredInput = prefs.input;
+      if (prefs.channels && typeof prefs.channels === 'object') {
+        for (const [name, channel] of Object.entries(prefs.channels)) {
+          if (typeof channel === 'number' && channel >= 0 && channel < 16) {
+            this.channelFilters.set(name, channel);
+          }
         }
+      }
+    } catch (e) {
+      console.warn('Ignoring unreadable MIDI preferences.', e);
+    }
+  }
 
-        const statusByte = data[0];
-        const channel = statusByte & 0x0f;
-        const messageType = statusByte & 0xf0;
+  private savePreferences() {
+    try {
+      localStorage.setItem(PREFERENCES_KEY, JSON.stringify({
+        input: this.preferredInput,
+        channels: Object.fromEntries(this.channelFilters),
+      }));
+    } catch (e) {
+      console.warn('Failed to save MIDI preferences.', e);
+    }
+  }
 
-        const isControlChange = messageType === 0xb0;
-        if (!isControlChange) return;
+  /**
+   * The output belonging to the active input, matched by port name. Only that
+   * device receives feedback, so unrelated synths are never sent LED data.
+   */
+  get activeOutput(): MIDIOutput | null {
+    if (!this.access || this.activeMidiInputId === null) return null;
+    // With all inputs active, feedback goes to the first device that can take it.
+    const inputIds = this.activeMidiInputId === ALL_MIDI_INPUTS ? this.getInputIds() : [this.activeMidiInputId];
+    const inputNames = inputIds.map((id) => this.getDeviceName(id));
+    for (const name of inputNames) {
+      for (const output of this.access.outputs.values()) {
+        if (output.name === name && output.state === 'connected') return output;
+      }
+    }
+    return null;
+  }
 
-        const detail: ControlChange = { cc: data[1], value: data[2], channel };
-        this.dispatchEvent(
-          new CustomEvent<ControlChange>('cc-message', { detail }),
-        );
-      };
+  /** Sends a message to the active output, if there is one. */
+  send(data: number[]) {
+    try {
+      this.activeOutput?.send(data);
+    } catch (e) {
+      console.warn('Failed to send MIDI message.', e);
     }
+  }
 
-    return inputIds;
+  /** Ids of the outputs that are currently plugged in. */
+  getOutputIds(): string[] {
+    if (!this.access) return [];
+    return [...this.access.outputs.values()]
+      .filter((output) => output.state === 'connected')
+      .map((output) => output.id);
+  }
+
+  getOutputName(id: string): string | null {
+    return this.access?.outputs.get(id)?.name ?? null;
+  }
+
+  /** Sends a message to a specific output, optionally at a performance.now() time. */
+  sendTo(outputId: string, data: number[], timestamp?: number) {
+    try {
+      this.access?.outputs.get(outputId)?.send(data, timestamp);
+    } catch (e) {
+      console.warn('Failed to send MIDI message.', e);
+    }
   }
 
   getDeviceName(id: string): string | null {
@@ -0,0 +1,110 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Prompt } from '../types';
+import { findDeviceProfile, getDeviceProfile, type LedState, type MidiDeviceProfile } from './MidiDeviceProfiles';
+import type { MidiDispatcher } from './MidiDispatcher';
+
+/**
+ * Mirrors the pads and the sequencer playhead on the active controller's LEDs.
+ * Only changed LEDs are sent, so it is cheap to call on every render.
+ */
+export class MidiFeedback {
+  private midiDispatcher: MidiDispatcher;
+  /** Profile id chosen by the user, or null to detect it from the port name. */
+  public profileOverride: string | null = null;
+  private output: MIDIOutput | null = null;
+  private profile: MidiDeviceProfile | null = null;
+  /** Last message sent per LED, keyed by the first two bytes. */
+  private sent = new Map<string, number[]>();
+  private playheadIndex = -1;
+
+  constructor(midiDispatcher: MidiDispatcher) {
+    this.midiDispatcher = midiDispatcher;
+  }
+
+  /** The profile in use for the active device. */
+  get activeProfile(): MidiDeviceProfile {
+    const override = this.profileOverride ? getDeviceProfile(this.profileOverride) : undefined;
+    return override ?? findDeviceProfile(this.output?.name ?? null);
+  }
+
+  showPads(prompts: Iterable<Prompt>, isFiltered: (text: string) => boolean) {
+    const profile = this.refresh();
+    if (!profile) return;
+    const lit = new Set<number>();
+    let i = 0;
+    for (const prompt of prompts) {
+      const note = prompt.note ?? profile.padNotes[i];
+      i++;
+      if (note === undefined) continue;
+      const state: LedState = isFiltered(prompt.text)
+        ? 'filtered'
+        : prompt.weight > 0 ? 'active' : 'idle';
+      this.send(profile.padMessage(note, prompt.color, state));
+      lit.add(note);
+    }
+    // Darken LEDs left behind by deleted or re-learned pads.
+    for (const message of [...this.sent.values()]) {
+      const note = message[1];
+      if ((message[0] & 0xf0) === 0x90 && !lit.has(note)) {
+        this.send(profile.padMessage(note, '', 'off'));
+        this.sent.delete(`${message[0] & 0xf0}:${note}`);
+      }
+    }
+  }
+
+  /** Lights the playhead LED for a sequencer step, or clears it when step is -1. */
+  showStep(step: number) {
+    const profile = this.refresh();
+    if (!profile || profile.playheadLength === 0) return;
+    const index = step < 0 ? -1 : step % profile.playheadLength;
+    if (index === this.playheadIndex) return;
+    if (this.playheadIndex >= 0) this.send(profile.playheadMessage(this.playheadIndex, false));
+    if (index >= 0) this.send(profile.playheadMessage(index, true));
+    this.playheadIndex = index;
+  }
+
+  /**
+   * Turns off every LED this class has lit. The offs go to the output that
+   * was lit, which may no longer be the dispatcher's active one.
+   */
+  clear() {
+    const { output, profile } = this;
+    if (output && profile) {
+      const offs = [...this.sent.values()]
+        .filter((message) => (message[0] & 0xf0) === 0x90)
+        .map((message) => profile.padMessage(message[1], '', 'off'));
+      if (this.playheadIndex >= 0) offs.push(profile.playheadMessage(this.playheadIndex, false));
+      try {
+        for (const message of offs) output.send(message);
+      } catch (e) {
+        console.warn('Failed to clear MIDI feedback.', e);
+      }
+    }
+    this.sent.clear();
+    this.playheadIndex = -1;
+  }
+
+  /** Picks up device or profile changes, resending everything after one. */
+  private refresh(): MidiDeviceProfile | null {
+    const output = this.midiDispatcher.activeOutput;
+    const profile = output ? this.activeProfile : null;
+    if (output !== this.output || profile !== this.profile) {
+      this.clear();
+      this.output = output;
+      this.profile = output ? this.activeProfile : null;
+    }
+    return this.profile;
+  }
+
+  private send(message: number[]) {
+    // Pulsing and flashing use other channels, so key LEDs by message type and note.
+    const key = `${message[0] & 0xf0}:${message[1]}`;
+    const previous = this.sent.get(key);
+    if (previous && previous.every((byte, i) => byte === message[i])) return;
+    this.sent.set(key, message);
+    this.midiDispatcher.send(message);
+  }
+}
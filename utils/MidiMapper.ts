@@ -0,0 +1,324 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { ControlChange, Instrument, NoteOff, NoteOn } from '../types';
+import { CC_ENCODINGS, type CcEncoding, type ControlScaling, type LearnableControlRegistry } from './LearnableControls';
+import { ALL_MIDI_INPUTS, type MidiDispatcher } from './MidiDispatcher';
+import { findDefaultMappings } from './MidiMappingDefaults';
+import { ALL_INSTRUMENTS } from './music';
+import { field, isObject, isOneOf } from './validate';
+
+/** A physical control. A null channel answers on every channel. */
+export interface MidiControl {
+  type: 'cc' | 'note';
+  channel: number | null;
+  number: number;
+}
+
+/**
+ * Ties a physical control to a target: the id of a learnable control, or
+ * `pad:<index>` for the pad at that grid position.
+ */
+export interface MidiBinding {
+  control: MidiControl;
+  target: string;
+  scaling?: ControlScaling;
+}
+
+const MAPPINGS_VERSION = 2;
+const STORAGE_KEY = 'lollipad.midiMappings';
+/** Profile name used while listening to every input at once. */
+const ALL_INPUTS_PROFILE = 'All inputs';
+/** CC values at or above this count as a pressed button. */
+const BUTTON_THRESHOLD = 64;
+
+const DEFAULT_SCALING: ControlScaling = { encoding: 'absolute' };
+
+export function padTarget(index: number) {
+  return `pad:${index}`;
+}
+
+export function stepTarget(instrument: Instrument, step: number) {
+  return `step:${instrument}:${step}`;
+}
+
+/** Returns the grid position of a pad target, or null for other targets. */
+export function parsePadTarget(target: string): number | null {
+  const match = /^pad:(\d+)$/.exec(target);
+  return match ? Number(match[1]) : null;
+}
+
+export function describeControl(control: MidiControl): string {
+  const channel = control.channel === null ? '' : ` ch.${control.channel + 1}`;
+  return `${control.type === 'cc' ? 'CC' : 'N'}:${control.number}${channel}`;
+}
+
+function sameControl(a: MidiControl, b: MidiControl) {
+  return a.type === b.type && a.number === b.number && a.channel === b.channel;
+}
+
+function matches(control: MidiControl, type: MidiControl['type'], channel: number, number: number) {
+  return control.type === type && control.number === number
+    && (control.channel === null || control.channel === channel);
+}
+
+/**
+ * Keeps a mapping profile per MIDI device and drives the learnable controls
+ * from mapped messages. Pads match their own cc or note, so pad bindings are
+ * only stored here and handed back when the device returns.
+ */
+export class MidiMapper extends EventTarget {
+  private midiDispatcher: MidiDispatcher;
+  private registry: LearnableControlRegistry;
+  /** Stored profiles by device name. Devices without one fall back to the defaults. */
+  private profiles = new Map<string, MidiBinding[]>();
+  private activeDevice = ALL_INPUTS_PROFILE;
+  private learnTarget: string | null = null;
+  /** Last value per CC, to fire button presses only once per push. */
+  private ccValues = new Map<string, number>();
+
+  constructor(midiDispatcher: MidiDispatcher, registry: LearnableControlRegistry) {
+    super();
+    this.midiDispatcher = midiDispatcher;
+    this.registry = registry;
+    this.load();
+
+    midiDispatcher.addEventListener('cc-message', (e: Event) => {
+      const { channel, cc, value } = (e as CustomEvent<ControlChange>).detail;
+      const key = `${channel}:${cc}`;
+      const previous = this.ccValues.get(key) ?? 0;
+      this.ccValues.set(key, value);
+      const pressed = value >= BUTTON_THRESHOLD && previous < BUTTON_THRESHOLD;
+      this.handleControl('cc', channel, cc, value, pressed);
+      if (value < BUTTON_THRESHOLD && previous >= BUTTON_THRESHOLD) this.handleRelease('cc', channel, cc);
+    });
+    midiDispatcher.addEventListener('note-on', (e: Event) => {
+      const { channel, note, velocity } = (e as CustomEvent<NoteOn>).detail;
+      this.handleControl('note', channel, note, velocity, true);
+    });
+    midiDispatcher.addEventListener('note-off', (e: Event) => {
+      const { channel, note } = (e as CustomEvent<NoteOff>).detail;
+      this.handleRelease('note', channel, note);
+    });
+    midiDispatcher.addEventListener('devices-changed', () => {
+      const device = this.currentDeviceName();
+      if (device === this.activeDevice) return;
+      this.activeDevice = device;
+      this.learnTarget = null;
+      this.dispatchEvent(new CustomEvent('profile-changed'));
+      this.dispatchMappingsChanged();
+    });
+  }
+
+  /** Name of the device whose profile is active. */
+  get deviceName() {
+    return this.activeDevice;
+  }
+
+  get bindings(): MidiBinding[] {
+    return this.profiles.get(this.activeDevice) ?? findDefaultMappings(this.activeDevice);
+  }
+
+  /** The target waiting for a control to be moved, if any. */
+  get learning(): string | null {
+    return this.learnTarget;
+  }
+
+  /** Binds the next moved control to a target; pass null to cancel. */
+  learn(target: string | null) {
+    this.learnTarget = target;
+    this.dispatchMappingsChanged();
+  }
+
+  bindingFor(target: string): MidiBinding | undefined {
+    return this.bindings.find((b) => b.target === target);
+  }
+
+  /** Human-readable name of a target. */
+  describeTarget(target: string): string {
+    const pad = parsePadTarget(target);
+    if (pad !== null) return `Pad ${pad + 1}`;
+    return this.registry.get(target)?.label ?? target;
+  }
+
+  /** Maps a control to a target, replacing older bindings of either. */
+  bind(control: MidiControl, target: string) {
+    const previous = this.bindingFor(target);
+    const bindings = this.bindings.filter((b) => b.target !== target && !sameControl(b.control, control));
+    // A re-learned control keeps the encoding and range set up for it.
+    const binding: MidiBinding = previous?.scaling ? { control, target, scaling: previous.scaling } : { control, target };
+    this.setBindings([...bindings, binding]);
+  }
+
+  unbind(target: string) {
+    this.setBindings(this.bindings.filter((b) => b.target !== target));
+  }
+
+  setScaling(target: string, scaling: ControlScaling) {
+    this.setBindings(this.bindings.map((b) => b.target === target ? { ...b, scaling } : b));
+  }
+
+  /** Records the pads' current controls, in grid order, into the active profile. */
+  setPadBindings(controls: MidiControl[]) {
+    const others = this.bindings.filter((b) => parsePadTarget(b.target) === null);
+    const pads = controls.map((control, index): MidiBinding => ({ control, target: padTarget(index) }));
+    const next = [...others, ...pads];
+    if (JSON.stringify(next) === JSON.stringify(this.bindings)) return;
+    this.setBindings(next);
+  }
+
+  /** Controls for each pad position the active profile knows about. */
+  getPadBindings(): Map<number, MidiControl> {
+    const pads = new Map<number, MidiControl>();
+    for (const { control, target } of this.bindings) {
+      const index = parsePadTarget(target);
+      if (index !== null) pads.set(index, control);
+    }
+    return pads;
+  }
+
+  /** Forgets the active device's own mappings, going back to its defaults. */
+  resetToDefaults() {
+    this.profiles.delete(this.activeDevice);
+    this.save();
+    this.dispatchEvent(new CustomEvent('profile-changed'));
+    this.dispatchMappingsChanged();
+  }
+
+  exportProfile(): Blob {
+    const data = { version: MAPPINGS_VERSION, device: this.activeDevice, bindings: this.bindings };
+    return new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
+  }
+
+  /** Replaces the active device's mappings with those in a file. */
+  async importProfile(file: File) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(await file.text());
+    } catch {
+      throw new Error(`"${file.name}" is not valid JSON.`);
+    }
+    if (!isObject(raw) || !Array.isArray(raw.bindings)) {
+      throw new Error('Not a LolliPad MIDI mapping file.');
+    }
+    if (raw.version !== 1 && raw.version !== MAPPINGS_VERSION) {
+      throw new Error(`Unsupported MIDI mapping version ${raw.version}.`);
+    }
+    this.setBindings(parseBindings(raw.bindings, raw.version));
+    this.dispatchEvent(new CustomEvent('profile-changed'));
+  }
+
+  private handleControl(type: MidiControl['type'], channel: number, number: number, value: number, pressed: boolean) {
+    if (this.learnTarget) {
+      // Pads learn through their own button, which records the binding.
+      if (parsePadTarget(this.learnTarget) === null) this.bind({ type, channel, number }, this.learnTarget);
+      this.learnTarget = null;
+      this.dispatchMappingsChanged();
+      return;
+    }
+    for (const { control, target, scaling = DEFAULT_SCALING } of this.bindings) {
+      if (parsePadTarget(target) !== null || !matches(control, type, channel, number)) continue;
+      if (type === 'note') {
+        this.registry.applyNote(target, scaling);
+      } else {
+        this.registry.applyCc(target, value, pressed, scaling);
+      }
+    }
+  }
+
+  private handleRelease(type: MidiControl['type'], channel: number, number: number) {
+    if (this.learnTarget) return;
+    for (const { control, target } of this.bindings) {
+      if (parsePadTarget(target) === null && matches(control, type, channel, number)) this.registry.release(target);
+    }
+  }
+
+  private currentDeviceName(): string {
+    const id = this.midiDispatcher.activeMidiInputId;
+    if (id === null || id === ALL_MIDI_INPUTS) return ALL_INPUTS_PROFILE;
+    return this.midiDispatcher.getDeviceName(id) ?? ALL_INPUTS_PROFILE;
+  }
+
+  private setBindings(bindings: MidiBinding[]) {
+    this.profiles.set(this.activeDevice, bindings);
+    this.save();
+    this.dispatchMappingsChanged();
+  }
+
+  private dispatchMappingsChanged() {
+    this.dispatchEvent(new CustomEvent('mappings-changed'));
+  }
+
+  private load() {
+    try {
+      const raw: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+      if (!isObject(raw) || (raw.version !== 1 && raw.version !== MAPPINGS_VERSION)) return;
+      for (const [device, bindings] of Object.entries(isObject(raw.profiles) ? raw.profiles : {})) {
+        if (Array.isArray(bindings)) this.profiles.set(device, parseBindings(bindings, raw.version));
+      }
+    } catch (e) {
+      console.warn('Ignoring unreadable MIDI mappings.', e);
+    }
+  }
+
+  private save() {
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify({
+        version: MAPPINGS_VERSION,
+        profiles: Object.fromEntries(this.profiles),
+      }));
+    } catch (e) {
+      console.warn('Failed to save MIDI mappings.', e);
+    }
+  }
+}
+
+/** Keeps the well-formed bindings from untrusted data, upgrading version 1 targets. */
+function parseBindings(raw: unknown[], version: number): MidiBinding[] {
+  const bindings: MidiBinding[] = [];
+  for (const item of raw) {
+    const control = parseControl(field(item, 'control'));
+    const rawTarget = field(item, 'target');
+    const target = version === 1 ? upgradeTarget(rawTarget) : typeof rawTarget === 'string' ? rawTarget : null;
+    if (!control || !target) continue;
+    const scaling = parseScaling(field(item, 'scaling'));
+    bindings.push(scaling ? { control, target, scaling } : { control, target });
+  }
+  return bindings;
+}
+
+/** Version 1 described targets as objects by kind. */
+function upgradeTarget(raw: unknown): string | null {
+  if (!isObject(raw)) return null;
+  switch (raw.kind) {
+    case 'pad': return isInRange(raw.index, 127) ? padTarget(raw.index) : null;
+    case 'tempo':
+    case 'key':
+    case 'scale': return raw.kind;
+    case 'transport': return typeof raw.action === 'string' ? raw.action : null;
+    case 'step':
+      return isInRange(raw.step, 63) && isOneOf(ALL_INSTRUMENTS, raw.instrument) ? stepTarget(raw.instrument, raw.step) : null;
+    default: return null;
+  }
+}
+
+function parseControl(raw: unknown): MidiControl | null {
+  if (!isObject(raw) || (raw.type !== 'cc' && raw.type !== 'note')) return null;
+  if (!isInRange(raw.number, 127)) return null;
+  const channel = raw.channel === null ? null : isInRange(raw.channel, 15) ? raw.channel : undefined;
+  if (channel === undefined) return null;
+  return { type: raw.type, channel, number: raw.number };
+}
+
+function parseScaling(raw: unknown): ControlScaling | null {
+  if (!isObject(raw) || typeof raw.encoding !== 'string' || !(raw.encoding in CC_ENCODINGS)) return null;
+  const scaling: ControlScaling = { encoding: raw.encoding as CcEncoding };
+  if (typeof raw.min === 'number' && Number.isFinite(raw.min)) scaling.min = raw.min;
+  if (typeof raw.max === 'number' && Number.isFinite(raw.max)) scaling.max = raw.max;
+  return scaling;
+}
+
+function isInRange(value: unknown, max: number): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value <= max;
+}
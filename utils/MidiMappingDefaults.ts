@@ -0,0 +1,61 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Instrument } from '../types';
+import { padTarget, stepTarget, type MidiBinding, type MidiControl } from './MidiMapper';
+
+function cc(number: number, channel: number | null = null): MidiControl {
+  return { type: 'cc', channel, number };
+}
+
+function note(number: number, channel: number | null = null): MidiControl {
+  return { type: 'note', channel, number };
+}
+
+/** Maps a row of eight consecutive notes to the first eight steps of an instrument. */
+function stepRow(instrument: Instrument, firstNote: number): MidiBinding[] {
+  return Array.from({ length: 8 }, (_, step) => ({
+    control: note(firstNote + step),
+    target: stepTarget(instrument, step),
+  }));
+}
+
+/**
+ * Launchpad Mini MK3 / X in Programmer mode: the top two rows play pads, the
+ * next three program kick, snare and hats, and the side buttons run transport.
+ */
+const LAUNCHPAD: MidiBinding[] = [
+  ...Array.from({ length: 16 }, (_, i): MidiBinding => ({
+    control: note((i < 8 ? 81 : 71) + (i % 8)),
+    target: padTarget(i),
+  })),
+  ...stepRow('kick', 61),
+  ...stepRow('snare', 51),
+  ...stepRow('hat', 41),
+  { control: cc(89), target: 'play-pause' },
+  { control: cc(79), target: 'beatmaker-play-pause' },
+  { control: cc(19), target: 'record' },
+];
+
+/**
+ * Korg nanoKONTROL2 in its factory scene: faders and knobs set pad weights
+ * and the transport buttons start, stop and record.
+ */
+const NANOKONTROL2: MidiBinding[] = [
+  ...Array.from({ length: 8 }, (_, i): MidiBinding => ({ control: cc(i), target: padTarget(i) })),
+  ...Array.from({ length: 8 }, (_, i): MidiBinding => ({ control: cc(16 + i), target: padTarget(8 + i) })),
+  { control: cc(41), target: 'play-pause' },
+  { control: cc(46), target: 'beatmaker-play-pause' },
+  { control: cc(45), target: 'record' },
+];
+
+const DEFAULTS: { portName: RegExp; bindings: MidiBinding[] }[] = [
+  { portName: /launchpad|LPMiniMK3|LPX/i, bindings: LAUNCHPAD },
+  { portName: /nanokontrol\s*2/i, bindings: NANOKONTROL2 },
+];
+
+/** Factory mappings for a device, or none if it is not a known controller. */
+export function findDefaultMappings(deviceName: string): MidiBinding[] {
+  return DEFAULTS.find((d) => d.portName.test(deviceName))?.bindings ?? [];
+}
@@ -0,0 +1,148 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {
+  ChannelPressure,
+  ControlChange,
+  MidiTimestamp,
+  NoteOff,
+  NoteOn,
+  PitchBend,
+  ProgramChange,
+  SongPosition,
+} from '../types';
+
+/** A decoded channel message, tagged with the event name it is dispatched as. */
+export type ChannelMessage =
+  | { type: 'note-on'; detail: NoteOn }
+  | { type: 'note-off'; detail: NoteOff }
+  | { type: 'cc-message'; detail: ControlChange }
+  | { type: 'program-change'; detail: ProgramChange }
+  | { type: 'pitch-bend'; detail: PitchBend }
+  | { type: 'channel-pressure'; detail: ChannelPressure };
+
+/** Clock and transport messages, which belong to no channel. */
+export type SystemMessage =
+  | { type: 'midi-clock' | 'midi-start' | 'midi-continue' | 'midi-stop'; detail: MidiTimestamp }
+  | { type: 'song-position'; detail: SongPosition };
+
+export type MidiMessage = ChannelMessage | SystemMessage;
+
+const REAL_TIME_EVENTS: { [status: number]: 'midi-clock' | 'midi-start' | 'midi-continue' | 'midi-stop' } = {
+  0xf8: 'midi-clock',
+  0xfa: 'midi-start',
+  0xfb: 'midi-continue',
+  0xfc: 'midi-stop',
+};
+
+const SONG_POSITION_POINTER = 0xf2;
+
+/** Number of data bytes following each channel message status nibble. */
+const DATA_LENGTHS: { [messageType: number]: number } = {
+  0x80: 2, // Note Off
+  0x90: 2, // Note On
+  0xa0: 2, // Polyphonic Key Pressure
+  0xb0: 2, // Control Change
+  0xc0: 1, // Program Change
+  0xd0: 1, // Channel Pressure
+  0xe0: 2, // Pitch Bend
+};
+
+/** Data bytes following each System Common status byte. */
+const SYSTEM_COMMON_LENGTHS: { [status: number]: number } = {
+  0xf1: 1, // MTC Quarter Frame
+  0xf2: 2, // Song Position Pointer
+  0xf3: 1, // Song Select
+  0xf6: 0, // Tune Request
+};
+
+/**
+ * Decodes a byte stream from one MIDI input into channel, clock and transport
+ * messages. Keeps the running status between calls, so it must not be shared
+ * between inputs.
+ */
+export class MidiParser {
+  private runningStatus = 0;
+  private data: number[] = [];
+  private inSysex = false;
+  /** The System Common message being collected, if any. */
+  private systemStatus = 0;
+  private systemData: number[] = [];
+
+  /** `timeStamp` is the receive time of the bytes, passed on with clock messages. */
+  parse(bytes: ArrayLike<number>, timeStamp = 0): MidiMessage[] {
+    const messages: MidiMessage[] = [];
+    for (let i = 0; i < bytes.length; i++) {
+      const byte = bytes[i];
+
+      // Real-time bytes may appear anywhere, even inside other messages.
+      if (byte >= 0xf8) {
+        const type = REAL_TIME_EVENTS[byte];
+        if (type) messages.push({ type, detail: { timeStamp } });
+        continue;
+      }
+
+      if (byte & 0x80) {
+        this.data = [];
+        this.systemStatus = 0;
+        this.systemData = [];
+        this.inSysex = byte === 0xf0;
+        if (byte < 0xf0) {
+          this.runningStatus = byte;
+        } else {
+          // System Common messages cancel running status.
+          this.runningStatus = 0;
+          if (SYSTEM_COMMON_LENGTHS[byte]) this.systemStatus = byte;
+        }
+        continue;
+      }
+
+      if (this.inSysex) continue;
+      if (this.systemStatus) {
+        this.systemData.push(byte);
+        if (this.systemData.length === SYSTEM_COMMON_LENGTHS[this.systemStatus]) {
+          if (this.systemStatus === SONG_POSITION_POINTER) {
+            const position = (this.systemData[1] << 7) | this.systemData[0];
+            messages.push({ type: 'song-position', detail: { position } });
+          }
+          this.systemStatus = 0;
+          this.systemData = [];
+        }
+        continue;
+      }
+      if (!this.runningStatus) continue;
+
+      this.data.push(byte);
+      if (this.data.length === DATA_LENGTHS[this.runningStatus & 0xf0]) {
+        const message = decode(this.runningStatus, this.data);
+        if (message) messages.push(message);
+        this.data = [];
+      }
+    }
+    return messages;
+  }
+}
+
+function decode(status: number, data: number[]): ChannelMessage | null {
+  const channel = status & 0x0f;
+  switch (status & 0xf0) {
+    case 0x80:
+      return { type: 'note-off', detail: { channel, note: data[0], velocity: data[1] } };
+    case 0x90:
+      // A zero-velocity Note On is the conventional Note Off under running status.
+      return data[1] > 0
+        ? { type: 'note-on', detail: { channel, note: data[0], velocity: data[1] } }
+        : { type: 'note-off', detail: { channel, note: data[0], velocity: 0 } };
+    case 0xb0:
+      return { type: 'cc-message', detail: { channel, cc: data[0], value: data[1] } };
+    case 0xc0:
+      return { type: 'program-change', detail: { channel, program: data[0] } };
+    case 0xd0:
+      return { type: 'channel-pressure', detail: { channel, pressure: data[0] } };
+    case 0xe0:
+      return { type: 'pitch-bend', detail: { channel, value: ((data[1] << 7) | data[0]) - 8192 } };
+    default:
+      return null;
+  }
+}
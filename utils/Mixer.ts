@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { AuxSettings, ChannelSettings, EffectSettings, MixerChannel, MixerSettings } from '../types';
+import { createEffect, EffectChain } from './Effects';
+import { ALL_INSTRUMENTS } from './music';
+import type { Transport } from './Transport';
+
+export const MIXER_CHANNELS: MixerChannel[] = [...ALL_INSTRUMENTS, 'launchpad'];
+/** Names of the aux buses every channel can send to. */
+export const AUX_BUSES = ['A', 'B'];
+/** Highest fader level, about +3.5 dB. */
+export const MAX_CHANNEL_GAIN = 1.5;
+/** Time constant of level changes, so faders and mutes do not click (s). */
+const RAMP_TIME = 0.01;
+
+export function createChannelSettings(): ChannelSettings {
+  return { gain: 1, pan: 0, mute: false, solo: false, sends: AUX_BUSES.map(() => 0), inserts: [] };
+}
+
+/** Aux A starts as a reverb and aux B as a delay. */
+export function createAuxSettings(bus: number): AuxSettings {
+  return { level: 1, effects: [createEffect(bus === 0 ? 'reverb' : 'delay')] };
+}
+
+export function createMixerSettings(): MixerSettings {
+  const channels = {} as MixerSettings['channels'];
+  for (const channel of MIXER_CHANNELS) channels[channel] = createChannelSettings();
+  return { channels, aux: AUX_BUSES.map((_, bus) => createAuxSettings(bus)) };
+}
+
+/** Where an effect chain lives: a channel's inserts, or an aux bus by index. */
+export type EffectTarget = MixerChannel | number;
+
+export function describeEffectTarget(target: EffectTarget) {
+  return typeof target === 'number' ? `Aux ${AUX_BUSES[target]}` : target[0].toUpperCase() + target.slice(1);
+}
+
+export function getEffects(settings: MixerSettings, target: EffectTarget): EffectSettings[] {
+  return typeof target === 'number' ? settings.aux[target].effects : settings.channels[target].inserts;
+}
+
+/** Returns a copy of the settings with the effect chain of `target` replaced. */
+export function setEffects(settings: MixerSettings, target: EffectTarget, effects: EffectSettings[]): MixerSettings {
+  if (typeof target === 'number') {
+    return { ...settings, aux: settings.aux.map((aux, bus) => bus === target ? { ...aux, effects } : aux) };
+  }
+  return { ...settings, channels: { ...settings.channels, [target]: { ...settings.channels[target], inserts: effects } } };
+}
+
+/** Every effect chain in the mixer, channels first. */
+export function allEffectTargets(): EffectTarget[] {
+  return [...MIXER_CHANNELS, ...AUX_BUSES.map((_, bus) => bus)];
+}
+
+/** Formats a gain as decibels for faders. */
+export function formatGain(gain: number) {
+  if (gain <= 0) return '-∞ dB';
+  const db = 20 * Math.log10(gain);
+  return `${db > 0 ? '+' : ''}${db.toFixed(1)} dB`;
+}
+
+/** The nodes of one channel strip: inserts, fader, pan, mute, meter and sends. */
+interface Strip {
+  input: GainNode;
+  inserts: EffectChain;
+  fader: GainNode;
+  panner: StereoPannerNode;
+  muteGain: GainNode;
+  meter: AnalyserNode;
+  sends: GainNode[];
+}
+
+/**
+ * Channel strips for each drum instrument and the AI stream. Each channel
+ * sits between a source and its original destination, runs through its
+ * insert effects and sends post-fader to the aux buses, whose effects and
+ * returns are summed into `returns`. Delays follow the transport tempo.
+ */
+export class Mixer {
+  private audioContext: AudioContext;
+  private transport: Transport;
+  private strips = new Map<MixerChannel, Strip>();
+  private auxInputs: GainNode[];
+  private auxEffects: EffectChain[];
+  private auxReturns: GainNode[];
+  private settings = createMixerSettings();
+  private meterData = new Float32Array(256);
+  /** Sum of the aux bus returns, on its way to the speakers. */
+  public readonly returns: GainNode;
+
+  constructor(transport: Transport) {
+    const audioContext = transport.audioContext;
+    this.audioContext = audioContext;
+    this.transport = transport;
+    this.returns = audioContext.createGain();
+    this.returns.connect(audioContext.destination);
+    this.auxInputs = AUX_BUSES.map(() => audioContext.createGain());
+    this.auxReturns = AUX_BUSES.map(() => audioContext.createGain());
+    this.auxEffects = AUX_BUSES.map((_, bus) => new EffectChain(audioContext, this.auxInputs[bus], this.auxReturns[bus]));
+    for (const auxReturn of this.auxReturns) auxReturn.connect(this.returns);
+    transport.addEventListener('tempo-changed', () => this.apply());
+  }
+
+  /**
+   * Reroutes `source` through a channel strip into `destination`. Other
+   * connections of `source` are removed. Returns the strip's output.
+   */
+  addChannel(channel: MixerChannel, source: AudioNode, destination: AudioNode): AudioNode {
+    const ctx = this.audioContext;
+    const input = ctx.createGain();
+    const fader = ctx.createGain();
+    const strip: Strip = {
+      input,
+      inserts: new EffectChain(ctx, input, fader),
+      fader,
+      panner: ctx.createStereoPanner(),
+      muteGain: ctx.createGain(),
+      meter: ctx.createAnalyser(),
+      sends: this.auxInputs.map(() => ctx.createGain()),
+    };
+    strip.meter.fftSize = this.meterData.length;
+    source.disconnect();
+    source.connect(strip.input);
+    strip.fader.connect(strip.panner);
+    strip.panner.connect(strip.muteGain);
+    strip.muteGain.connect(strip.meter);
+    strip.muteGain.connect(destination);
+    strip.sends.forEach((send, bus) => {
+      strip.muteGain.connect(send);
+      send.connect(this.auxInputs[bus]);
+    });
+    this.strips.set(channel, strip);
+    this.apply();
+    return strip.muteGain;
+  }
+
+  /** The post-fader output of a channel, or null before it is added. */
+  output(channel: MixerChannel): AudioNode | null {
+    return this.strips.get(channel)?.muteGain ?? null;
+  }
+
+  setSettings(settings: MixerSettings) {
+    this.settings = settings;
+    this.apply();
+  }
+
+  /** Peak level of a channel's output, from 0 (silent) to 1 (full scale) or above when clipping. */
+  getLevel(channel: MixerChannel): number {
+    const strip = this.strips.get(channel);
+    if (!strip) return 0;
+    strip.meter.getFloatTimeDomainData(this.meterData);
+    let peak = 0;
+    for (const sample of this.meterData) peak = Math.max(peak, Math.abs(sample));
+    return peak;
+  }
+
+  /** Soloing any channel mutes every channel that is not soloed. */
+  private apply() {
+    const now = this.audioContext.currentTime;
+    const { channels, aux } = this.settings;
+    const tempo = this.transport.tempo;
+    const soloing = MIXER_CHANNELS.some((channel) => channels[channel].solo);
+    for (const [channel, strip] of this.strips) {
+      const { gain, pan, mute, solo, sends, inserts } = channels[channel];
+      const muted = mute || (soloing && !solo);
+      strip.inserts.update(inserts, tempo);
+      strip.fader.gain.setTargetAtTime(gain, now, RAMP_TIME);
+      strip.panner.pan.setTargetAtTime(pan, now, RAMP_TIME);
+      strip.muteGain.gain.setTargetAtTime(muted ? 0 : 1, now, RAMP_TIME);
+      strip.sends.forEach((send, bus) => send.gain.setTargetAtTime(sends[bus] ?? 0, now, RAMP_TIME));
+    }
+    AUX_BUSES.forEach((_, bus) => {
+      this.auxEffects[bus].update(aux[bus]?.effects ?? [], tempo);
+      this.auxReturns[bus].gain.setTargetAtTime(aux[bus]?.level ?? 1, now, RAMP_TIME);
+    });
+  }
+}
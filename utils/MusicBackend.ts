@@ -0,0 +1,43 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { FilteredPrompt, MusicConfig } from '../types';
+
+/** Base64 PCM audio with its format, e.g. `audio/l16;rate=48000;channels=2`. */
+export interface PcmChunk {
+  data: string;
+  mimeType?: string;
+}
+
+export interface WeightedPrompt {
+  text: string;
+  weight: number;
+}
+
+/** What a backend reports while connected. */
+export interface MusicBackendCallbacks {
+  /** Audio to play, in order, right after the audio before it. */
+  onAudio(chunks: PcmChunk[]): void;
+  onFilteredPrompt(prompt: FilteredPrompt): void;
+  /** The connection ended or failed without the app closing it. */
+  onClose(): void;
+}
+
+/** An open connection that generates music from prompts. */
+export interface MusicConnection {
+  setWeightedPrompts(prompts: WeightedPrompt[]): Promise<void>;
+  setMusicConfig(config: MusicConfig): Promise<void>;
+  play(): void;
+  pause(): void;
+  /** Stops and forgets the music so far; the next play starts afresh. */
+  stop(): void;
+  close(): void;
+}
+
+/** Where the launchpad's music comes from: Lyria, or a generator that runs in the browser. */
+export interface MusicBackend {
+  /** Shown to the user, e.g. "Lyria RealTime". */
+  readonly name: string;
+  connect(callbacks: MusicBackendCallbacks): Promise<MusicConnection>;
+}
@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { ConnectionStatus, FilteredPrompt, PlaybackState, Prompt } from '../types';
+import { LiveMusicHelper } from './LiveMusicHelper';
+import { OfflineMusicBackend } from './OfflineMusicBackend';
+import { FakeAudioContext } from './testing/FakeAudioContext';
+import { Transport } from './Transport';
+
+const PROMPTS = new Map<string, Prompt>([
+  ['prompt-0', { promptId: 'prompt-0', text: 'Minimal techno', weight: 1, cc: 0, color: '#9900ff' }],
+  ['prompt-1', { promptId: 'prompt-1', text: 'Bossa nova', weight: 1, cc: 1, color: '#5200ff' }],
+]);
+
+const LOST_CONNECTION = 'Lost the connection to the music session. Press play to try again.';
+
+describe('OfflineMusicBackend with LiveMusicHelper', () => {
+  let offline: OfflineMusicBackend;
+  let helper: LiveMusicHelper;
+  let statuses: ConnectionStatus[];
+  let states: PlaybackState[];
+  let errors: string[];
+  let filtered: FilteredPrompt[];
+  let bufferStats: number;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.stubGlobal('window', globalThis);
+    vi.stubGlobal('AudioContext', FakeAudioContext);
+
+    offline = new OfflineMusicBackend();
+    helper = new LiveMusicHelper(offline, new Transport());
+    statuses = [];
+    states = [];
+    errors = [];
+    filtered = [];
+    bufferStats = 0;
+    helper.addEventListener('connection-status-changed', (e) => statuses.push((e as CustomEvent<ConnectionStatus>).detail));
+    helper.addEventListener('playback-state-changed', (e) => states.push((e as CustomEvent<PlaybackState>).detail));
+    helper.addEventListener('error', (e) => errors.push((e as CustomEvent<string>).detail));
+    helper.addEventListener('filtered-prompt', (e) => filtered.push((e as CustomEvent<FilteredPrompt>).detail));
+    helper.addEventListener('buffer-stats', () => bufferStats++);
+  });
+
+  afterEach(() => {
+    helper.stop();
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  async function startPlaying() {
+    helper.setWeightedPrompts(PROMPTS);
+    await vi.advanceTimersByTimeAsync(200);
+    const playing = helper.play();
+    await vi.advanceTimersByTimeAsync(300);
+    await playing;
+  }
+
+  it('streams audio that plays through the jitter buffer', async () => {
+    await startPlaying();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(bufferStats).toBe(2);
+
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(bufferStats).toBe(4);
+    expect(states.at(-1)).toBe('playing');
+    expect(errors).toEqual([]);
+  });
+
+  it('filters prompts containing a blocked word', async () => {
+    offline.blockedWords.add('techno');
+    await startPlaying();
+
+    expect(filtered).toEqual([{ text: 'Minimal techno', reason: 'The offline generator blocks "techno".' }]);
+    expect(helper.activePrompts.map((p) => p.text)).toEqual(['Bossa nova']);
+
+    await vi.advanceTimersByTimeAsync(200);
+    await helper.setWeightedPrompts(PROMPTS);
+    expect(filtered).toHaveLength(1);
+  });
+
+  it('reconnects after drop() and keeps streaming', async () => {
+    await startPlaying();
+    offline.drop();
+    expect(statuses.at(-1)).toBe('reconnecting');
+
+    // Up to 600 ms of backoff, then the connection delay.
+    await vi.advanceTimersByTimeAsync(900);
+    const chunks = bufferStats;
+    await vi.advanceTimersByTimeAsync(1000);
+
+    expect(statuses.at(-1)).toBe('connected');
+    expect(bufferStats).toBeGreaterThan(chunks);
+    expect(errors).toEqual([]);
+  });
+
+  it('rides out an outage() shorter than the reconnect limit', async () => {
+    await startPlaying();
+    offline.outage(2);
+
+    await vi.advanceTimersByTimeAsync(6000);
+
+    expect(statuses.at(-1)).toBe('connected');
+    expect(offline.refuseConnections).toBe(0);
+    expect(errors).toEqual([]);
+  });
+
+  it('stops after an outage() longer than the reconnect limit', async () => {
+    await startPlaying();
+    offline.outage(10);
+
+    await vi.advanceTimersByTimeAsync(40000);
+
+    expect(errors).toEqual([LOST_CONNECTION]);
+    expect(states.at(-1)).toBe('stopped');
+    expect(statuses.at(-1)).toBe('disconnected');
+    expect(offline.refuseConnections).toBe(4);
+  });
+});
@@ -0,0 +1,262 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { MusicConfig } from '../types';
+import { encode } from './audio';
+import type { MusicBackend, MusicBackendCallbacks, MusicConnection, WeightedPrompt } from './MusicBackend';
+import { createGenerationSettings, KEYS, relativeMajor } from './music';
+
+/** Half Lyria's rate keeps synthesis cheap; the player resamples. */
+const SAMPLE_RATE = 24000;
+const CHANNELS = 2;
+const CHUNK_SECONDS = 1;
+/** Chunks sent as soon as playback starts, like Lyria filling the buffer ahead of time. */
+const BURST_CHUNKS = 2;
+const CONNECT_DELAY_MS = 300;
+const LEVEL = 0.6;
+const MAJOR_STEPS = [0, 2, 4, 5, 7, 9, 11];
+/** Scale degrees of the chords, a bar each: I, vi, IV, V. */
+const PROGRESSION = [0, 5, 3, 4];
+/** Orders the arpeggio walks the chord in; the seed picks one per bar. */
+const ARP_ORDERS = [[0, 1, 2, 3], [3, 2, 1, 0], [0, 2, 1, 3], [0, 1, 3, 2], [2, 0, 3, 1]];
+
+/** Parts the loops are built from. */
+type Layer = 'beat' | 'bass' | 'pad' | 'arp' | 'keys';
+
+/** Words in a prompt that bring in each layer. */
+const STYLE_TAGS: { [layer in Layer]: string[] } = {
+  beat: ['drum', 'beat', 'kick', 'rhythm', 'house', 'techno', 'hop', 'punk', 'thrash', 'pop', 'break'],
+  bass: ['bass', 'dubstep', 'funk', 'soul', 'punk', 'thrash', 'disco'],
+  pad: ['chill', 'ambient', 'string', 'lush', 'shoegaze', 'wave', 'drone', 'soul'],
+  arp: ['arp', 'sparkl', 'chiptune', 'trance', 'synth', 'bell'],
+  keys: ['bossa', 'jazz', 'piano', 'keys', 'staccato', 'soul', 'pop', 'organ'],
+};
+const LAYERS = Object.keys(STYLE_TAGS) as Layer[];
+
+/** The layers a prompt brings in. Prompts without a known style get one picked from their text. */
+function styleLayers(text: string): Layer[] {
+  const lower = text.toLowerCase();
+  const layers = LAYERS.filter((layer) => STYLE_TAGS[layer].some((tag) => lower.includes(tag)));
+  if (layers.length > 0) return layers;
+  let hash = 0;
+  for (const char of lower) hash = (hash * 31 + char.charCodeAt(0)) | 0;
+  return [LAYERS[Math.abs(hash) % LAYERS.length]];
+}
+
+function midiToFrequency(note: number) {
+  return 440 * 2 ** ((note - 69) / 12);
+}
+
+/**
+ * A music backend that runs in the browser, for demos, development and
+ * tests without an API key or network. Each prompt brings in loop layers
+ * by the styles it names (drums, bass, pads, arpeggios, keys), mixed by
+ * weight and played over a chord loop in the project's key, tempo,
+ * density and brightness. From the console, through `window.offlineMusic`,
+ * `blockedWords` filters prompts like Lyria does, `drop()` cuts the
+ * connection and `outage(3)` also refuses the next three reconnects.
+ */
+export class OfflineMusicBackend implements MusicBackend {
+  readonly name = 'Offline generator';
+  /** Prompts containing any of these words are filtered. */
+  readonly blockedWords = new Set<string>();
+  /** Connection attempts still to refuse. */
+  refuseConnections = 0;
+  private connections = new Set<OfflineConnection>();
+
+  async connect(callbacks: MusicBackendCallbacks): Promise<MusicConnection> {
+    await new Promise((resolve) => setTimeout(resolve, CONNECT_DELAY_MS));
+    if (this.refuseConnections > 0) {
+      this.refuseConnections--;
+      throw new Error('The offline generator refused the connection.');
+    }
+    const connection = new OfflineConnection(callbacks, this.blockedWords, () => this.connections.delete(connection));
+    this.connections.add(connection);
+    return connection;
+  }
+
+  /** Closes every open connection, as if the network dropped. */
+  drop() {
+    for (const connection of [...this.connections]) connection.drop();
+  }
+
+  /** Drops the connection and refuses the next `attempts` reconnects. */
+  outage(attempts: number) {
+    this.refuseConnections = attempts;
+    this.drop();
+  }
+}
+
+class OfflineConnection implements MusicConnection {
+  private callbacks: MusicBackendCallbacks;
+  private blockedWords: Set<string>;
+  private onClosed: () => void;
+  private timer: number | null = null;
+  private closed = false;
+  private config: MusicConfig = { bpm: 120, key: 'C', scale: 'Major', ...createGenerationSettings() };
+  private reported = new Set<string>();
+  private gains = new Map<Layer, number>();
+  /** Gains at the end of the last chunk, to fade from when the mix changes. */
+  private lastGains = new Map<Layer, number>();
+  /** Samples streamed since the music last started afresh. */
+  private position = 0;
+  /** Brightness filter state per channel. */
+  private filtered = [0, 0];
+
+  constructor(callbacks: MusicBackendCallbacks, blockedWords: Set<string>, onClosed: () => void) {
+    this.callbacks = callbacks;
+    this.blockedWords = blockedWords;
+    this.onClosed = onClosed;
+  }
+
+  async setWeightedPrompts(prompts: WeightedPrompt[]) {
+    this.gains.clear();
+    for (const { text, weight } of prompts) {
+      const blocked = [...this.blockedWords].find((word) => text.toLowerCase().includes(word.toLowerCase()));
+      if (blocked) {
+        if (!this.reported.has(text)) this.callbacks.onFilteredPrompt({ text, reason: `The offline generator blocks "${blocked}".` });
+        this.reported.add(text);
+        continue;
+      }
+      for (const layer of styleLayers(text)) this.gains.set(layer, (this.gains.get(layer) ?? 0) + Math.max(0, weight));
+    }
+    const total = [...this.gains.values()].reduce((sum, gain) => sum + gain, 0);
+    for (const [layer, gain] of this.gains) this.gains.set(layer, gain / Math.max(1, total));
+  }
+
+  async setMusicConfig(config: MusicConfig) {
+    // Like Lyria's context reset, a new tempo or key starts the loop over.
+    const { bpm, key, scale } = this.config;
+    if (config.bpm !== bpm || config.key !== key || config.scale !== scale) this.position = 0;
+    this.config = config;
+  }
+
+  play() {
+    if (this.timer !== null || this.closed) return;
+    for (let i = 0; i < BURST_CHUNKS; i++) this.sendChunk();
+    this.timer = window.setInterval(() => this.sendChunk(), CHUNK_SECONDS * 1000);
+  }
+
+  pause() {
+    if (this.timer !== null) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  stop() {
+    this.pause();
+    this.position = 0;
+  }
+
+  close() {
+    if (this.closed) return;
+    this.pause();
+    this.closed = true;
+    this.onClosed();
+  }
+
+  /** Closes from this end, telling the app the connection was lost. */
+  drop() {
+    if (this.closed) return;
+    this.close();
+    this.callbacks.onClose();
+  }
+
+  /** MIDI note of a scale degree counted up from the key's tonic, above `base` (a C). */
+  private pitch(degree: number, base: number) {
+    const major = relativeMajor(this.config.key, this.config.scale);
+    const tonic = Math.max(0, KEYS.indexOf(this.config.key));
+    const index = MAJOR_STEPS.findIndex((step) => (major + step) % 12 === tonic) + degree;
+    return base + major + MAJOR_STEPS[index % 7] + 12 * Math.floor(index / 7);
+  }
+
+  private sendChunk() {
+    const frames = SAMPLE_RATE * CHUNK_SECONDS;
+    const samples = new Int16Array(frames * CHANNELS);
+    const { bpm, seed } = this.config;
+    const density = this.config.density ?? 0.5;
+    const brightness = this.config.brightness ?? 0.5;
+    const smoothing = 0.05 + 0.95 * brightness ** 2;
+    const beatLength = 60 / bpm;
+    // Sixteenths at high density, eighths otherwise.
+    const stepsPerBeat = density > 0.6 ? 4 : 2;
+    // Chord notes per bar, worked out once rather than for every sample.
+    const chords = PROGRESSION.map((degree) => ({
+      bass: midiToFrequency(this.pitch(degree, 36)),
+      tones: [0, 2, 4, 7].map((step) => midiToFrequency(this.pitch(degree + step, 60))),
+    }));
+    const gain = (layer: Layer, i: number) => {
+      const from = this.lastGains.get(layer) ?? 0;
+      return from + ((this.gains.get(layer) ?? 0) - from) * i / frames;
+    };
+
+    for (let i = 0; i < frames; i++) {
+      const time = (this.position + i) / SAMPLE_RATE;
+      const beats = time / beatLength;
+      const bar = Math.floor(beats / 4);
+      const barPhase = beats / 4 - bar;
+      const chord = chords[bar % chords.length];
+      const sinceBeat = (beats % 1) * beatLength;
+      const eighth = Math.floor(beats * 2);
+      const sinceEighth = (beats * 2 % 1) * beatLength / 2;
+      const step = Math.floor(beats * stepsPerBeat);
+      const sinceStep = (beats * stepsPerBeat % 1) * beatLength / stepsPerBeat;
+      let mono = 0;
+      let side = 0;
+
+      const beatGain = gain('beat', i);
+      if (beatGain > 0) {
+        const kick = Math.sin(2 * Math.PI * (50 * sinceBeat + 3 * (1 - Math.exp(-30 * sinceBeat)))) * Math.exp(-8 * sinceBeat);
+        const backbeat = Math.floor(beats) % 2 === 1 ? (Math.random() * 2 - 1) * Math.exp(-18 * sinceBeat) * 0.5 : 0;
+        const hat = step % 2 === 1 || stepsPerBeat === 4 ? (Math.random() * 2 - 1) * Math.exp(-60 * sinceStep) * 0.25 : 0;
+        mono += beatGain * (kick + backbeat + hat);
+      }
+      const bassGain = gain('bass', i);
+      if (bassGain > 0) {
+        const frequency = chord.bass * (eighth % 4 === 3 ? 2 : 1);
+        const phase = 2 * Math.PI * frequency * time;
+        const tone = Math.sin(phase) + Math.sin(2 * phase) / 2 + Math.sin(3 * phase) / 3;
+        mono += bassGain * tone * Math.exp(-5 * sinceEighth) * 0.6;
+      }
+      const padGain = gain('pad', i);
+      if (padGain > 0) {
+        const envelope = Math.min(1, barPhase * 8, (1 - barPhase) * 16);
+        for (let t = 0; t < 3; t++) {
+          const frequency = chord.tones[t];
+          mono += padGain * envelope * Math.sin(2 * Math.PI * frequency * time) * 0.25;
+          side += padGain * envelope * Math.sin(2 * Math.PI * frequency * 1.003 * time) * 0.1;
+        }
+      }
+      const arpGain = gain('arp', i);
+      if (arpGain > 0) {
+        const order = ARP_ORDERS[Math.abs((seed ?? 0) + bar) % ARP_ORDERS.length];
+        const phase = 2 * Math.PI * chord.tones[order[step % 4]] * 2 * time;
+        const tone = Math.asin(Math.sin(phase)) * 2 / Math.PI * Math.exp(-12 * sinceStep) * 0.35;
+        mono += arpGain * tone * 0.7;
+        side += arpGain * tone * (step % 2 === 0 ? 0.3 : -0.3);
+      }
+      const keysGain = gain('keys', i);
+      if (keysGain > 0 && eighth % 2 === 1) {
+        // Short ramps at both ends keep the stabs from clicking.
+        const ramps = Math.min(1, sinceEighth * 200, (beatLength / 2 - sinceEighth) * 200);
+        const envelope = Math.exp(-10 * sinceEighth) * ramps * 0.2;
+        for (let t = 0; t < 3; t++) {
+          const phase = 2 * Math.PI * chord.tones[t] * time;
+          mono += keysGain * envelope * (Math.sin(phase) + Math.sin(2 * phase) / 4);
+        }
+      }
+
+      const channels = [mono + side, mono - side];
+      for (let channel = 0; channel < CHANNELS; channel++) {
+        this.filtered[channel] += smoothing * (channels[channel] - this.filtered[channel]);
+        const sample = Math.tanh(this.filtered[channel] * LEVEL * 2) / 2;
+        samples[i * CHANNELS + channel] = Math.round(sample * 32767);
+      }
+    }
+    this.position += frames;
+    this.lastGains = new Map(this.gains);
+    this.callbacks.onAudio([
+      { data: encode(new Uint8Array(samples.buffer)), mimeType: `audio/l16;rate=${SAMPLE_RATE};channels=${CHANNELS}` },
+    ]);
+  }
+}
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { DrumPattern, Groove, Instrument, Meter, Step } from '../types';
+import { ALL_INSTRUMENTS } from './music';
+
+/** Names of the pattern bank's slots. */
+export const PATTERN_SLOTS = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
+/** Longest loop a single track can have, in steps. */
+export const MAX_TRACK_LENGTH = 64;
+export const MAX_BEATS_PER_BAR = 16;
+export const STEPS_PER_BEAT_OPTIONS = [2, 3, 4, 5, 6, 7, 8];
+/** Most bars a song part can repeat for. */
+export const MAX_REPEATS = 16;
+
+export const DEFAULT_VELOCITY = 0.8;
+/** Quietest level a step can be dragged down to. */
+export const MIN_VELOCITY = 0.05;
+/** Level multiplier for accented steps. */
+export const ACCENT_GAIN = 1.25;
+export const MAX_RATCHET = 4;
+/** Probabilities that modifier-clicking a step cycles through. */
+export const PROBABILITY_STEPS = [1, 0.75, 0.5, 0.25];
+
+export function createStep(active = false): Step {
+  return { active, velocity: DEFAULT_VELOCITY, accent: false, probability: 1, ratchet: 1 };
+}
+
+export function createPattern(length: number): Step[] {
+  return Array.from({ length }, () => createStep());
+}
+
+export function createDrumPattern(length: number): DrumPattern {
+  const pattern = {} as DrumPattern;
+  for (const instrument of ALL_INSTRUMENTS) pattern[instrument] = createPattern(length);
+  return pattern;
+}
+
+/** Whether any instrument in a pattern has an active step. */
+export function hasActiveSteps(pattern: DrumPattern): boolean {
+  return ALL_INSTRUMENTS.some((instrument) => pattern[instrument].some((step) => step.active));
+}
+
+/** Cuts a pattern short or pads it with empty steps. */
+export function resizePattern(pattern: Step[], length: number): Step[] {
+  return Array.from({ length }, (_, i) => pattern[i] ?? createStep());
+}
+
+export const STRAIGHT_SWING = 50;
+export const MAX_SWING = 75;
+/** Furthest a track can be nudged either way, in ms. */
+export const MAX_NUDGE = 50;
+/** Timing spread at full humanize, in seconds either way. */
+export const HUMANIZE_TIME = 0.015;
+/** Velocity spread at full humanize, as a fraction either way. */
+export const HUMANIZE_LEVEL = 0.25;
+
+export function createMeter(): Meter {
+  return { beatsPerBar: 4, beatUnit: 4, stepsPerBeat: 4 };
+}
+
+/** Steps in a bar; queued patterns and song parts change on bar lines. */
+export function barLength(meter: Meter): number {
+  return meter.beatsPerBar * meter.stepsPerBeat;
+}
+
+/** Steps per quarter note, which is what tempo and MIDI clock count in. */
+export function stepsPerQuarter(meter: Meter): number {
+  return meter.stepsPerBeat * (meter.beatUnit / 4);
+}
+
+/** Names a step resolution as a note value, e.g. "1/16" or "1/8 triplets". */
+export function describeResolution(meter: Meter): string {
+  const { stepsPerBeat, beatUnit } = meter;
+  if ((stepsPerBeat & (stepsPerBeat - 1)) === 0) return `1/${beatUnit * stepsPerBeat}`;
+  const base = 2 ** Math.floor(Math.log2(stepsPerBeat));
+  const tuplet = stepsPerBeat % 3 === 0 ? 'triplets' : stepsPerBeat === 5 ? 'quintuplets' : 'septuplets';
+  return `1/${beatUnit * base} ${tuplet}`;
+}
+
+export function createGroove(): Groove {
+  const nudge = {} as { [key in Instrument]: number };
+  for (const instrument of ALL_INSTRUMENTS) nudge[instrument] = 0;
+  return { swing: STRAIGHT_SWING, swingGrid: 16, nudge, humanize: 0 };
+}
+
+/**
+ * How late a step plays because of swing, in seconds. Off-beats of the swing
+ * grid move from halfway between their neighbours to `swing`% of the way.
+ */
+export function swingOffset(groove: Groove, step: number, stepDuration: number): number {
+  const unit = groove.swingGrid === 8 ? 2 : 1;
+  if (step % (unit * 2) !== unit) return 0;
+  return ((groove.swing - STRAIGHT_SWING) / 100) * 2 * unit * stepDuration;
+}
+
+/** Gain a step's hits are played at. */
+export function stepLevel(step: Step): number {
+  return step.velocity * (step.accent ? ACCENT_GAIN : 1);
+}
+
+/** The probability after `probability` in PROBABILITY_STEPS, wrapping around. */
+export function nextProbability(probability: number): number {
+  const index = PROBABILITY_STEPS.findIndex((p) => p <= probability);
+  return PROBABILITY_STEPS[(Math.max(index, 0) + 1) % PROBABILITY_STEPS.length];
+}
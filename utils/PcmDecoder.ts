@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { decode, parsePcmFormat, type PcmFormat } from './audio';
+
+type Planes = Float32Array<ArrayBuffer>[];
+
+/**
+ * Splits interleaved little-endian 16-bit PCM into one float array per
+ * channel. Its source is also the worker's, so it must not use anything
+ * from outside its own body.
+ */
+function pcmToPlanes(bytes: ArrayBuffer, channels: number): Planes {
+  const frames = Math.floor(bytes.byteLength / 2 / channels);
+  const samples = new Int16Array(bytes, 0, frames * channels);
+  const planes: Planes = [];
+  for (let channel = 0; channel < channels; channel++) planes.push(new Float32Array(frames));
+  for (let frame = 0, i = 0; frame < frames; frame++) {
+    for (let channel = 0; channel < channels; channel++) planes[channel][frame] = samples[i++] / 32768;
+  }
+  return planes;
+}
+
+// Decodes base64 with the browser's own data URL support and hands the channels back without copying.
+const WORKER_SOURCE = `
+const pcmToPlanes = ${pcmToPlanes};
+self.onmessage = async ({ data: { id, base64, channels } }) => {
+  try {
+    const response = await fetch('data:application/octet-stream;base64,' + base64);
+    const planes = pcmToPlanes(await response.arrayBuffer(), channels);
+    self.postMessage({ id, planes }, planes.map((plane) => plane.buffer));
+  } catch (e) {
+    self.postMessage({ id, error: String(e) });
+  }
+};
+`;
+
+interface DecodeRequest {
+  base64: string;
+  channels: number;
+  resolve: (planes: Planes) => void;
+  reject: (error: Error) => void;
+}
+
+function decodeOnMainThread(base64: string, channels: number): Planes {
+  const bytes = decode(base64);
+  return pcmToPlanes(bytes.buffer, channels);
+}
+
+/**
+ * Decodes streamed PCM audio on a worker thread, so converting the
+ * samples never holds up the UI. Only copying the finished channels into
+ * an AudioBuffer happens on the main thread. Chunks are decoded one
+ * request at a time rather than through a shared ring buffer, since the
+ * jitter buffer schedules each one as its own AudioBuffer. Where workers
+ * are unavailable or fail to load, e.g. blocked by a content security
+ * policy, decoding falls back to the main thread.
+ */
+export class PcmDecoder {
+  private worker: Worker | null = null;
+  private workerFailed = typeof Worker === 'undefined';
+  private nextId = 0;
+  private requests = new Map<number, DecodeRequest>();
+
+  /**
+   * Decodes base64 PCM described by `mimeType`, e.g.
+   * `audio/l16;rate=48000;channels=2`. Resolves to null for empty chunks.
+   */
+  async decode(base64: string, mimeType: string | undefined, context: BaseAudioContext, fallback: PcmFormat) {
+    const { sampleRate, channels } = parsePcmFormat(mimeType, fallback);
+    const worker = this.getWorker();
+    const planes = worker
+      ? await new Promise<Planes>((resolve, reject) => {
+        const id = this.nextId++;
+        this.requests.set(id, { base64, channels, resolve, reject });
+        worker.postMessage({ id, base64, channels });
+      })
+      : decodeOnMainThread(base64, channels);
+    if (planes[0].length === 0) return null;
+    const buffer = context.createBuffer(channels, planes[0].length, sampleRate);
+    planes.forEach((plane, channel) => buffer.copyToChannel(plane, channel));
+    return buffer;
+  }
+
+  private getWorker() {
+    if (this.worker || this.workerFailed) return this.worker;
+    const url = URL.createObjectURL(new Blob([WORKER_SOURCE], { type: 'text/javascript' }));
+    try {
+      // The URL is kept for the page's lifetime; the worker may still be loading it after construction returns.
+      this.worker = new Worker(url);
+    } catch (e) {
+      console.warn('Decoding audio on the main thread.', e);
+      this.workerFailed = true;
+      return null;
+    }
+    this.worker.onmessage = ({ data }: MessageEvent<{ id: number; planes?: Planes; error?: string }>) => {
+      const request = this.requests.get(data.id);
+      if (!request) return;
+      this.requests.delete(data.id);
+      data.planes ? request.resolve(data.planes) : request.reject(new Error(data.error));
+    };
+    this.worker.onerror = (e) => {
+      console.warn('Decoding audio on the main thread.', e.message);
+      this.worker?.terminate();
+      this.worker = null;
+      this.workerFailed = true;
+      // Finish what the worker was given here, so no chunk is left waiting.
+      for (const { base64, channels, resolve, reject } of this.requests.values()) {
+        try {
+          resolve(decodeOnMainThread(base64, channels));
+        } catch (error) {
+          reject(error instanceof Error ? error : new Error(String(error)));
+        }
+      }
+      this.requests.clear();
+    };
+    return this.worker;
+  }
+}
@@ -0,0 +1,282 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { createImpulseResponse } from './Effects';
+import type { Transport } from './Transport';
+
+/** Effects that are played like buttons: held for a moment, or tapped to latch. */
+export type PerformanceEffect = 'stutter' | 'tape-stop' | 'throw';
+
+export const PERFORMANCE_EFFECTS: { [effect in PerformanceEffect]: string } = {
+  'stutter': 'Stutter',
+  'tape-stop': 'Tape Stop',
+  'throw': 'Reverb Throw',
+};
+
+/** Lengths of the repeated slice, in beats. */
+export const STUTTER_DIVISIONS: { [label: string]: number } = {
+  '1/4': 1,
+  '1/8': 0.5,
+  '1/16': 0.25,
+  '1/32': 0.125,
+};
+
+/** A press held at least this long is let go with the button; shorter taps latch. */
+const MOMENTARY_HOLD_MS = 400;
+/** Around the filter's center it does nothing, so a knob at rest is flat. */
+const FILTER_DEAD_ZONE = 0.05;
+const LOWPASS_MIN = 100;
+const LOWPASS_MAX = 20000;
+const HIGHPASS_MIN = 20;
+const HIGHPASS_MAX = 8000;
+/** Longest repeated slice, a quarter note at 40 BPM (s). */
+const MAX_STUTTER_TIME = 1.5;
+/** Time constant of gain changes, so switching effects does not click (s). */
+const EDGE_TIME = 0.003;
+const TAPE_STOP_BEATS = 2;
+const MAX_TAPE_STOP_TIME = 2;
+/** Straight segments approximating the tape's slowing curve. */
+const TAPE_STOP_SEGMENTS = 16;
+const TAPE_RESTART_TIME = 0.05;
+const THROW_REVERB_SIZE = 4;
+const THROW_REVERB_DAMPING = 0.3;
+
+function filterCutoffs(position: number) {
+  const amount = Math.max(0, (Math.abs(position) - FILTER_DEAD_ZONE) / (1 - FILTER_DEAD_ZONE));
+  return {
+    lowpass: position < 0 ? LOWPASS_MAX * (LOWPASS_MIN / LOWPASS_MAX) ** amount : LOWPASS_MAX,
+    highpass: position > 0 ? HIGHPASS_MIN * (HIGHPASS_MAX / HIGHPASS_MIN) ** amount : HIGHPASS_MIN,
+    amount,
+  };
+}
+
+/** Describes a filter position, e.g. "LP 800 Hz". */
+export function describeFilter(position: number) {
+  const { lowpass, highpass, amount } = filterCutoffs(position);
+  if (amount === 0) return 'Off';
+  const cutoff = position < 0 ? lowpass : highpass;
+  const frequency = cutoff >= 1000 ? `${(cutoff / 1000).toFixed(1)} kHz` : `${Math.round(cutoff)} Hz`;
+  return `${position < 0 ? 'LP' : 'HP'} ${frequency}`;
+}
+
+/**
+ * DJ moves on the AI stream: a filter that sweeps low-pass to the left and
+ * high-pass to the right, a beat repeat that loops the last slice of audio,
+ * a tape stop and a reverb throw. Slice and stop lengths follow the
+ * transport tempo. Connect a source to `input` and `output` onwards.
+ */
+export class PerformanceFx extends EventTarget {
+  private context: AudioContext;
+  private transport: Transport;
+  readonly input: GainNode;
+  readonly output: GainNode;
+
+  private lowpass: BiquadFilterNode;
+  private highpass: BiquadFilterNode;
+  // Beat repeat: `capture` lets one slice into the loop, which then feeds itself.
+  private dry: GainNode;
+  private capture: GainNode;
+  private loop: DelayNode;
+  private loopFeedback: GainNode;
+  private wet: GainNode;
+  // Tape stop: a delay that grows ever faster slows the audio down to a halt.
+  private tape: DelayNode;
+  private tapeGain: GainNode;
+  private throwSend: GainNode;
+
+  private filterPosition = 0;
+  private division = '1/16';
+  private active = new Set<PerformanceEffect>();
+  /** When each effect was switched on by a press, to tell holds from taps. */
+  private pressTimes = new Map<PerformanceEffect, number>();
+  private tapeRestartTimer: number | null = null;
+
+  constructor(transport: Transport) {
+    super();
+    const ctx = transport.audioContext;
+    this.context = ctx;
+    this.transport = transport;
+    this.input = ctx.createGain();
+    this.output = ctx.createGain();
+    this.lowpass = ctx.createBiquadFilter();
+    this.lowpass.type = 'lowpass';
+    this.highpass = ctx.createBiquadFilter();
+    this.highpass.type = 'highpass';
+    this.dry = ctx.createGain();
+    this.capture = ctx.createGain();
+    this.capture.gain.value = 0;
+    this.loop = ctx.createDelay(MAX_STUTTER_TIME);
+    this.loopFeedback = ctx.createGain();
+    this.loopFeedback.gain.value = 0;
+    this.wet = ctx.createGain();
+    this.wet.gain.value = 0;
+    this.tape = ctx.createDelay(MAX_TAPE_STOP_TIME / 2 + 0.1);
+    this.tape.delayTime.value = 0;
+    this.tapeGain = ctx.createGain();
+    this.throwSend = ctx.createGain();
+    this.throwSend.gain.value = 0;
+    const reverb = ctx.createConvolver();
+    reverb.buffer = createImpulseResponse(ctx, THROW_REVERB_SIZE, THROW_REVERB_DAMPING);
+
+    this.input.connect(this.lowpass);
+    this.lowpass.connect(this.highpass);
+    this.highpass.connect(this.dry);
+    this.highpass.connect(this.capture);
+    this.capture.connect(this.loop);
+    this.loop.connect(this.loopFeedback);
+    this.loopFeedback.connect(this.loop);
+    this.loop.connect(this.wet);
+    this.dry.connect(this.tape);
+    this.wet.connect(this.tape);
+    this.tape.connect(this.tapeGain);
+    this.tapeGain.connect(this.output);
+    this.highpass.connect(this.throwSend);
+    this.throwSend.connect(reverb);
+    reverb.connect(this.output);
+    this.applyFilter();
+
+    transport.addEventListener('tempo-changed', () => {
+      // Restart the repeat so the slice matches the new tempo.
+      if (this.active.has('stutter')) this.startStutter();
+    });
+  }
+
+  /** From -1 (low-pass closed) through 0 (off) to 1 (high-pass closed). */
+  get filter() {
+    return this.filterPosition;
+  }
+
+  setFilter(position: number) {
+    this.filterPosition = Math.max(-1, Math.min(1, position));
+    this.applyFilter();
+    this.dispatchChanged();
+  }
+
+  get stutterDivision() {
+    return this.division;
+  }
+
+  setStutterDivision(division: string) {
+    if (!(division in STUTTER_DIVISIONS)) return;
+    this.division = division;
+    if (this.active.has('stutter')) this.startStutter();
+    this.dispatchChanged();
+  }
+
+  isActive(effect: PerformanceEffect) {
+    return this.active.has(effect);
+  }
+
+  /** Switches an effect on, or off again when it was latched by a tap. */
+  press(effect: PerformanceEffect) {
+    if (this.active.has(effect)) {
+      this.setActive(effect, false);
+      return;
+    }
+    this.pressTimes.set(effect, performance.now());
+    this.setActive(effect, true);
+  }
+
+  /** Ends a held press. Taps leave the effect on until the next press. */
+  release(effect: PerformanceEffect) {
+    const pressedAt = this.pressTimes.get(effect);
+    if (pressedAt === undefined) return;
+    this.pressTimes.delete(effect);
+    if (performance.now() - pressedAt >= MOMENTARY_HOLD_MS) this.setActive(effect, false);
+  }
+
+  setActive(effect: PerformanceEffect, on: boolean) {
+    if (on === this.active.has(effect)) return;
+    if (on) {
+      this.active.add(effect);
+    } else {
+      this.active.delete(effect);
+      this.pressTimes.delete(effect);
+    }
+    switch (effect) {
+      case 'stutter': on ? this.startStutter() : this.stopStutter(); break;
+      case 'tape-stop': on ? this.startTapeStop() : this.stopTapeStop(); break;
+      case 'throw': this.throwSend.gain.setTargetAtTime(on ? 1 : 0, this.context.currentTime, EDGE_TIME); break;
+    }
+    this.dispatchChanged();
+  }
+
+  private applyFilter() {
+    const now = this.context.currentTime;
+    const { lowpass, highpass, amount } = filterCutoffs(this.filterPosition);
+    // Resonance builds up as the filter closes, like a DJ mixer's.
+    const q = Math.SQRT1_2 + amount * 5;
+    this.lowpass.frequency.setTargetAtTime(lowpass, now, EDGE_TIME * 5);
+    this.highpass.frequency.setTargetAtTime(highpass, now, EDGE_TIME * 5);
+    this.lowpass.Q.setTargetAtTime(this.filterPosition < 0 ? q : Math.SQRT1_2, now, EDGE_TIME * 5);
+    this.highpass.Q.setTargetAtTime(this.filterPosition > 0 ? q : Math.SQRT1_2, now, EDGE_TIME * 5);
+  }
+
+  private startStutter() {
+    const now = this.context.currentTime;
+    const length = Math.min(MAX_STUTTER_TIME, STUTTER_DIVISIONS[this.division] * this.transport.secondsPerBeat);
+    for (const param of [this.capture.gain, this.loopFeedback.gain, this.dry.gain, this.wet.gain, this.loop.delayTime]) {
+      param.cancelScheduledValues(now);
+    }
+    // Clear what is left of an earlier slice before letting the new one in.
+    this.loopFeedback.gain.setValueAtTime(0, now);
+    this.loop.delayTime.setValueAtTime(length, now);
+    this.capture.gain.setTargetAtTime(1, now, EDGE_TIME);
+    this.capture.gain.setTargetAtTime(0, now + length, EDGE_TIME);
+    // One slice later the loop starts replaying it in place of the stream.
+    this.loopFeedback.gain.setValueAtTime(1, now + length);
+    this.dry.gain.setTargetAtTime(0, now + length, EDGE_TIME);
+    this.wet.gain.setTargetAtTime(1, now + length, EDGE_TIME);
+  }
+
+  private stopStutter() {
+    const now = this.context.currentTime;
+    for (const param of [this.capture.gain, this.loopFeedback.gain, this.dry.gain, this.wet.gain]) {
+      param.cancelScheduledValues(now);
+    }
+    this.capture.gain.setTargetAtTime(0, now, EDGE_TIME);
+    this.loopFeedback.gain.setTargetAtTime(0, now, EDGE_TIME);
+    this.dry.gain.setTargetAtTime(1, now, EDGE_TIME);
+    this.wet.gain.setTargetAtTime(0, now, EDGE_TIME);
+  }
+
+  private startTapeStop() {
+    if (this.tapeRestartTimer !== null) clearTimeout(this.tapeRestartTimer);
+    this.tapeRestartTimer = null;
+    const now = this.context.currentTime;
+    const duration = Math.min(MAX_TAPE_STOP_TIME, TAPE_STOP_BEATS * this.transport.secondsPerBeat);
+    const { delayTime } = this.tape;
+    const { gain } = this.tapeGain;
+    delayTime.cancelScheduledValues(now);
+    delayTime.setValueAtTime(0, now);
+    // A delay growing at rate r plays back at speed 1 - r, so growing it
+    // quadratically slows the audio steadily down to a standstill.
+    for (let i = 1; i <= TAPE_STOP_SEGMENTS; i++) {
+      const t = duration * i / TAPE_STOP_SEGMENTS;
+      delayTime.linearRampToValueAtTime(t * t / (2 * duration), now + t);
+    }
+    gain.cancelScheduledValues(now);
+    gain.setValueAtTime(1, now + duration * 0.75);
+    gain.linearRampToValueAtTime(0, now + duration);
+  }
+
+  private stopTapeStop() {
+    const now = this.context.currentTime;
+    this.tapeGain.gain.cancelScheduledValues(now);
+    this.tapeGain.gain.setTargetAtTime(0, now, EDGE_TIME);
+    // Rewind the tape once it is silent, then bring the stream back in.
+    this.tapeRestartTimer = window.setTimeout(() => {
+      this.tapeRestartTimer = null;
+      const time = this.context.currentTime;
+      this.tape.delayTime.cancelScheduledValues(time);
+      this.tape.delayTime.setValueAtTime(0, time);
+      this.tapeGain.gain.cancelScheduledValues(time);
+      this.tapeGain.gain.setTargetAtTime(1, time, TAPE_RESTART_TIME);
+    }, EDGE_TIME * 5 * 1000);
+  }
+
+  private dispatchChanged() {
+    this.dispatchEvent(new CustomEvent('changed'));
+  }
+}
@@ -0,0 +1,339 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type {
+  ArrangementEntry, AuxSettings, ChannelSettings, DrumPattern, EffectSettings, GenerationSettings, Groove, Meter, MixerSettings,
+  Prompt, Step,
+} from '../types';
+import { validateEffect } from './Effects';
+import { AUX_BUSES, createAuxSettings, createChannelSettings, createMixerSettings, MAX_CHANNEL_GAIN, MIXER_CHANNELS } from './Mixer';
+import { ALL_INSTRUMENTS, createGenerationSettings, KEYS, MAX_GUIDANCE, MAX_SEED, MAX_TEMPERATURE, SCALES } from './music';
+import {
+  createDrumPattern, createGroove, createMeter, createStep, DEFAULT_VELOCITY, MAX_BEATS_PER_BAR, MAX_NUDGE, MAX_RATCHET,
+  MAX_REPEATS, MAX_SWING, MAX_TRACK_LENGTH, PATTERN_SLOTS, STEPS_PER_BEAT_OPTIONS, STRAIGHT_SWING,
+} from './Pattern';
+import { field, isObject, isOneOf } from './validate';
+
+/** Bump this and add an entry to MIGRATIONS whenever ProjectData changes shape. */
+export const PROJECT_VERSION = 8;
+
+/** Lengths the step buttons give every track; tracks can also be set to any length up to 64. */
+export type SequencerLength = 4 | 8 | 16 | 32 | 64;
+export const SEQUENCER_LENGTHS: SequencerLength[] = [4, 8, 16, 32, 64];
+export type KitSize = 'simple' | 'extended';
+
+/** Everything needed to restore a studio session. */
+export interface ProjectData {
+  version: number;
+  id: string;
+  name: string;
+  updatedAt: number;
+  prompts: Prompt[];
+  key: string;
+  scale: string;
+  launchpadTempo: number;
+  beatmakerTempo: number;
+  tempoLinked: boolean;
+  beatmakerVolume: number;
+  sequencerLength: SequencerLength;
+  selectedKit: string;
+  kitSize: KitSize;
+  /** One pattern per slot, A to H. */
+  patternBank: DrumPattern[];
+  selectedPattern: number;
+  arrangement: ArrangementEntry[];
+  songMode: boolean;
+  groove: Groove;
+  meter: Meter;
+  mixer: MixerSettings;
+  generation: GenerationSettings;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  updatedAt: number;
+}
+
+/** Project data that has not been validated yet. */
+type RawProject = { [key: string]: unknown };
+
+/**
+ * Upgrades a project one version at a time. The entry for version N takes
+ * a version N project and returns a version N + 1 project.
+ */
+const MIGRATIONS: { [fromVersion: number]: (data: RawProject) => RawProject } = {
+  // Version 2 replaced on/off steps with velocity, accent, probability and ratchets.
+  1: (data) => {
+    const patterns: { [instrument: string]: Step[] } = {};
+    for (const [instrument, pattern] of Object.entries(isObject(data.patterns) ? data.patterns : {})) {
+      if (Array.isArray(pattern)) patterns[instrument] = pattern.map((active) => createStep(active === true));
+    }
+    return { ...data, version: 2, patterns };
+  },
+  // Version 3 added swing, nudge and humanize.
+  2: (data) => ({ ...data, version: 3, groove: createGroove() }),
+  // Version 4 turned the single pattern into slot A of a pattern bank.
+  3: ({ patterns, ...data }) => ({
+    ...data,
+    version: 4,
+    patternBank: [patterns],
+    selectedPattern: 0,
+    arrangement: [],
+    songMode: false,
+  }),
+  // Version 5 added time signatures and step resolutions.
+  4: (data) => ({ ...data, version: 5, meter: createMeter() }),
+  // Version 6 added the mixer.
+  5: (data) => ({ ...data, version: 6, mixer: createMixerSettings() }),
+  // Version 7 added insert effects and turned aux returns into buses with effects.
+  6: ({ mixer, ...data }) => ({
+    ...data,
+    version: 7,
+    mixer: isObject(mixer) ? {
+      channels: mixer.channels,
+      aux: AUX_BUSES.map((_, bus) => ({
+        ...createAuxSettings(bus),
+        level: Array.isArray(mixer.returns) ? numberOr(mixer.returns[bus], 1) : 1,
+      })),
+    } : createMixerSettings(),
+  }),
+  // Version 8 added the AI generation settings.
+  7: (data) => ({ ...data, version: 8, generation: createGenerationSettings() }),
+};
+
+export function createProjectId() {
+  return `project-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/** Creates a project with default settings around the given pads. */
+export function createProject(prompts: Iterable<Prompt>, name = 'Untitled Project'): ProjectData {
+  const sequencerLength: SequencerLength = 8;
+  return {
+    version: PROJECT_VERSION,
+    id: createProjectId(),
+    name,
+    updatedAt: Date.now(),
+    prompts: [...prompts].map((p) => ({ ...p })),
+    key: 'C',
+    scale: 'Major',
+    launchpadTempo: 120,
+    beatmakerTempo: 80,
+    tempoLinked: false,
+    beatmakerVolume: 1,
+    sequencerLength,
+    selectedKit: 'Electronic',
+    kitSize: 'simple',
+    patternBank: PATTERN_SLOTS.map(() => createDrumPattern(sequencerLength)),
+    selectedPattern: 0,
+    arrangement: [],
+    songMode: false,
+    groove: createGroove(),
+    meter: createMeter(),
+    mixer: createMixerSettings(),
+    generation: createGenerationSettings(),
+  };
+}
+
+/** Migrates and validates untrusted project data, e.g. from a file. */
+export function parseProject(raw: unknown): ProjectData {
+  if (!isObject(raw)) throw new Error('Not a LolliPad project file.');
+  const { version } = raw;
+  if (typeof version !== 'number' || !Number.isInteger(version) || version < 1) {
+    throw new Error('Project file is missing a valid version.');
+  }
+  if (version > PROJECT_VERSION) {
+    throw new Error(`Project was saved by a newer version of LolliPad (v${version}).`);
+  }
+  let data = raw;
+  for (let from = version; from < PROJECT_VERSION; from++) {
+    const migrate = MIGRATIONS[from];
+    if (!migrate) throw new Error(`Cannot upgrade projects from version ${from}.`);
+    data = migrate(data);
+  }
+  return validateProject(data);
+}
+
+function validateProject(data: RawProject): ProjectData {
+  if (!Array.isArray(data.prompts)) throw new Error('Project has no pads.');
+  const promptIds = new Set<string>();
+  const prompts: Prompt[] = data.prompts.map((p: unknown, i: number) => {
+    if (!isObject(p) || typeof p.promptId !== 'string' || typeof p.text !== 'string') {
+      throw new Error(`Pad ${i + 1} is missing its id or text.`);
+    }
+    if (promptIds.has(p.promptId)) throw new Error(`Pad id "${p.promptId}" is used twice.`);
+    promptIds.add(p.promptId);
+    return {
+      promptId: p.promptId,
+      text: p.text,
+      weight: clamp(numberOr(p.weight, 0), 0, 2),
+      cc: Math.round(clamp(numberOr(p.cc, i), 0, 127)),
+      ...(typeof p.note === 'number' ? { note: Math.round(clamp(p.note, 0, 127)) } : {}),
+      ...(typeof p.channel === 'number' ? { channel: Math.round(clamp(p.channel, 0, 15)) } : {}),
+      color: typeof p.color === 'string' ? p.color : '#9900ff',
+    };
+  });
+
+  const sequencerLength = isOneOf(SEQUENCER_LENGTHS, data.sequencerLength) ? data.sequencerLength : 8;
+  if (!Array.isArray(data.patternBank)) throw new Error('Project has no beat patterns.');
+  const patterns: unknown[] = data.patternBank;
+  const patternBank = PATTERN_SLOTS.map((_, slot) => validatePattern(patterns[slot], sequencerLength));
+  const arrangement: ArrangementEntry[] = (Array.isArray(data.arrangement) ? data.arrangement : [])
+    .flatMap((entry: unknown) => isObject(entry) && isSlot(entry.pattern) ? [{
+      pattern: entry.pattern,
+      repeats: Math.round(clamp(numberOr(entry.repeats, 1), 1, MAX_REPEATS)),
+    }] : []);
+
+  return {
+    version: PROJECT_VERSION,
+    id: typeof data.id === 'string' && data.id ? data.id : createProjectId(),
+    name: typeof data.name === 'string' && data.name.trim() ? data.name.trim() : 'Untitled Project',
+    updatedAt: numberOr(data.updatedAt, Date.now()),
+    prompts,
+    key: isOneOf(KEYS, data.key) ? data.key : 'C',
+    scale: isOneOf(SCALES, data.scale) ? data.scale : 'Major',
+    launchpadTempo: Math.round(clamp(numberOr(data.launchpadTempo, 120), 60, 180)),
+    beatmakerTempo: Math.round(clamp(numberOr(data.beatmakerTempo, 80), 40, 180)),
+    tempoLinked: data.tempoLinked === true,
+    beatmakerVolume: clamp(numberOr(data.beatmakerVolume, 1), 0, 1),
+    sequencerLength,
+    selectedKit: typeof data.selectedKit === 'string' ? data.selectedKit : 'Electronic',
+    kitSize: data.kitSize === 'extended' ? 'extended' : 'simple',
+    patternBank,
+    selectedPattern: isSlot(data.selectedPattern) ? data.selectedPattern : 0,
+    arrangement,
+    songMode: data.songMode === true,
+    groove: validateGroove(data.groove),
+    meter: validateMeter(data.meter),
+    mixer: validateMixer(data.mixer),
+    generation: validateGeneration(data.generation),
+  };
+}
+
+/** Tracks keep their own saved lengths; missing tracks get `defaultLength` empty steps. */
+function validatePattern(raw: unknown, defaultLength: number): DrumPattern {
+  const pattern = createDrumPattern(defaultLength);
+  if (!isObject(raw)) return pattern;
+  for (const instrument of ALL_INSTRUMENTS) {
+    const steps = raw[instrument];
+    if (!Array.isArray(steps) || steps.length === 0) continue;
+    pattern[instrument] = steps.slice(0, MAX_TRACK_LENGTH).map(validateStep);
+  }
+  return pattern;
+}
+
+function validateMeter(raw: unknown): Meter {
+  const meter = createMeter();
+  if (!isObject(raw)) return meter;
+  return {
+    beatsPerBar: Math.round(clamp(numberOr(raw.beatsPerBar, meter.beatsPerBar), 1, MAX_BEATS_PER_BAR)),
+    beatUnit: raw.beatUnit === 8 ? 8 : 4,
+    stepsPerBeat: isOneOf(STEPS_PER_BEAT_OPTIONS, raw.stepsPerBeat) ? raw.stepsPerBeat : meter.stepsPerBeat,
+  };
+}
+
+function isSlot(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < PATTERN_SLOTS.length;
+}
+
+function validateStep(raw: unknown): Step {
+  if (!isObject(raw)) return createStep();
+  return {
+    active: raw.active === true,
+    velocity: clamp(numberOr(raw.velocity, DEFAULT_VELOCITY), 0, 1),
+    accent: raw.accent === true,
+    probability: clamp(numberOr(raw.probability, 1), 0, 1),
+    ratchet: Math.round(clamp(numberOr(raw.ratchet, 1), 1, MAX_RATCHET)),
+  };
+}
+
+function validateGroove(raw: unknown): Groove {
+  const groove = createGroove();
+  if (!isObject(raw)) return groove;
+  for (const instrument of ALL_INSTRUMENTS) {
+    groove.nudge[instrument] = Math.round(clamp(numberOr(field(raw.nudge, instrument), 0), -MAX_NUDGE, MAX_NUDGE));
+  }
+  return {
+    swing: Math.round(clamp(numberOr(raw.swing, STRAIGHT_SWING), STRAIGHT_SWING, MAX_SWING)),
+    swingGrid: raw.swingGrid === 8 ? 8 : 16,
+    nudge: groove.nudge,
+    humanize: Math.round(clamp(numberOr(raw.humanize, 0), 0, 100)),
+  };
+}
+
+function validateMixer(raw: unknown): MixerSettings {
+  const mixer = createMixerSettings();
+  if (!isObject(raw)) return mixer;
+  for (const channel of MIXER_CHANNELS) {
+    mixer.channels[channel] = validateChannel(field(raw.channels, channel));
+  }
+  const aux = Array.isArray(raw.aux) ? raw.aux : [];
+  mixer.aux = AUX_BUSES.map((_, bus) => validateAux(aux[bus], bus));
+  return mixer;
+}
+
+function validateAux(raw: unknown, bus: number): AuxSettings {
+  if (!isObject(raw)) return createAuxSettings(bus);
+  return {
+    level: clamp(numberOr(raw.level, 1), 0, MAX_CHANNEL_GAIN),
+    effects: validateEffects(raw.effects),
+  };
+}
+
+/** Drops unknown effects and effects whose id is used twice. */
+function validateEffects(raw: unknown): EffectSettings[] {
+  if (!Array.isArray(raw)) return [];
+  const effects = raw.map(validateEffect).filter((effect): effect is EffectSettings => effect !== null);
+  return effects.filter((effect, i) => effects.findIndex((e) => e.id === effect.id) === i);
+}
+
+function validateChannel(raw: unknown): ChannelSettings {
+  if (!isObject(raw)) return createChannelSettings();
+  const sends = Array.isArray(raw.sends) ? raw.sends : [];
+  return {
+    gain: clamp(numberOr(raw.gain, 1), 0, MAX_CHANNEL_GAIN),
+    pan: clamp(numberOr(raw.pan, 0), -1, 1),
+    mute: raw.mute === true,
+    solo: raw.solo === true,
+    sends: AUX_BUSES.map((_, bus) => clamp(numberOr(sends[bus], 0), 0, 1)),
+    inserts: validateEffects(raw.inserts),
+  };
+}
+
+function validateGeneration(raw: unknown): GenerationSettings {
+  const generation = createGenerationSettings();
+  if (!isObject(raw)) return generation;
+  const unitOrNull = (value: unknown) => typeof value === 'number' && Number.isFinite(value) ? clamp(value, 0, 1) : null;
+  return {
+    density: unitOrNull(raw.density),
+    brightness: unitOrNull(raw.brightness),
+    guidance: clamp(numberOr(raw.guidance, generation.guidance), 0, MAX_GUIDANCE),
+    temperature: clamp(numberOr(raw.temperature, generation.temperature), 0, MAX_TEMPERATURE),
+    seed: typeof raw.seed === 'number' && Number.isFinite(raw.seed) ? Math.round(clamp(raw.seed, 0, MAX_SEED)) : null,
+  };
+}
+
+/** Serializes a project for download. */
+export function exportProjectFile(project: ProjectData): Blob {
+  return new Blob([JSON.stringify(project, null, 2)], { type: 'application/json' });
+}
+
+/** Reads and validates a project file picked by the user. */
+export async function importProjectFile(file: File): Promise<ProjectData> {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(await file.text());
+  } catch {
+    throw new Error(`"${file.name}" is not valid JSON.`);
+  }
+  return parseProject(raw);
+}
+
+function numberOr(value: unknown, fallback: number) {
+  return typeof value === 'number' && Number.isFinite(value) ? value : fallback;
+}
+
+function clamp(value: number, min: number, max: number) {
+  return Math.max(min, Math.min(max, value));
+}
@@ -0,0 +1,97 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { openDb, PROJECTS_STORE, request } from './db';
+import { parseProject, type ProjectData, type ProjectSummary } from './Project';
+
+const AUTOSAVE_KEY = 'lollipad.autosave';
+const FALLBACK_KEY = 'lollipad.projects';
+
+/**
+ * Persists projects in IndexedDB, falling back to localStorage where
+ * IndexedDB is unavailable. The working copy is autosaved separately.
+ */
+export class ProjectStore {
+  /** Returns the autosaved working copy, or null if there is none. */
+  loadAutosave(): ProjectData | null {
+    try {
+      const json = localStorage.getItem(AUTOSAVE_KEY);
+      return json ? parseProject(JSON.parse(json)) : null;
+    } catch (e) {
+      console.warn('Discarding unreadable autosave.', e);
+      return null;
+    }
+  }
+
+  saveAutosave(project: ProjectData) {
+    try {
+      localStorage.setItem(AUTOSAVE_KEY, JSON.stringify(project));
+    } catch (e) {
+      console.warn('Autosave failed.', e);
+    }
+  }
+
+  async list(): Promise<ProjectSummary[]> {
+    const projects = await this.getAll();
+    return projects
+      .map(({ id, name, updatedAt }) => ({ id, name, updatedAt }))
+      .sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  async load(id: string): Promise<ProjectData> {
+    const db = await openDb();
+    const raw = db
+      ? await request(db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).get(id))
+      : this.readFallback().find((p) => p.id === id);
+    if (!raw) throw new Error('That project no longer exists.');
+    return parseProject(raw);
+  }
+
+  async save(project: ProjectData) {
+    const db = await openDb();
+    if (db) {
+      await request(db.transaction(PROJECTS_STORE, 'readwrite').objectStore(PROJECTS_STORE).put(project));
+      return;
+    }
+    const projects = this.readFallback().filter((p) => p.id !== project.id);
+    this.writeFallback([...projects, project]);
+  }
+
+  async delete(id: string) {
+    const db = await openDb();
+    if (db) {
+      await request(db.transaction(PROJECTS_STORE, 'readwrite').objectStore(PROJECTS_STORE).delete(id));
+      return;
+    }
+    this.writeFallback(this.readFallback().filter((p) => p.id !== id));
+  }
+
+  private async getAll(): Promise<ProjectData[]> {
+    const db = await openDb();
+    const raw: unknown[] = db
+      ? await request(db.transaction(PROJECTS_STORE).objectStore(PROJECTS_STORE).getAll())
+      : this.readFallback();
+    const projects: ProjectData[] = [];
+    for (const item of raw) {
+      try {
+        projects.push(parseProject(item));
+      } catch (e) {
+        console.warn('Skipping unreadable project.', e);
+      }
+    }
+    return projects;
+  }
+
+  private readFallback(): ProjectData[] {
+    try {
+      return JSON.parse(localStorage.getItem(FALLBACK_KEY) ?? '[]');
+    } catch {
+      return [];
+    }
+  }
+
+  private writeFallback(projects: ProjectData[]) {
+    localStorage.setItem(FALLBACK_KEY, JSON.stringify(projects));
+  }
+}
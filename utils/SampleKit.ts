@@ -0,0 +1,85 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Instrument } from '../types';
+
+/** How a sample is played: a trimmed region, in fractions of its length, shifted by `pitch` semitones. */
+export interface SampleSettings {
+  start: number;
+  end: number;
+  pitch: number;
+  reverse: boolean;
+}
+
+/** An audio file loaded by the user, kept undecoded so it can be stored. */
+export interface Sample {
+  fileName: string;
+  data: ArrayBuffer;
+  settings: SampleSettings;
+}
+
+/** A beatmaker kit built from user samples. */
+export interface SampleKit {
+  id: string;
+  name: string;
+  samples: { [key in Instrument]?: Sample };
+}
+
+export const MAX_PITCH = 24;
+
+export function createSampleKitId() {
+  return `sample-kit-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+export function createSampleSettings(): SampleSettings {
+  return { start: 0, end: 1, pitch: 0, reverse: false };
+}
+
+/** A decoded sample, ready to be played as a drum voice. */
+export class SampleVoice {
+  private buffer: AudioBuffer;
+  private reversed: AudioBuffer | null = null;
+  private settings: SampleSettings;
+
+  constructor(buffer: AudioBuffer, settings: SampleSettings) {
+    this.buffer = buffer;
+    this.settings = settings;
+    if (settings.reverse) this.reversed = reverseBuffer(buffer);
+  }
+
+  play(time: number, destination: AudioNode) {
+    const { start, end, pitch, reverse } = this.settings;
+    const source = destination.context.createBufferSource();
+    source.buffer = reverse && this.reversed ? this.reversed : this.buffer;
+    source.playbackRate.value = 2 ** (pitch / 12);
+    source.connect(destination);
+    // Reversing mirrors the trimmed region too.
+    const offset = (reverse ? 1 - end : start) * this.buffer.duration;
+    const duration = Math.max(0, end - start) * this.buffer.duration;
+    source.start(time, offset, duration);
+  }
+}
+
+/** Decodes a stored sample. Rejects with the file name when the audio cannot be read. */
+export async function decodeSample(audioContext: BaseAudioContext, sample: Sample): Promise<SampleVoice> {
+  try {
+    // decodeAudioData detaches the buffer it is given, so keep the stored copy intact.
+    const buffer = await audioContext.decodeAudioData(sample.data.slice(0));
+    return new SampleVoice(buffer, sample.settings);
+  } catch {
+    throw new Error(`Could not decode "${sample.fileName}". Try a WAV or MP3 file.`);
+  }
+}
+
+function reverseBuffer(buffer: AudioBuffer): AudioBuffer {
+  const reversed = new AudioBuffer({
+    length: buffer.length,
+    numberOfChannels: buffer.numberOfChannels,
+    sampleRate: buffer.sampleRate,
+  });
+  for (let channel = 0; channel < buffer.numberOfChannels; channel++) {
+    reversed.copyToChannel(buffer.getChannelData(channel).slice().reverse(), channel);
+  }
+  return reversed;
+}
@@ -0,0 +1,28 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { openDb, request, SAMPLE_KITS_STORE } from './db';
+import type { SampleKit } from './SampleKit';
+
+/** Persists user sample kits in IndexedDB. Audio is too large for the localStorage fallback projects use. */
+export class SampleKitStore {
+  async list(): Promise<SampleKit[]> {
+    const db = await openDb();
+    if (!db) return [];
+    const kits: SampleKit[] = await request(db.transaction(SAMPLE_KITS_STORE).objectStore(SAMPLE_KITS_STORE).getAll());
+    return kits.sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async save(kit: SampleKit) {
+    const db = await openDb();
+    if (!db) throw new Error('Sample kits need IndexedDB, which this browser does not allow.');
+    await request(db.transaction(SAMPLE_KITS_STORE, 'readwrite').objectStore(SAMPLE_KITS_STORE).put(kit));
+  }
+
+  async delete(id: string) {
+    const db = await openDb();
+    if (!db) return;
+    await request(db.transaction(SAMPLE_KITS_STORE, 'readwrite').objectStore(SAMPLE_KITS_STORE).delete(id));
+  }
+}
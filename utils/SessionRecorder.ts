@@ -0,0 +1,158 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { encodeFlac } from './flac';
+import { encodeWav } from './wav';
+
+export type ExportFormat = 'wav' | 'flac';
+
+/** A finished recording of the master mix and, optionally, each source. */
+export interface Take {
+  readonly id: string;
+  name: string;
+  readonly createdAt: number;
+  readonly sampleRate: number;
+  readonly duration: number;
+  readonly mix: Float32Array[];
+  readonly stems: Map<string, Float32Array[]>;
+}
+
+const TAP_BUFFER_SIZE = 4096;
+const TAP_CHANNELS = 2;
+
+/** Copies everything that flows through a node while recording is armed. */
+class Tap {
+  private processor: ScriptProcessorNode;
+  private chunks: Float32Array[][] = [];
+  public enabled = false;
+
+  constructor(audioContext: AudioContext, source: AudioNode, sink: AudioNode) {
+    this.processor = audioContext.createScriptProcessor(TAP_BUFFER_SIZE, TAP_CHANNELS, TAP_CHANNELS);
+    this.processor.onaudioprocess = (e: AudioProcessingEvent) => {
+      if (!this.enabled) return;
+      const chunk: Float32Array[] = [];
+      for (let ch = 0; ch < TAP_CHANNELS; ch++) {
+        chunk.push(e.inputBuffer.getChannelData(ch).slice());
+      }
+      this.chunks.push(chunk);
+    };
+    source.connect(this.processor);
+    // Script processors only run while connected to the graph.
+    this.processor.connect(sink);
+  }
+
+  /** Returns the captured audio as planar channels and clears the tap. */
+  flush(): Float32Array[] {
+    const length = this.chunks.reduce((acc, chunk) => acc + chunk[0].length, 0);
+    const channels = Array.from({ length: TAP_CHANNELS }, () => new Float32Array(length));
+    let offset = 0;
+    for (const chunk of this.chunks) {
+      for (let ch = 0; ch < TAP_CHANNELS; ch++) {
+        channels[ch].set(chunk[ch], offset);
+      }
+      offset += chunk[0].length;
+    }
+    this.chunks = [];
+    return channels;
+  }
+
+  disconnect() {
+    this.processor.disconnect();
+    this.processor.onaudioprocess = null;
+  }
+}
+
+/** Records the combined studio output and exports takes as WAV or FLAC. */
+export class SessionRecorder extends EventTarget {
+  private audioContext: AudioContext;
+  private mixBus: GainNode;
+  private silentSink: GainNode;
+  private mixTap: Tap;
+  private stemTaps = new Map<string, Tap>();
+  private startedAt = 0;
+  private takeCount = 0;
+
+  public recordStems = false;
+  public takes: Take[] = [];
+  private recording = false;
+
+  constructor(audioContext: AudioContext) {
+    super();
+    this.audioContext = audioContext;
+    this.mixBus = audioContext.createGain();
+    this.silentSink = audioContext.createGain();
+    this.silentSink.gain.value = 0;
+    this.silentSink.connect(audioContext.destination);
+    this.mixTap = new Tap(audioContext, this.mixBus, this.silentSink);
+  }
+
+  get isRecording() {
+    return this.recording;
+  }
+
+  /** Adds a named source to the mix; it is also available as a stem. */
+  addSource(name: string, node: AudioNode) {
+    node.connect(this.mixBus);
+    this.stemTaps.set(name, new Tap(this.audioContext, node, this.silentSink));
+  }
+
+  start() {
+    if (this.recording) return;
+    this.recording = true;
+    this.startedAt = Date.now();
+    this.mixTap.enabled = true;
+    for (const tap of this.stemTaps.values()) {
+      tap.enabled = this.recordStems;
+    }
+    this.dispatchEvent(new CustomEvent<boolean>('recording-changed', { detail: true }));
+  }
+
+  stop(): Take | null {
+    if (!this.recording) return null;
+    this.recording = false;
+    this.mixTap.enabled = false;
+    const stems = new Map<string, Float32Array[]>();
+    for (const [name, tap] of this.stemTaps) {
+      tap.enabled = false;
+      const channels = tap.flush();
+      if (this.recordStems) stems.set(name, channels);
+    }
+    const mix = this.mixTap.flush();
+    this.dispatchEvent(new CustomEvent<boolean>('recording-changed', { detail: false }));
+
+    if (mix[0].length === 0) return null;
+    const take: Take = {
+      id: `take-${this.startedAt}`,
+      name: `Take ${++this.takeCount}`,
+      createdAt: this.startedAt,
+      sampleRate: this.audioContext.sampleRate,
+      duration: mix[0].length / this.audioContext.sampleRate,
+      mix,
+      stems,
+    };
+    this.takes = [...this.takes, take];
+    this.dispatchTakesChanged();
+    return take;
+  }
+
+  deleteTake(id: string) {
+    this.takes = this.takes.filter((t) => t.id !== id);
+    this.dispatchTakesChanged();
+  }
+
+  /** Encodes the mix, or one stem when `stem` is given. */
+  exportTake(id: string, format: ExportFormat, stem?: string): Blob {
+    const take = this.takes.find((t) => t.id === id);
+    if (!take) throw new Error('That take no longer exists.');
+    const channels = stem ? take.stems.get(stem) : take.mix;
+    if (!channels) throw new Error(`Take "${take.name}" has no "${stem}" stem.`);
+    return format === 'wav'
+      ? encodeWav(channels, take.sampleRate)
+      : encodeFlac(channels, take.sampleRate);
+  }
+
+  private dispatchTakesChanged() {
+    this.dispatchEvent(new CustomEvent<Take[]>('takes-changed', { detail: this.takes }));
+  }
+}
@@ -0,0 +1,279 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { Instrument } from '../types';
+import { ALL_INSTRUMENTS } from './music';
+import { field, isObject, isOneOf } from './validate';
+
+export type VoiceWave = 'sine' | 'triangle' | 'square' | 'sawtooth';
+export type VoiceFilter = 'lowpass' | 'bandpass' | 'highpass';
+
+/**
+ * A synthesized drum sound: a pitched body and filtered noise sharing one
+ * envelope, mixed and optionally driven into saturation.
+ */
+export interface VoiceParams {
+  wave: VoiceWave;
+  /** Body pitch at the start of the hit, in Hz. */
+  tune: number;
+  /** How far the body pitch falls over the hit, from 0 (not at all) to 1 (all the way). */
+  sweep: number;
+  /** Seconds the hit takes to swell in; 0 for a sharp attack. */
+  attack: number;
+  /** Seconds the hit takes to die away after the attack. */
+  decay: number;
+  filter: VoiceFilter;
+  /** Frequency of the noise filter, in Hz. */
+  tone: number;
+  /** Balance between body (0) and noise (1). Both play at full level at 0.5. */
+  noise: number;
+  /** Saturation, from 0 (clean) to 1. */
+  drive: number;
+  level: number;
+  /** Short noise bursts before the hit, as in a hand clap. */
+  flams: number;
+}
+
+export type NumericVoiceParam = Exclude<keyof VoiceParams, 'wave' | 'filter'>;
+
+export type SynthVoices = { [key in Instrument]: VoiceParams };
+
+/** A beatmaker kit designed by the user in the synth kit editor. */
+export interface SynthKit {
+  id: string;
+  name: string;
+  voices: SynthVoices;
+}
+
+export const VOICE_WAVES: VoiceWave[] = ['sine', 'triangle', 'square', 'sawtooth'];
+export const VOICE_FILTERS: VoiceFilter[] = ['lowpass', 'bandpass', 'highpass'];
+
+/** Limits of each numeric parameter. Frequencies and times are edited on a log scale. */
+export const VOICE_RANGES: { [key in NumericVoiceParam]: { min: number; max: number; log?: boolean } } = {
+  tune: { min: 20, max: 1000, log: true },
+  sweep: { min: 0, max: 0.99 },
+  attack: { min: 0, max: 0.2 },
+  decay: { min: 0.01, max: 2, log: true },
+  tone: { min: 100, max: 16000, log: true },
+  noise: { min: 0, max: 1 },
+  drive: { min: 0, max: 1 },
+  level: { min: 0, max: 1.5 },
+  flams: { min: 0, max: 4 },
+};
+
+/** Seconds between the bursts of a flam. */
+const FLAM_GAP = 0.0125;
+/** Level envelopes fade out to, since exponential ramps cannot reach 0. */
+const ENVELOPE_FLOOR = 0.001;
+
+export function createVoiceParams(params: Partial<VoiceParams> = {}): VoiceParams {
+  return {
+    wave: 'sine', tune: 150, sweep: 0, attack: 0, decay: 0.2, filter: 'highpass', tone: 5000, noise: 0, drive: 0,
+    level: 1, flams: 0, ...params,
+  };
+}
+
+export function createSynthKitId() {
+  return `synth-kit-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/** Fills in and clamps the parameters of a stored voice. */
+export function validateVoiceParams(raw: unknown): VoiceParams {
+  const params = createVoiceParams();
+  if (!isObject(raw)) return params;
+  if (isOneOf(VOICE_WAVES, raw.wave)) params.wave = raw.wave;
+  if (isOneOf(VOICE_FILTERS, raw.filter)) params.filter = raw.filter;
+  for (const key of Object.keys(VOICE_RANGES) as NumericVoiceParam[]) {
+    const { min, max } = VOICE_RANGES[key];
+    const value = raw[key];
+    if (typeof value === 'number' && isFinite(value)) params[key] = Math.max(min, Math.min(max, value));
+  }
+  params.flams = Math.round(params.flams);
+  return params;
+}
+
+export function validateSynthVoices(raw: unknown): SynthVoices {
+  const voices = {} as SynthVoices;
+  for (const instrument of ALL_INSTRUMENTS) voices[instrument] = validateVoiceParams(field(raw, instrument));
+  return voices;
+}
+
+const electronicClap = createVoiceParams({ noise: 1, filter: 'bandpass', tone: 1500, decay: 0.125, flams: 2 });
+const electronicTom = createVoiceParams({ tune: 250, sweep: 0.6, level: 0.8 });
+const electronicCymbal = createVoiceParams({ noise: 1, tone: 5000, decay: 0.4, level: 0.6 });
+const acousticHat = createVoiceParams({ noise: 1, tone: 8000, decay: 0.04, level: 0.7 });
+const acousticSnare = createVoiceParams({ noise: 1, filter: 'bandpass', tone: 2000, decay: 0.12 });
+const acousticCymbal = createVoiceParams({ noise: 1, tone: 8000, decay: 0.5, level: 0.8 });
+const rockTom = createVoiceParams({ tune: 300, sweep: 0.6, decay: 0.25 });
+
+/** The built-in kits, by name. */
+export const SYNTH_PRESETS: { [name: string]: SynthVoices } = {
+  'Electronic': {
+    kick: createVoiceParams({ sweep: 0.99, decay: 0.1 }),
+    snare: createVoiceParams({ noise: 1, tone: 1000 }),
+    hat: createVoiceParams({ noise: 1, tone: 7000, decay: 0.05 }),
+    clap: electronicClap,
+    tom: electronicTom,
+    cymbal: electronicCymbal,
+  },
+  '808': {
+    kick: createVoiceParams({ tune: 120, sweep: 0.75, decay: 0.4 }),
+    snare: createVoiceParams({ noise: 1, filter: 'lowpass', tone: 5000, decay: 0.15 }),
+    hat: createVoiceParams({ noise: 1, tone: 9000, decay: 0.03, level: 0.5 }),
+    clap: electronicClap,
+    tom: electronicTom,
+    cymbal: electronicCymbal,
+  },
+  'Acoustic': {
+    kick: createVoiceParams({ tune: 180, sweep: 0.78, decay: 0.15 }),
+    snare: acousticSnare,
+    hat: acousticHat,
+    clap: electronicClap,
+    tom: electronicTom,
+    cymbal: acousticCymbal,
+  },
+  'Rock': {
+    kick: createVoiceParams({ tune: 160, sweep: 0.69, decay: 0.15, level: 1.2 }),
+    snare: createVoiceParams({ wave: 'triangle', tune: 220, noise: 0.65, tone: 1500, decay: 0.15 }),
+    hat: acousticHat,
+    clap: electronicClap,
+    tom: rockTom,
+    cymbal: acousticCymbal,
+  },
+  'Jazz': {
+    kick: createVoiceParams({ tune: 120, sweep: 0.5, decay: 0.25, level: 0.9 }),
+    snare: createVoiceParams({ tune: 250, noise: 0.58, filter: 'bandpass', tone: 2500, decay: 0.12, level: 0.6 }),
+    hat: createVoiceParams({ noise: 1, tone: 6000, decay: 0.05, level: 0.5 }),
+    clap: electronicClap,
+    tom: createVoiceParams({ tune: 400, sweep: 0.5, decay: 0.3, level: 0.8 }),
+    cymbal: createVoiceParams({ noise: 1, filter: 'bandpass', tone: 4000, decay: 0.6, level: 0.6 }),
+  },
+  'Funk': {
+    kick: createVoiceParams({ tune: 140, sweep: 0.57, decay: 0.1, level: 1.1 }),
+    snare: createVoiceParams({ wave: 'triangle', tune: 250, noise: 0.67, tone: 2000, decay: 0.1, level: 1.2 }),
+    hat: createVoiceParams({ noise: 1, tone: 8500, decay: 0.025, level: 0.8 }),
+    clap: electronicClap,
+    tom: rockTom,
+    cymbal: acousticCymbal,
+  },
+  'Brush': {
+    kick: createVoiceParams({ tune: 100, sweep: 0.5, attack: 0.01, decay: 0.19, level: 0.8 }),
+    snare: createVoiceParams({ noise: 1, filter: 'lowpass', tone: 6000, attack: 0.05, decay: 0.15, level: 0.5 }),
+    hat: createVoiceParams({ noise: 1, tone: 7500, decay: 0.03, level: 0.4 }),
+    clap: electronicClap,
+    tom: createVoiceParams({ tune: 280, sweep: 0.46, level: 0.6 }),
+    cymbal: createVoiceParams({ noise: 1, tone: 5000, attack: 0.1, decay: 0.7, level: 0.4 }),
+  },
+  'Studio': {
+    kick: createVoiceParams({ sweep: 0.63, decay: 0.18, noise: 0.15, filter: 'bandpass', tone: 800 }),
+    snare: acousticSnare,
+    hat: acousticHat,
+    clap: electronicClap,
+    tom: rockTom,
+    cymbal: acousticCymbal,
+  },
+};
+
+const noiseBuffers = new WeakMap<BaseAudioContext, AudioBuffer>();
+const driveCurves = new Map<number, Float32Array<ArrayBuffer>>();
+
+/** One second of white noise per context, shared by every voice. */
+function getNoiseBuffer(context: BaseAudioContext) {
+  let buffer = noiseBuffers.get(context);
+  if (!buffer) {
+    buffer = context.createBuffer(1, context.sampleRate, context.sampleRate);
+    const data = buffer.getChannelData(0);
+    for (let i = 0; i < data.length; i++) data[i] = Math.random() * 2 - 1;
+    noiseBuffers.set(context, buffer);
+  }
+  return buffer;
+}
+
+/** A tanh saturation curve, normalized so full scale stays at full scale. */
+function getDriveCurve(drive: number) {
+  const amount = Math.round(drive * 100);
+  let curve = driveCurves.get(amount);
+  if (!curve) {
+    const k = 1 + amount * 0.3;
+    curve = new Float32Array(1024);
+    for (let i = 0; i < curve.length; i++) {
+      const x = (i / (curve.length - 1)) * 2 - 1;
+      curve[i] = Math.tanh(k * x) / Math.tanh(k);
+    }
+    driveCurves.set(amount, curve);
+  }
+  return curve;
+}
+
+/** Plays a set of voice parameters as a drum hit. */
+export class SynthVoice {
+  private params: VoiceParams;
+
+  constructor(params: VoiceParams) {
+    this.params = params;
+  }
+
+  play(time: number, destination: AudioNode) {
+    const { wave, tune, sweep, attack, decay, filter, tone, noise, drive, level, flams } = this.params;
+    const context = destination.context;
+    const hitStart = time + flams * FLAM_GAP;
+    const end = hitStart + attack + decay;
+
+    let output = destination;
+    if (drive > 0) {
+      const shaper = context.createWaveShaper();
+      shaper.curve = getDriveCurve(drive);
+      shaper.oversample = '2x';
+      shaper.connect(destination);
+      output = shaper;
+    }
+    const envelope = context.createGain();
+    envelope.connect(output);
+    const gain = envelope.gain;
+    for (let i = 0; i < flams; i++) {
+      const flamTime = time + i * FLAM_GAP;
+      gain.setValueAtTime(level, flamTime);
+      gain.exponentialRampToValueAtTime(Math.max(level * 0.1, ENVELOPE_FLOOR), flamTime + FLAM_GAP * 0.8);
+    }
+    if (attack > 0) {
+      gain.setValueAtTime(0, hitStart);
+      gain.linearRampToValueAtTime(level, hitStart + attack);
+    } else {
+      gain.setValueAtTime(level, hitStart);
+    }
+    gain.exponentialRampToValueAtTime(ENVELOPE_FLOOR, end);
+
+    const bodyLevel = Math.min(1, 2 * (1 - noise));
+    if (bodyLevel > 0) {
+      const osc = context.createOscillator();
+      const bodyGain = context.createGain();
+      osc.type = wave;
+      bodyGain.gain.value = bodyLevel;
+      osc.connect(bodyGain);
+      bodyGain.connect(envelope);
+      osc.frequency.setValueAtTime(tune, time);
+      if (sweep > 0) osc.frequency.exponentialRampToValueAtTime(tune * (1 - sweep), end);
+      osc.start(time);
+      osc.stop(end);
+    }
+
+    const noiseLevel = Math.min(1, 2 * noise);
+    if (noiseLevel > 0) {
+      const source = context.createBufferSource();
+      source.buffer = getNoiseBuffer(context);
+      source.loop = true;
+      const noiseFilter = context.createBiquadFilter();
+      noiseFilter.type = filter;
+      noiseFilter.frequency.value = tone;
+      const noiseGain = context.createGain();
+      noiseGain.gain.value = noiseLevel;
+      source.connect(noiseFilter);
+      noiseFilter.connect(noiseGain);
+      noiseGain.connect(envelope);
+      // A random offset keeps repeated hits from sounding identical.
+      source.start(time, Math.random());
+      source.stop(end);
+    }
+  }
+}
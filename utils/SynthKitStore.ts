@@ -0,0 +1,30 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { openDb, request, SYNTH_KITS_STORE } from './db';
+import { type SynthKit, validateSynthVoices } from './SynthKit';
+
+/** Persists user synth kits in IndexedDB. */
+export class SynthKitStore {
+  async list(): Promise<SynthKit[]> {
+    const db = await openDb();
+    if (!db) return [];
+    const kits: SynthKit[] = await request(db.transaction(SYNTH_KITS_STORE).objectStore(SYNTH_KITS_STORE).getAll());
+    return kits
+      .map((kit) => ({ ...kit, voices: validateSynthVoices(kit.voices) }))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  async save(kit: SynthKit) {
+    const db = await openDb();
+    if (!db) throw new Error('Synth kits need IndexedDB, which this browser does not allow.');
+    await request(db.transaction(SYNTH_KITS_STORE, 'readwrite').objectStore(SYNTH_KITS_STORE).put(kit));
+  }
+
+  async delete(id: string) {
+    const db = await openDb();
+    if (!db) return;
+    await request(db.transaction(SYNTH_KITS_STORE, 'readwrite').objectStore(SYNTH_KITS_STORE).delete(id));
+  }
+}
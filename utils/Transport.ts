@@ -0,0 +1,106 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** How far ahead of `currentTime` a quantized start can be scheduled (s). */
+const START_LEAD_TIME = 0.05;
+
+export interface JoinOptions {
+  /** Overrides `Transport.quantizeStart` for this client. */
+  quantize?: boolean;
+  /** Earliest context time the client can start at. */
+  earliest?: number;
+}
+
+/**
+ * Shared clock for everything that plays in the studio. Owns the single
+ * AudioContext and the bar grid that the launchpad and beatmaker start on.
+ */
+export class Transport extends EventTarget {
+  public readonly audioContext: AudioContext;
+  /** When set, clients joining a running grid wait for the next bar line. */
+  public quantizeStart = false;
+
+  private bpm = 120;
+  private beatsPerBar = 4;
+  // Context time of the first downbeat; null while nothing is playing.
+  private anchorTime: number | null = null;
+  private clients = new Set<string>();
+
+  constructor() {
+    super();
+    this.audioContext = new AudioContext({ sampleRate: 48000 });
+  }
+
+  get tempo() {
+    return this.bpm;
+  }
+
+  get secondsPerBeat() {
+    return 60 / this.bpm;
+  }
+
+  get secondsPerBar() {
+    return this.secondsPerBeat * this.beatsPerBar;
+  }
+
+  get isRunning() {
+    return this.anchorTime !== null;
+  }
+
+  setTempo(bpm: number) {
+    if (bpm === this.bpm) return;
+    if (this.anchorTime !== null) {
+      // Keep the current beat position so running clients stay on the grid.
+      const now = this.audioContext.currentTime;
+      const beats = (now - this.anchorTime) / this.secondsPerBeat;
+      this.anchorTime = now - beats * (60 / bpm);
+    }
+    this.bpm = bpm;
+    this.dispatchEvent(new CustomEvent<number>('tempo-changed', { detail: bpm }));
+  }
+
+  /** Returns the context time of the first bar line at or after `time`. */
+  nextBarTime(time = this.audioContext.currentTime + START_LEAD_TIME) {
+    if (this.anchorTime === null) return time;
+    const bars = Math.ceil((time - this.anchorTime) / this.secondsPerBar - 1e-6);
+    return this.anchorTime + Math.max(0, bars) * this.secondsPerBar;
+  }
+
+  /**
+   * Registers a client as playing and returns the context time it should
+   * start at. The first client to join anchors the bar grid.
+   */
+  join(client: string, options: JoinOptions = {}) {
+    const earliest = Math.max(
+      options.earliest ?? 0,
+      this.audioContext.currentTime + START_LEAD_TIME,
+    );
+    const others = [...this.clients].filter((c) => c !== client);
+    this.clients.add(client);
+
+    if (this.anchorTime === null || others.length === 0) {
+      this.anchorTime = earliest;
+      this.dispatchEvent(new CustomEvent<number>('started', { detail: earliest }));
+      return earliest;
+    }
+    return (options.quantize ?? this.quantizeStart) ? this.nextBarTime(earliest) : earliest;
+  }
+
+  /** Unregisters a client; the grid is released once nobody is playing. */
+  leave(client: string) {
+    this.clients.delete(client);
+    if (this.clients.size === 0 && this.anchorTime !== null) {
+      this.anchorTime = null;
+      this.dispatchEvent(new CustomEvent('stopped'));
+    }
+  }
+
+  resume() {
+    if (this.audioContext.state === 'suspended') {
+      return this.audioContext.resume();
+    }
+    return Promise.resolve();
+  }
+}
@@ -38,37 +38,43 @@ function createBlob(data: Float32Array): Blob {
   };
 }
 
-async function decodeAudioData(
-  data: Uint8Array,
-  ctx: AudioContext,
-  sampleRate: number,
-  numChannels: number,
-): Promise<AudioBuffer> {
-  const buffer = ctx.createBuffer(
-    numChannels,
-    data.length / 2 / numChannels,
-    sampleRate,
-  );
+/** Sample rate and channel count of 16-bit PCM audio. */
+interface PcmFormat {
+  sampleRate: number;
+  channels: number;
+}
 
-  const dataInt16 = new Int16Array(data.buffer);
-  const l = dataInt16.length;
-  const dataFloat32 = new Float32Array(l);
-  for (let i = 0; i < l; i++) {
-    dataFloat32[i] = dataInt16[i] / 32768.0;
+/**
+ * Reads the format of little-endian 16-bit PCM from a mime type like
+ * `audio/l16;rate=48000;channels=2`. Missing parts are taken from `fallback`.
+ */
+function parsePcmFormat(mimeType: string | undefined, fallback: PcmFormat): PcmFormat {
+  const [type, ...params] = (mimeType ?? '').split(';').map((part) => part.trim().toLowerCase());
+  if (type && type !== 'audio/l16' && type !== 'audio/pcm') {
+    throw new Error(`Unsupported audio format: ${type}`);
   }
-  // Extract interleaved channels
-  if (numChannels === 0) {
-    buffer.copyToChannel(dataFloat32, 0);
-  } else {
-    for (let i = 0; i < numChannels; i++) {
-      const channel = dataFloat32.filter(
-        (_, index) => index % numChannels === i,
-      );
-      buffer.copyToChannel(channel, i);
-    }
+  const format = { ...fallback };
+  for (const param of params) {
+    const [name, value] = param.split('=');
+    const number = Number(value);
+    if (!Number.isInteger(number) || number <= 0) continue;
+    if (name === 'rate') format.sampleRate = number;
+    if (name === 'channels') format.channels = number;
   }
+  return format;
+}
 
-  return buffer;
+/** Converts float samples in [-1, 1] to clamped signed integers. */
+function quantizeSamples(data: Float32Array, bitDepth: number): Int32Array {
+  const max = 2 ** (bitDepth - 1);
+  const l = data.length;
+  const out = new Int32Array(l);
+  for (let i = 0; i < l; i++) {
+    const sample = Math.round(data[i] * max);
+    out[i] = Math.max(-max, Math.min(max - 1, sample));
+  }
+  return out;
 }
 
-export {createBlob, decode, decodeAudioData, encode};
+export {createBlob, decode, encode, parsePcmFormat, quantizeSamples};
+export type {PcmFormat};
@@ -0,0 +1,42 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+const DB_NAME = 'lollipad';
+const DB_VERSION = 3;
+export const PROJECTS_STORE = 'projects';
+export const SAMPLE_KITS_STORE = 'sampleKits';
+export const SYNTH_KITS_STORE = 'synthKits';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/** Opens the app's IndexedDB database, or resolves to null where IndexedDB is unavailable. */
+export function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    if (typeof indexedDB === 'undefined') return Promise.resolve(null);
+    dbPromise = new Promise((resolve, reject) => {
+      const open = indexedDB.open(DB_NAME, DB_VERSION);
+      open.onupgradeneeded = () => {
+        for (const store of [PROJECTS_STORE, SAMPLE_KITS_STORE, SYNTH_KITS_STORE]) {
+          if (!open.result.objectStoreNames.contains(store)) {
+            open.result.createObjectStore(store, { keyPath: 'id' });
+          }
+        }
+      };
+      open.onsuccess = () => resolve(open.result);
+      open.onerror = () => reject(open.error);
+    });
+  }
+  return dbPromise.catch((e) => {
+    console.warn('IndexedDB unavailable.', e);
+    return null;
+  });
+}
+
+export function request<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
@@ -0,0 +1,341 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { quantizeSamples } from './audio';
+
+export type FlacBitDepth = 16 | 24;
+
+const BLOCK_SIZE = 4096;
+const MAX_FIXED_ORDER = 4;
+const MAX_PARTITION_ORDER = 4;
+// 4-bit Rice parameters; 0b1111 is reserved as the escape code.
+const MAX_RICE_PARAM = 14;
+
+/**
+ * Encodes planar float channels as a lossless FLAC stream. Each block picks
+ * the cheapest of a constant, verbatim or fixed-predictor subframe, with
+ * partitioned Rice coding of the residual.
+ */
+export function encodeFlac(
+  channels: Float32Array[],
+  sampleRate: number,
+  bitDepth: FlacBitDepth = 16,
+): Blob {
+  const numChannels = channels.length;
+  if (numChannels < 1 || numChannels > 8) {
+    throw new Error(`FLAC supports 1 to 8 channels, got ${numChannels}.`);
+  }
+  const totalSamples = channels[0].length;
+  const samples = channels.map((c) => quantizeSamples(c, bitDepth));
+
+  const frames = new BitWriter(totalSamples * numChannels * (bitDepth / 8) + 1024);
+  let minFrameSize = Infinity;
+  let maxFrameSize = 0;
+  let frameNumber = 0;
+  for (let start = 0; start < totalSamples; start += BLOCK_SIZE) {
+    const end = Math.min(totalSamples, start + BLOCK_SIZE);
+    const frameStart = frames.length;
+    writeFrame(frames, samples.map((s) => s.subarray(start, end)), frameNumber++, sampleRate, bitDepth);
+    const frameSize = frames.length - frameStart;
+    minFrameSize = Math.min(minFrameSize, frameSize);
+    maxFrameSize = Math.max(maxFrameSize, frameSize);
+  }
+
+  const header = new BitWriter(42);
+  header.writeBits(0x664c6143, 32); // "fLaC"
+  // STREAMINFO metadata block, flagged as the last one.
+  header.writeBits(1, 1);
+  header.writeBits(0, 7);
+  header.writeBits(34, 24);
+  const blockSize = Math.max(16, Math.min(BLOCK_SIZE, totalSamples));
+  header.writeBits(blockSize, 16);
+  header.writeBits(blockSize, 16);
+  header.writeBits(Number.isFinite(minFrameSize) ? minFrameSize : 0, 24);
+  header.writeBits(maxFrameSize, 24);
+  header.writeBits(sampleRate, 20);
+  header.writeBits(numChannels - 1, 3);
+  header.writeBits(bitDepth - 1, 5);
+  header.writeBits(Math.floor(totalSamples / 2 ** 32), 4);
+  header.writeBits(totalSamples >>> 0, 32);
+  // MD5 signature of the audio; all zeroes means "not computed".
+  for (let i = 0; i < 4; i++) header.writeBits(0, 32);
+
+  return new Blob([header.bytes(), frames.bytes()], { type: 'audio/flac' });
+}
+
+function writeFrame(
+  out: BitWriter,
+  block: Int32Array[],
+  frameNumber: number,
+  sampleRate: number,
+  bitDepth: number,
+) {
+  const frameStart = out.length;
+  const blockSize = block[0].length;
+
+  out.writeBits(0x3ffe, 14); // sync code
+  out.writeBits(0, 1);
+  out.writeBits(0, 1); // fixed block size stream
+  out.writeBits(0b0111, 4); // block size stored as 16 bits after the header
+  out.writeBits(sampleRateCode(sampleRate), 4);
+  out.writeBits(block.length - 1, 4); // independent channels
+  out.writeBits(bitDepth === 16 ? 0b100 : 0b110, 3);
+  out.writeBits(0, 1);
+  writeUtf8Number(out, frameNumber);
+  out.writeBits(blockSize - 1, 16);
+  out.writeBits(crc8(out.slice(frameStart)), 8);
+
+  for (const channel of block) {
+    writeSubframe(out, channel, bitDepth);
+  }
+
+  out.alignToByte();
+  out.writeBits(crc16(out.slice(frameStart)), 16);
+}
+
+function writeSubframe(out: BitWriter, samples: Int32Array, bitDepth: number) {
+  const n = samples.length;
+
+  if (samples.every((s) => s === samples[0])) {
+    out.writeBits(0, 1);
+    out.writeBits(0b000000, 6);
+    out.writeBits(0, 1);
+    out.writeSigned(samples[0], bitDepth);
+    return;
+  }
+
+  let best: { order: number, residual: Int32Array, coding: RiceCoding } | null = null;
+  let bestBits = Infinity;
+  for (let order = 0; order <= Math.min(MAX_FIXED_ORDER, n - 1); order++) {
+    const residual = fixedResidual(samples, order);
+    const coding = chooseRiceCoding(residual, order);
+    const bits = order * bitDepth + coding.bits;
+    if (bits < bestBits) {
+      best = { order, residual, coding };
+      bestBits = bits;
+    }
+  }
+
+  if (!best || bestBits >= n * bitDepth) {
+    out.writeBits(0, 1);
+    out.writeBits(0b000001, 6);
+    out.writeBits(0, 1);
+    for (let i = 0; i < n; i++) out.writeSigned(samples[i], bitDepth);
+    return;
+  }
+
+  out.writeBits(0, 1);
+  out.writeBits(0b001000 | best.order, 6);
+  out.writeBits(0, 1);
+  for (let i = 0; i < best.order; i++) out.writeSigned(samples[i], bitDepth);
+  writeResidual(out, best.residual, best.order, best.coding);
+}
+
+/** Residual of the fixed polynomial predictor; the first `order` entries are unused. */
+function fixedResidual(x: Int32Array, order: number): Int32Array {
+  const n = x.length;
+  const r = new Int32Array(n);
+  for (let i = order; i < n; i++) {
+    switch (order) {
+      case 0: r[i] = x[i]; break;
+      case 1: r[i] = x[i] - x[i - 1]; break;
+      case 2: r[i] = x[i] - 2 * x[i - 1] + x[i - 2]; break;
+      case 3: r[i] = x[i] - 3 * x[i - 1] + 3 * x[i - 2] - x[i - 3]; break;
+      default: r[i] = x[i] - 4 * x[i - 1] + 6 * x[i - 2] - 4 * x[i - 3] + x[i - 4]; break;
+    }
+  }
+  return r;
+}
+
+interface RiceCoding {
+  partitionOrder: number;
+  params: number[];
+  bits: number;
+}
+
+function chooseRiceCoding(residual: Int32Array, order: number): RiceCoding {
+  const blockSize = residual.length;
+  let best: RiceCoding | null = null;
+  for (let partitionOrder = 0; partitionOrder <= MAX_PARTITION_ORDER; partitionOrder++) {
+    const partitions = 1 << partitionOrder;
+    if (blockSize % partitions !== 0) break;
+    const partitionSize = blockSize / partitions;
+    if (partitionSize <= order) break;
+
+    const params: number[] = [];
+    let bits = 6; // coding method + partition order
+    for (let p = 0; p < partitions; p++) {
+      const start = p === 0 ? order : p * partitionSize;
+      const end = (p + 1) * partitionSize;
+      const { param, bits: partitionBits } = bestRiceParam(residual, start, end);
+      params.push(param);
+      bits += 4 + partitionBits;
+    }
+    if (!best || bits < best.bits) {
+      best = { partitionOrder, params, bits };
+    }
+  }
+  return best!;
+}
+
+function bestRiceParam(residual: Int32Array, start: number, end: number) {
+  const count = end - start;
+  let sum = 0;
+  for (let i = start; i < end; i++) sum += zigzag(residual[i]);
+  const mean = count > 0 ? sum / count : 0;
+  const estimate = mean > 1 ? Math.min(MAX_RICE_PARAM, Math.floor(Math.log2(mean))) : 0;
+
+  let best = { param: 0, bits: Infinity };
+  for (let k = Math.max(0, estimate - 1); k <= Math.min(MAX_RICE_PARAM, estimate + 1); k++) {
+    let bits = count * (k + 1);
+    const divisor = 2 ** k;
+    for (let i = start; i < end; i++) bits += Math.floor(zigzag(residual[i]) / divisor);
+    if (bits < best.bits) best = { param: k, bits };
+  }
+  return best;
+}
+
+function writeResidual(out: BitWriter, residual: Int32Array, order: number, coding: RiceCoding) {
+  const partitions = 1 << coding.partitionOrder;
+  const partitionSize = residual.length / partitions;
+  out.writeBits(0b00, 2); // Rice coding with 4-bit parameters
+  out.writeBits(coding.partitionOrder, 4);
+  for (let p = 0; p < partitions; p++) {
+    const k = coding.params[p];
+    out.writeBits(k, 4);
+    const start = p === 0 ? order : p * partitionSize;
+    const end = (p + 1) * partitionSize;
+    const divisor = 2 ** k;
+    for (let i = start; i < end; i++) {
+      const u = zigzag(residual[i]);
+      out.writeUnary(Math.floor(u / divisor));
+      if (k > 0) out.writeBits(u % divisor, k);
+    }
+  }
+}
+
+function zigzag(v: number) {
+  return v >= 0 ? v * 2 : -v * 2 - 1;
+}
+
+function sampleRateCode(sampleRate: number) {
+  switch (sampleRate) {
+    case 44100: return 0b1001;
+    case 48000: return 0b1010;
+    case 96000: return 0b1011;
+    default: return 0b0000; // taken from STREAMINFO
+  }
+}
+
+/** Writes a frame number using FLAC's UTF-8-like variable length coding. */
+function writeUtf8Number(out: BitWriter, value: number) {
+  if (value < 0x80) {
+    out.writeBits(value, 8);
+    return;
+  }
+  let continuationBytes = 1;
+  while (value >= 2 ** (6 + 5 * continuationBytes)) continuationBytes++;
+  const lead = (0xff << (7 - continuationBytes)) & 0xff;
+  const leadBits = 6 - continuationBytes;
+  out.writeBits(lead | (Math.floor(value / 2 ** (6 * continuationBytes)) & ((1 << leadBits) - 1)), 8);
+  for (let i = continuationBytes - 1; i >= 0; i--) {
+    out.writeBits(0x80 | (Math.floor(value / 2 ** (6 * i)) & 0x3f), 8);
+  }
+}
+
+const CRC8_TABLE = makeCrcTable(0x07, 8);
+const CRC16_TABLE = makeCrcTable(0x8005, 16);
+
+function makeCrcTable(polynomial: number, width: number) {
+  const table = new Uint16Array(256);
+  const topBit = 1 << (width - 1);
+  const mask = (1 << width) - 1;
+  for (let i = 0; i < 256; i++) {
+    let crc = i << (width - 8);
+    for (let bit = 0; bit < 8; bit++) {
+      crc = crc & topBit ? (crc << 1) ^ polynomial : crc << 1;
+    }
+    table[i] = crc & mask;
+  }
+  return table;
+}
+
+function crc8(bytes: Uint8Array) {
+  let crc = 0;
+  for (const byte of bytes) crc = CRC8_TABLE[crc ^ byte];
+  return crc;
+}
+
+function crc16(bytes: Uint8Array) {
+  let crc = 0;
+  for (const byte of bytes) crc = ((crc << 8) ^ CRC16_TABLE[(crc >> 8) ^ byte]) & 0xffff;
+  return crc;
+}
+
+/** MSB-first bit writer backed by a growable byte buffer. */
+class BitWriter {
+  private buffer: Uint8Array;
+  private byteLength = 0;
+  private acc = 0;
+  private accBits = 0;
+
+  constructor(capacity: number) {
+    this.buffer = new Uint8Array(Math.max(64, capacity));
+  }
+
+  /** Number of complete bytes written so far. */
+  get length() {
+    return this.byteLength;
+  }
+
+  writeBits(value: number, count: number) {
+    while (count > 0) {
+      const take = Math.min(count, 8 - this.accBits);
+      const shift = count - take;
+      const bits = Math.floor(value / 2 ** shift) & ((1 << take) - 1);
+      this.acc = (this.acc << take) | bits;
+      this.accBits += take;
+      count -= take;
+      if (this.accBits === 8) {
+        this.pushByte(this.acc);
+        this.acc = 0;
+        this.accBits = 0;
+      }
+    }
+  }
+
+  writeSigned(value: number, count: number) {
+    this.writeBits(value < 0 ? value + 2 ** count : value, count);
+  }
+
+  /** Writes `value` zero bits followed by a one. */
+  writeUnary(value: number) {
+    while (value >= 24) {
+      this.writeBits(0, 24);
+      value -= 24;
+    }
+    this.writeBits(1, value + 1);
+  }
+
+  alignToByte() {
+    if (this.accBits > 0) this.writeBits(0, 8 - this.accBits);
+  }
+
+  slice(start: number) {
+    return this.buffer.subarray(start, this.byteLength);
+  }
+
+  bytes() {
+    return this.buffer.slice(0, this.byteLength);
+  }
+
+  private pushByte(byte: number) {
+    if (this.byteLength === this.buffer.length) {
+      const grown = new Uint8Array(this.buffer.length * 2);
+      grown.set(this.buffer);
+      this.buffer = grown;
+    }
+    this.buffer[this.byteLength++] = byte;
+  }
+}
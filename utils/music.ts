@@ -0,0 +1,40 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import type { GenerationSettings, Instrument } from '../types';
+
+export const KEYS = ['C', 'C#', 'D', 'D#', 'E', 'F', 'F#', 'G', 'G#', 'A', 'A#', 'B'];
+export const SCALES = ['Major', 'Minor', 'Dorian', 'Phrygian', 'Lydian', 'Mixolydian', 'Locrian'];
+/** Semitones from the tonic of the relative major up to the tonic of each scale. */
+const SCALE_DEGREES: { [scale: string]: number } = {
+  Major: 0, Dorian: 2, Phrygian: 4, Lydian: 5, Mixolydian: 7, Minor: 9, Locrian: 11,
+};
+
+/** Pitch class (0 is C) of the major scale with the same notes, e.g. 0 for A Minor or D Dorian. */
+export function relativeMajor(key: string, scale: string) {
+  return (Math.max(0, KEYS.indexOf(key)) - (SCALE_DEGREES[scale] ?? 0) + 12) % 12;
+}
+
+export const MAX_GUIDANCE = 6;
+export const MAX_TEMPERATURE = 3;
+export const MAX_SEED = 2 ** 31 - 1;
+
+/** Lyria's own defaults. */
+export function createGenerationSettings(): GenerationSettings {
+  return { density: null, brightness: null, guidance: 4, temperature: 1.1, seed: null };
+}
+export const ALL_INSTRUMENTS: Instrument[] = ['kick', 'snare', 'hat', 'clap', 'tom', 'cymbal'];
+
+/** General MIDI percussion notes, as sent on channel 10, mapped to beatmaker voices. */
+export const GM_DRUM_NOTES: { [note: number]: Instrument } = {
+  35: 'kick', 36: 'kick',
+  37: 'snare', 38: 'snare', 40: 'snare',
+  39: 'clap',
+  42: 'hat', 44: 'hat', 46: 'hat',
+  41: 'tom', 43: 'tom', 45: 'tom', 47: 'tom', 48: 'tom', 50: 'tom',
+  49: 'cymbal', 51: 'cymbal', 52: 'cymbal', 55: 'cymbal', 57: 'cymbal', 59: 'cymbal',
+};
+
+/** Zero-based index of MIDI channel 10, the General MIDI percussion channel. */
+export const GM_DRUM_CHANNEL = 9;
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+class FakeAudioParam {
+  value = 1;
+  setValueAtTime(value: number) {
+    this.value = value;
+    return this;
+  }
+  linearRampToValueAtTime(value: number) {
+    this.value = value;
+    return this;
+  }
+  cancelScheduledValues() {
+    return this;
+  }
+}
+
+class FakeAudioNode {
+  connect() {}
+  disconnect() {}
+}
+
+class FakeGainNode extends FakeAudioNode {
+  gain = new FakeAudioParam();
+}
+
+class FakeBufferSourceNode extends FakeAudioNode {
+  buffer: AudioBuffer | null = null;
+  onended: (() => void) | null = null;
+  start() {}
+  stop() {}
+}
+
+/**
+ * Just enough of an AudioContext for the stream to be scheduled under
+ * Node. Its clock follows `Date.now()`, so fake timers move it too.
+ */
+export class FakeAudioContext {
+  readonly sampleRate: number;
+  readonly destination = new FakeAudioNode();
+  private startedAt = Date.now();
+
+  constructor(options: { sampleRate?: number } = {}) {
+    this.sampleRate = options.sampleRate ?? 48000;
+  }
+
+  get currentTime() {
+    return (Date.now() - this.startedAt) / 1000;
+  }
+
+  createGain() {
+    return new FakeGainNode();
+  }
+
+  createBufferSource() {
+    return new FakeBufferSourceNode();
+  }
+
+  createBuffer(numberOfChannels: number, length: number, sampleRate: number) {
+    return {
+      numberOfChannels,
+      length,
+      sampleRate,
+      duration: length / sampleRate,
+      copyToChannel() {},
+    };
+  }
+
+  async resume() {}
+}
@@ -0,0 +1,18 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/** A plain object whose fields are still to be checked, e.g. parsed from a file. */
+export function isObject(value: unknown): value is { [key: string]: unknown } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/** A field of `value`, or undefined when it is not an object. */
+export function field(value: unknown, key: string): unknown {
+  return isObject(value) ? value[key] : undefined;
+}
+
+export function isOneOf<T>(options: readonly T[], value: unknown): value is T {
+  return (options as readonly unknown[]).includes(value);
+}